@@ -0,0 +1,191 @@
+// Sends locally signed Stripe events to a running app's webhook and checks what they did in Supabase:
+// a paid book checkout, the same event delivered twice, a bundle checkout, a retry of a delivery whose
+// claim went stale, and refunds of both purchases.
+//
+// Run it against a test Supabase project, with the app started on the same env (npm run dev):
+//   CHECK_USER_ID=<auth user> CHECK_BOOK_ID=<books.id> CHECK_BUNDLE_ID=<bundle with items> \
+//     node --env-file=.env.local scripts/check-stripe-webhook.mjs
+// The user should not already own the book or the bundle: the refunds remove purchase and bundle access.
+// WEBHOOK_URL defaults to http://localhost:3000/api/webhooks/stripe. Purchases and ledger rows the check
+// creates are removed at the end; the refunds remove the entitlements.
+import Stripe from "stripe";
+import { createClient } from "@supabase/supabase-js";
+
+const STALE_CLAIM_AGE_MS = 10 * 60 * 1000;
+
+function requireEnv(name) {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`Missing ${name}`);
+    process.exit(2);
+  }
+  return value;
+}
+
+const webhookUrl = process.env.WEBHOOK_URL || "http://localhost:3000/api/webhooks/stripe";
+const webhookSecret = requireEnv("STRIPE_WEBHOOK_SECRET");
+const userId = requireEnv("CHECK_USER_ID");
+const bookId = requireEnv("CHECK_BOOK_ID");
+const bundleId = requireEnv("CHECK_BUNDLE_ID");
+const supabase = createClient(requireEnv("NEXT_PUBLIC_SUPABASE_URL"), requireEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+  auth: { persistSession: false },
+});
+// Signing needs no API access; the key is only required by the constructor.
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "sk_test_signing_only");
+
+const run = `check_${Date.now().toString(36)}`;
+const purchaseIds = [];
+let failures = 0;
+
+function check(label, passed, detail = "") {
+  if (!passed) failures += 1;
+  console.log(`${passed ? "ok" : "not ok"} - ${label}${!passed && detail ? ` (${detail})` : ""}`);
+}
+
+function stripeEvent(id, type, object) {
+  return {
+    id,
+    object: "event",
+    api_version: "2025-01-27.acacia",
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    type,
+    data: { object },
+  };
+}
+
+async function deliver(event) {
+  const payload = JSON.stringify(event);
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: webhookSecret });
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "stripe-signature": signature },
+    body: payload,
+  });
+  const body = await response.json().catch(() => ({}));
+  return { status: response.status, body };
+}
+
+async function createPurchase(target) {
+  const { data, error } = await supabase
+    .from("purchases")
+    .insert({ user_id: userId, amount_pence: 100, currency: "gbp", status: "pending", ...target })
+    .select("id")
+    .single();
+  if (error) throw new Error(`Purchase insert failed: ${error.message}`);
+  purchaseIds.push(data.id);
+  return data.id;
+}
+
+async function purchaseStatus(id) {
+  const { data } = await supabase.from("purchases").select("status").eq("id", id).maybeSingle();
+  return data?.status ?? null;
+}
+
+async function bookEntitlementCount() {
+  const { count } = await supabase
+    .from("book_entitlements")
+    .select("id", { count: "exact", head: true })
+    .match({ user_id: userId, book_id: bookId, source: "purchase" });
+  return count ?? 0;
+}
+
+async function bundleEntitlementCount() {
+  const [chapters, books] = await Promise.all([
+    supabase.from("entitlements").select("id", { count: "exact", head: true }).match({ user_id: userId, source: "bundle" }),
+    supabase.from("book_entitlements").select("id", { count: "exact", head: true }).match({ user_id: userId, source: "bundle" }),
+  ]);
+  return (chapters.count ?? 0) + (books.count ?? 0);
+}
+
+function checkoutSession(suffix, paymentIntent, metadata) {
+  return {
+    id: `cs_${run}_${suffix}`,
+    object: "checkout.session",
+    mode: "payment",
+    payment_status: "paid",
+    payment_intent: paymentIntent,
+    metadata: { user_id: userId, ...metadata },
+  };
+}
+
+function refundedCharge(suffix, paymentIntent) {
+  return { id: `ch_${run}_${suffix}`, object: "charge", refunded: true, payment_intent: paymentIntent };
+}
+
+async function main() {
+  const bookIntent = `pi_${run}_book`;
+  const bundleIntent = `pi_${run}_bundle`;
+
+  const bookPurchase = await createPurchase({ book_id: bookId });
+  const bookCheckout = stripeEvent(
+    `evt_${run}_book`,
+    "checkout.session.completed",
+    checkoutSession("book", bookIntent, { book_id: bookId, purchase_id: bookPurchase })
+  );
+  const first = await deliver(bookCheckout);
+  check("book checkout is accepted", first.status === 200 && first.body.duplicate === false, JSON.stringify(first));
+  check("book purchase is paid", (await purchaseStatus(bookPurchase)) === "paid");
+  check("book entitlement is granted", (await bookEntitlementCount()) === 1);
+
+  const again = await deliver(bookCheckout);
+  check("duplicate delivery is acknowledged as a duplicate", again.status === 200 && again.body.duplicate === true);
+  const { data: ledger } = await supabase.from("stripe_events").select("attempts, status").eq("id", bookCheckout.id).maybeSingle();
+  check("duplicate delivery is not processed again", ledger?.attempts === 1 && ledger?.status === "processed");
+
+  const bundlePurchase = await createPurchase({ bundle_id: bundleId });
+  const bundleCheckout = stripeEvent(
+    `evt_${run}_bundle`,
+    "checkout.session.completed",
+    checkoutSession("bundle", bundleIntent, { bundle_id: bundleId, purchase_id: bundlePurchase })
+  );
+  const bundled = await deliver(bundleCheckout);
+  check("bundle checkout is accepted", bundled.status === 200 && bundled.body.duplicate === false, JSON.stringify(bundled));
+  check("bundle purchase is paid", (await purchaseStatus(bundlePurchase)) === "paid");
+  check("bundle entitlements are granted", (await bundleEntitlementCount()) > 0);
+
+  const bookRefund = stripeEvent(`evt_${run}_book_refund`, "charge.refunded", refundedCharge("book", bookIntent));
+  const refunded = await deliver(bookRefund);
+  check("book refund is accepted", refunded.status === 200 && refunded.body.duplicate === false, JSON.stringify(refunded));
+  check("book purchase is refunded", (await purchaseStatus(bookPurchase)) === "refunded");
+  check("book entitlement is revoked", (await bookEntitlementCount()) === 0);
+
+  // A delivery that crashed mid-way leaves a processing claim behind; Stripe's retry must take it over.
+  const bundleRefund = stripeEvent(`evt_${run}_bundle_refund`, "charge.refunded", refundedCharge("bundle", bundleIntent));
+  await supabase.from("stripe_events").insert({
+    id: bundleRefund.id,
+    type: bundleRefund.type,
+    object_id: bundleRefund.data.object.id,
+    status: "processing",
+    claimed_at: new Date(Date.now() - STALE_CLAIM_AGE_MS).toISOString(),
+  });
+  const retried = await deliver(bundleRefund);
+  check("retry of a stale claim is processed", retried.status === 200 && retried.body.duplicate === false, JSON.stringify(retried));
+  const { data: retriedLedger } = await supabase
+    .from("stripe_events")
+    .select("attempts, status")
+    .eq("id", bundleRefund.id)
+    .maybeSingle();
+  check("stale claim is taken over once", retriedLedger?.attempts === 2 && retriedLedger?.status === "processed");
+  check("bundle purchase is refunded", (await purchaseStatus(bundlePurchase)) === "refunded");
+  check("bundle entitlements are revoked", (await bundleEntitlementCount()) === 0);
+}
+
+async function cleanUp() {
+  await supabase.from("stripe_events").delete().like("id", `evt_${run}_%`);
+  if (purchaseIds.length > 0) await supabase.from("purchases").delete().in("id", purchaseIds);
+}
+
+try {
+  await main();
+} catch (err) {
+  failures += 1;
+  console.error(err instanceof Error ? err.message : err);
+} finally {
+  await cleanUp();
+}
+
+console.log(failures === 0 ? "All webhook checks passed." : `${failures} webhook check(s) failed.`);
+process.exit(failures === 0 ? 0 : 1);
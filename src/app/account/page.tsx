@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isMembershipActive, loadMembership } from "@/lib/commerce/memberships";
+
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  searchParams?: { membership?: string } | Promise<{ membership?: string }>;
+};
+
+export default async function AccountPage({ searchParams }: PageProps) {
+  const resolvedSearchParams = await Promise.resolve(searchParams);
+  const supa = await supabaseServer();
+  const { data: userData } = await supa.auth.getUser();
+  const user = userData.user;
+  if (!user) redirect("/login");
+
+  const membership = await loadMembership(user.id);
+  const active = isMembershipActive(membership);
+  const periodEnd = membership?.currentPeriodEnd ? new Date(membership.currentPeriodEnd).toLocaleDateString() : "";
+
+  return (
+    <main className="app-shell">
+      <h1>Your account</h1>
+      <p>Signed in as {user.email}</p>
+
+      <h2>Membership</h2>
+      {resolvedSearchParams?.membership === "started" && !active && (
+        <p>Thanks for joining! Your membership will show here as soon as Stripe confirms the payment.</p>
+      )}
+      {active ? (
+        <>
+          <p>
+            {membership?.plan === "annual" ? "Annual" : "Monthly"} member: every published episode and full book is
+            unlocked.
+          </p>
+          {periodEnd && <p>{membership?.cancelAtPeriodEnd ? `Ends on ${periodEnd}.` : `Renews on ${periodEnd}.`}</p>}
+        </>
+      ) : (
+        <>
+          <p>Members can read every published episode and full book while the subscription is active.</p>
+          <div className="page-actions">
+            <form action="/api/checkout" method="post">
+              <input type="hidden" name="plan" value="monthly" />
+              <button type="submit">Join monthly</button>
+            </form>
+            <form action="/api/checkout" method="post">
+              <input type="hidden" name="plan" value="annual" />
+              <button type="submit">Join annually</button>
+            </form>
+          </div>
+        </>
+      )}
+
+      {membership?.stripeCustomerId && (
+        <form action="/api/billing-portal" method="post">
+          <button type="submit">Manage or cancel membership</button>
+        </form>
+      )}
+
+      <div className="page-actions">
+        <Link href="/bookcase">Back to Bookcase</Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import Stripe from "stripe";
+import { supabaseServer } from "@/lib/supabase/server";
+import { getStripeClient } from "@/lib/commerce/stripe";
+import { loadMembership } from "@/lib/commerce/memberships";
+
+export async function POST(req: Request) {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  if (!siteUrl) {
+    return NextResponse.json({ error: "Missing NEXT_PUBLIC_SITE_URL" }, { status: 500 });
+  }
+
+  let stripe: Stripe;
+  try {
+    stripe = getStripeClient();
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Stripe configuration error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const supa = await supabaseServer();
+  const { data: userData } = await supa.auth.getUser();
+  const user = userData.user;
+  if (!user) return NextResponse.redirect(new URL("/login", req.url));
+
+  const membership = await loadMembership(user.id);
+  if (!membership?.stripeCustomerId) {
+    return NextResponse.json({ error: "No billing account found" }, { status: 404 });
+  }
+
+  const portal = await stripe.billingPortal.sessions.create({
+    customer: membership.stripeCustomerId,
+    return_url: `${siteUrl}/account`,
+  });
+
+  return NextResponse.redirect(portal.url, 303);
+}
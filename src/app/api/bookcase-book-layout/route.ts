@@ -1,18 +1,34 @@
 import { NextResponse } from "next/server";
 import { supabaseService } from "@/lib/supabase/service";
 import { supabaseServer } from "@/lib/supabase/server";
-import { getUserRole } from "@/lib/supabase/roles";
-import { isBookcaseShelfNavProfileKey, type BookcaseShelfNavProfileKey } from "@/lib/bookcase/shelfNavDeviceLayout";
+import { getCurrentUserAndRole, getUserRole } from "@/lib/supabase/roles";
+import { recordLayoutRevision } from "@/lib/bookcase/layoutRevisionStore";
+import { loadLayoutDraft, publishDueLayoutDrafts, saveLayoutDraft } from "@/lib/bookcase/layoutDraftStore";
+import { layoutDraftState } from "@/lib/bookcase/layoutDrafts";
+import type { LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+import { DEFAULT_SHELF_ROWS, normalizeShelfRows, shelfSlotPosition, splitShelfOverflow } from "@/lib/bookcase/shelfLayout";
+import { flowShelfOverflow, type SourceTrim } from "@/lib/bookcase/shelfOverflowStore";
+import {
+  draftShelfBooks,
+  hydrateShelfBooks,
+  prepareShelfBooks,
+  saveCatalogBooks,
+} from "@/lib/bookcase/bookCatalogStore";
+import {
+  bookcaseBooksProfileRowKey,
+  isBookcaseShelfNavProfileKey,
+  type BookcaseShelfNavProfileKey,
+} from "@/lib/bookcase/shelfNavDeviceLayout";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 const TABLE_NAME = "bookcase_book_layouts";
 const PROFILE_TABLE_NAME = "device_layout_profiles";
-const PROFILE_PREFIX = "bookcase-books:";
 
 type BookItem = {
   key: string;
+  bookId: string;
   xPercent: number;
   yPercent: number;
   widthPercent: number;
@@ -36,8 +52,10 @@ type BookItem = {
   infoPageMediaType: string;
   fullBookMediaUrl: string;
   fullBookMediaType: string;
+  fullBookMediaPath: string;
   fullBookHideFirstPages: number;
   fullBookMaxPages: number;
+  fullBookPricePence: number;
 };
 
 type FrontTemplate = {
@@ -77,9 +95,7 @@ type FrontTemplates = {
   adminLogo: AdminLogoTemplate;
 };
 
-const MAX_BOOKS = 8;
-const PRESET_BOOK_WIDTH = 14.67;
-const PRESET_BOOK_HEIGHT = 73.59;
+const MAX_BOOK_PRICE_PENCE = 100000;
 const MIN_TITLE_BOX_WIDTH = 20;
 const MIN_TITLE_BOX_HEIGHT = 6;
 const MIN_FRONT_WIDTH = 16;
@@ -135,21 +151,11 @@ function defaultTargetPath(pageKey: string) {
   return "/bookcase";
 }
 
-function defaultBookByIndex(pageKey: string, index: number): BookItem {
-  const slot = clamp(index, 0, MAX_BOOKS - 1);
-  const halfWidth = PRESET_BOOK_WIDTH / 2;
-  const minX = halfWidth;
-  const maxX = 100 - halfWidth;
-  const xStep = MAX_BOOKS > 1 ? (maxX - minX) / (MAX_BOOKS - 1) : 0;
-  const x = minX + slot * xStep;
-  const y = 63;
-
+function defaultBookByIndex(pageKey: string, index: number, shelfRows: number): BookItem {
   return {
     key: `book-${index + 1}`,
-    xPercent: Number(x.toFixed(2)),
-    yPercent: Number(y.toFixed(2)),
-    widthPercent: PRESET_BOOK_WIDTH,
-    heightPercent: PRESET_BOOK_HEIGHT,
+    bookId: "",
+    ...shelfSlotPosition(index, shelfRows),
     label: "",
     targetPath: defaultTargetPath(pageKey),
     spineType: index % 2 === 0 ? "gold" : "brown",
@@ -169,8 +175,10 @@ function defaultBookByIndex(pageKey: string, index: number): BookItem {
     infoPageMediaType: "",
     fullBookMediaUrl: "",
     fullBookMediaType: "",
+    fullBookMediaPath: "",
     fullBookHideFirstPages: 0,
     fullBookMaxPages: 0,
+    fullBookPricePence: 0,
   };
 }
 
@@ -366,8 +374,11 @@ function sanitizeBook(raw: unknown, fallback: BookItem): BookItem {
     typeof row.fullBookMediaUrl === "string" ? row.fullBookMediaUrl.trim() : fallback.fullBookMediaUrl;
   const fullBookMediaTypeRaw =
     typeof row.fullBookMediaType === "string" ? row.fullBookMediaType.trim() : fallback.fullBookMediaType;
+  const fullBookMediaPathRaw =
+    typeof row.fullBookMediaPath === "string" ? row.fullBookMediaPath.trim() : fallback.fullBookMediaPath;
   const fullBookHideFirstPagesRaw = Number(row.fullBookHideFirstPages);
   const fullBookMaxPagesRaw = Number(row.fullBookMaxPages);
+  const fullBookPricePenceRaw = Number(row.fullBookPricePence);
 
   const width = Number.isFinite(Number(row.widthPercent))
     ? clamp(Number(row.widthPercent), 4, 40)
@@ -398,6 +409,7 @@ function sanitizeBook(raw: unknown, fallback: BookItem): BookItem {
 
   return {
     key: keyRaw || fallback.key,
+    bookId: typeof row.bookId === "string" ? row.bookId.trim() : fallback.bookId,
     xPercent: Number(x.toFixed(2)),
     yPercent: Number(y.toFixed(2)),
     widthPercent: Number(width.toFixed(2)),
@@ -421,19 +433,36 @@ function sanitizeBook(raw: unknown, fallback: BookItem): BookItem {
     infoPageMediaType: infoPageMediaTypeRaw,
     fullBookMediaUrl: fullBookMediaUrlRaw,
     fullBookMediaType: fullBookMediaTypeRaw,
+    fullBookMediaPath: fullBookMediaPathRaw,
     fullBookHideFirstPages: Number.isFinite(fullBookHideFirstPagesRaw)
       ? clamp(Math.round(fullBookHideFirstPagesRaw), 0, 5000)
       : fallback.fullBookHideFirstPages,
     fullBookMaxPages: Number.isFinite(fullBookMaxPagesRaw) ? clamp(Math.round(fullBookMaxPagesRaw), 0, 5000) : fallback.fullBookMaxPages,
+    fullBookPricePence: Number.isFinite(fullBookPricePenceRaw)
+      ? clamp(Math.round(fullBookPricePenceRaw), 0, MAX_BOOK_PRICE_PENCE)
+      : fallback.fullBookPricePence,
   };
 }
 
-function sanitizeBooks(raw: unknown, pageKey: string): BookItem[] {
+function sanitizeBooks(raw: unknown, pageKey: string, shelfRows: number): BookItem[] {
   if (!Array.isArray(raw) || raw.length === 0) return [];
 
-  return raw
-    .slice(0, MAX_BOOKS)
-    .map((item, index) => sanitizeBook(item, defaultBookByIndex(pageKey, index)));
+  return raw.map((item, index) => sanitizeBook(item, defaultBookByIndex(pageKey, index, shelfRows)));
+}
+
+function sanitizeLayout(raw: Record<string, unknown> | null | undefined, pageKey: string) {
+  const shelfRows = normalizeShelfRows(raw?.shelfRows);
+  return {
+    books: sanitizeBooks(raw?.books, pageKey, shelfRows),
+    frontTemplates: sanitizeFrontTemplates(raw?.frontTemplates),
+    shelfRows,
+  };
+}
+
+// Shelves, drafts and revisions store placements; the catalogue fills in their metadata.
+async function hydrateLayout(raw: Record<string, unknown> | null | undefined, pageKey: string, pending = false) {
+  const { books } = await hydrateShelfBooks(raw?.books, pending, pageKey);
+  return sanitizeLayout({ ...raw, books }, pageKey);
 }
 
 function getPageKey(url: URL) {
@@ -447,14 +476,14 @@ function getProfileQuery(url: URL): BookcaseShelfNavProfileKey | null | "__inval
   return raw;
 }
 
-function toProfileKey(pageKey: string, profile: BookcaseShelfNavProfileKey) {
-  return `${PROFILE_PREFIX}${pageKey}:${profile}`;
+function rowUpdatedAt(row: Record<string, unknown> | null) {
+  return typeof row?.updated_at === "string" ? row.updated_at : null;
 }
 
 async function loadLegacyLayout(pageKey: string) {
   const { data, error } = await supabaseService
     .from(TABLE_NAME)
-    .select("page_key, books, front_templates")
+    .select("page_key, books, front_templates, shelf_rows, updated_at")
     .eq("page_key", pageKey)
     .maybeSingle();
 
@@ -466,17 +495,15 @@ async function loadLegacyLayout(pageKey: string) {
     if (missingFrontTemplatesColumn) {
       const legacy = await supabaseService
         .from(TABLE_NAME)
-        .select("page_key, books")
+        .select("page_key, books, updated_at")
         .eq("page_key", pageKey)
         .maybeSingle();
 
       if (!legacy.error) {
         const legacyRow = legacy.data && typeof legacy.data === "object" ? (legacy.data as Record<string, unknown>) : null;
         return {
-          layout: {
-            books: sanitizeBooks(legacyRow?.books, pageKey),
-            frontTemplates: sanitizeFrontTemplates(null),
-          },
+          layout: await hydrateLayout({ books: legacyRow?.books }, pageKey),
+          updatedAt: rowUpdatedAt(legacyRow),
           source: legacy.data ? "supabase-legacy" : "default",
           warning: "front_templates column missing; run SQL migration to enable shared front positions",
         };
@@ -484,7 +511,8 @@ async function loadLegacyLayout(pageKey: string) {
     }
 
     return {
-      layout: { books: pageDefaults(pageKey), frontTemplates: sanitizeFrontTemplates(null) },
+      layout: { books: pageDefaults(pageKey), frontTemplates: sanitizeFrontTemplates(null), shelfRows: DEFAULT_SHELF_ROWS },
+      updatedAt: null,
       source: "default",
       warning: error.message,
     };
@@ -492,14 +520,86 @@ async function loadLegacyLayout(pageKey: string) {
 
   const row = data && typeof data === "object" ? (data as Record<string, unknown>) : null;
   return {
-    layout: {
-      books: sanitizeBooks(row?.books, pageKey),
-      frontTemplates: sanitizeFrontTemplates(row?.front_templates),
-    },
+    layout: await hydrateLayout(
+      { books: row?.books, frontTemplates: row?.front_templates, shelfRows: row?.shelf_rows },
+      pageKey
+    ),
+    updatedAt: rowUpdatedAt(row),
     source: data ? "supabase" : "default",
   };
 }
 
+async function loadProfileLayout(pageKey: string, profile: BookcaseShelfNavProfileKey) {
+  const { data, error } = await supabaseService
+    .from(PROFILE_TABLE_NAME)
+    .select("profile_key, layout, updated_at")
+    .eq("profile_key", bookcaseBooksProfileRowKey(pageKey, profile))
+    .maybeSingle();
+
+  const row = data && typeof data === "object" ? (data as Record<string, unknown>) : null;
+  const rawLayout = row?.layout && typeof row.layout === "object" ? (row.layout as Record<string, unknown>) : null;
+  return {
+    layout: row ? await hydrateLayout(rawLayout, pageKey) : null,
+    updatedAt: rowUpdatedAt(row),
+    error,
+  };
+}
+
+// Saves carry the updated_at the editor loaded. Undefined skips the check (older clients, forced
+// overwrites); null means the editor saw no saved row, so the write must be the first one.
+async function writeLayoutRow(
+  table: string,
+  keyColumn: string,
+  row: Record<string, unknown>,
+  expectedUpdatedAt: string | null | undefined
+) {
+  const result =
+    expectedUpdatedAt === undefined
+      ? await supabaseService.from(table).upsert(row, { onConflict: keyColumn }).select("updated_at").maybeSingle()
+      : expectedUpdatedAt === null
+        ? await supabaseService.from(table).insert(row).select("updated_at").maybeSingle()
+        : await supabaseService
+            .from(table)
+            .update(row)
+            .eq(keyColumn, row[keyColumn] as string)
+            .eq("updated_at", expectedUpdatedAt)
+            .select("updated_at")
+            .maybeSingle();
+
+  const conflict =
+    expectedUpdatedAt !== undefined &&
+    (result.error ? result.error.code === "23505" : !result.data);
+  const updatedAt = rowUpdatedAt(result.data && typeof result.data === "object" ? (result.data as Record<string, unknown>) : null);
+  return { conflict, updatedAt, error: conflict ? null : result.error };
+}
+
+// Profile requests read the per-profile row and fall back to the page row.
+async function loadLiveLayout(pageKey: string, profile: BookcaseShelfNavProfileKey | null) {
+  if (profile) {
+    const saved = await loadProfileLayout(pageKey, profile);
+    if (saved.layout) return { layout: saved.layout, updatedAt: saved.updatedAt };
+  }
+  const legacy = await loadLegacyLayout(pageKey);
+  return { layout: legacy.layout, updatedAt: profile ? null : legacy.updatedAt };
+}
+
+function layoutTarget(
+  pageKey: string,
+  profile: BookcaseShelfNavProfileKey | null
+): { table: LayoutRevisionTable; key: string } {
+  return profile
+    ? { table: PROFILE_TABLE_NAME, key: bookcaseBooksProfileRowKey(pageKey, profile) }
+    : { table: TABLE_NAME, key: pageKey };
+}
+
+// Books that could not be moved stay on this page only, so the next save retries them.
+function overflowFields(moved: { pages: string[]; error: string | null }, count: number) {
+  return {
+    overflowPages: moved.pages,
+    ...(moved.error ? { warning: `Could not move ${count} book(s) to the next page: ${moved.error}` } : {}),
+  };
+}
+
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const pageKey = getPageKey(url);
@@ -511,38 +611,53 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Invalid profile" }, { status: 400 });
   }
 
+  // Admins editing load the unpublished draft when there is one, and updatedAt then refers to the draft.
+  // Everyone else gets the published layout.
+  const draftRequested = url.searchParams.get("draft") === "1" && (await getCurrentUserAndRole()).isAdmin;
+
+  const target = layoutTarget(pageKey, profile);
+  await publishDueLayoutDrafts();
+
+  if (draftRequested) {
+    const { draft } = await loadLayoutDraft(target.table, target.key);
+    if (draft) {
+      return NextResponse.json({
+        profile,
+        layout: await hydrateLayout(draft.layout, pageKey, true),
+        updatedAt: draft.updatedAt,
+        draft: layoutDraftState(draft),
+        source: "draft",
+      });
+    }
+  }
+  const draftFields = draftRequested ? { updatedAt: null, draft: null } : {};
+
   if (profile) {
-    const { data, error } = await supabaseService
-      .from(PROFILE_TABLE_NAME)
-      .select("profile_key, layout")
-      .eq("profile_key", toProfileKey(pageKey, profile))
-      .maybeSingle();
-
-    if (!error && data) {
-      const row = data && typeof data === "object" ? (data as Record<string, unknown>) : null;
-      const rawLayout =
-        row?.layout && typeof row.layout === "object" ? (row.layout as Record<string, unknown>) : null;
+    const saved = await loadProfileLayout(pageKey, profile);
+    if (!saved.error && saved.layout) {
       return NextResponse.json({
         profile,
-        layout: {
-          books: sanitizeBooks(rawLayout?.books, pageKey),
-          frontTemplates: sanitizeFrontTemplates(rawLayout?.frontTemplates),
-        },
+        layout: saved.layout,
+        updatedAt: saved.updatedAt,
         source: "supabase-profile",
+        ...draftFields,
       });
     }
 
+    // Saves go to the profile row, which does not exist yet.
     const legacy = await loadLegacyLayout(pageKey);
     return NextResponse.json({
       profile,
       ...legacy,
+      updatedAt: null,
       source: `${legacy.source}-fallback`,
-      warning: error ? `Profile load failed (${error.message}). Using fallback.` : legacy.warning,
+      warning: saved.error ? `Profile load failed (${saved.error.message}). Using fallback.` : legacy.warning,
+      ...draftFields,
     });
   }
 
   const legacy = await loadLegacyLayout(pageKey);
-  return NextResponse.json(legacy);
+  return NextResponse.json({ ...legacy, ...draftFields });
 }
 
 export async function POST(req: Request) {
@@ -583,10 +698,17 @@ export async function POST(req: Request) {
   if (profileRaw && !profile) {
     return NextResponse.json({ error: "Invalid profile" }, { status: 400 });
   }
-
-  const books = sanitizeBooks(payload.books, pageKey);
-  const frontTemplates = sanitizeFrontTemplates(payload.frontTemplates);
-  const invalid = books.find((item) => !item.targetPath.startsWith("/"));
+  const expectedUpdatedAt =
+    payload.force === true
+      ? undefined
+      : payload.expectedUpdatedAt === null
+        ? null
+        : typeof payload.expectedUpdatedAt === "string"
+          ? payload.expectedUpdatedAt
+          : undefined;
+
+  const submitted = sanitizeLayout(payload, pageKey);
+  const invalid = submitted.books.find((item) => !item.targetPath.startsWith("/"));
   if (invalid) {
     return NextResponse.json(
       { error: "Each book needs a target path starting with '/'" },
@@ -594,50 +716,160 @@ export async function POST(req: Request) {
     );
   }
 
-  if (profile) {
-    const { error } = await supabaseService.from(PROFILE_TABLE_NAME).upsert(
-      {
-        profile_key: toProfileKey(pageKey, profile),
-        layout: { books, frontTemplates },
-        updated_by: user.id,
-      },
-      { onConflict: "profile_key" }
+  // Live shelves store placements, and metadata goes to the books catalogue once the shelf write succeeds.
+  // Drafts keep the metadata they change and only write it to the catalogue when published. The page is
+  // saved with every book first; the books past its rows are then written to its continuation pages, and
+  // only once they are there is the page saved again without them. If that second save loses to someone
+  // else's, the continuation pages are rolled back and the request answers 409 like any stale save.
+  const { frontTemplates, shelfRows } = submitted;
+  const { prepared, error: prepareError } = await prepareShelfBooks(pageKey, submitted.books, user.id, true);
+  if (!prepared) {
+    return NextResponse.json({ error: `Save failed: ${prepareError}` }, { status: 500 });
+  }
+  const { kept: placements, overflow } = splitShelfOverflow(prepared.placements, shelfRows);
+  const linkedBooks = submitted.books.map((book, index) => ({ ...book, bookId: String(prepared.placements[index].bookId) }));
+  const layoutWith = (books: unknown[]) => ({ books, frontTemplates, shelfRows });
+  const target = layoutTarget(pageKey, profile);
+  const moveOverflow = (books: Record<string, unknown>[], asDraft: boolean, trimSource: () => Promise<SourceTrim>) =>
+    flowShelfOverflow(
+      pageKey,
+      profile,
+      books.slice(placements.length),
+      { frontTemplates, shelfRows },
+      user,
+      asDraft,
+      trimSource
     );
-    if (error) {
-      return NextResponse.json({ error: `Save failed: ${error.message}` }, { status: 500 });
+
+  if (payload.draft === true) {
+    const draftConflict = async () => {
+      const current = await loadLayoutDraft(target.table, target.key);
+      const live = current.draft ? null : await loadLiveLayout(pageKey, profile);
+      return NextResponse.json(
+        {
+          error: "This draft was saved by someone else after you loaded it.",
+          conflict: true,
+          profile,
+          layout: current.draft ? await hydrateLayout(current.draft.layout, pageKey, true) : live?.layout,
+          updatedAt: current.draft?.updatedAt ?? null,
+          draft: layoutDraftState(current.draft),
+        },
+        { status: 409 }
+      );
+    };
+
+    const drafted = await draftShelfBooks(linkedBooks);
+    if (!drafted.books) {
+      return NextResponse.json({ error: `Save failed: ${drafted.error}` }, { status: 500 });
+    }
+    const draftBooks = drafted.books;
+    const first = await saveLayoutDraft(target.table, target.key, layoutWith(draftBooks), user, expectedUpdatedAt);
+    if (first.conflict) return draftConflict();
+    if (first.error || !first.draft) {
+      return NextResponse.json({ error: `Save failed: ${first.error}` }, { status: 500 });
     }
-    return NextResponse.json({ saved: true, profile, layout: { books, frontTemplates } });
+    const savedDraft = first.draft;
+    if (overflow.length === 0) {
+      return NextResponse.json({
+        saved: true,
+        profile,
+        layout: layoutWith(linkedBooks),
+        updatedAt: savedDraft.updatedAt,
+        draft: layoutDraftState(savedDraft),
+      });
+    }
+
+    const moved = await moveOverflow(draftBooks, true, async () => {
+      const trimmed = await saveLayoutDraft(
+        target.table,
+        target.key,
+        layoutWith(draftBooks.slice(0, placements.length)),
+        user,
+        savedDraft.updatedAt
+      );
+      return { conflict: trimmed.conflict, updatedAt: trimmed.draft?.updatedAt ?? null, error: trimmed.error };
+    });
+    if (moved.conflict) return draftConflict();
+    const updatedAt = moved.updatedAt ?? savedDraft.updatedAt;
+    return NextResponse.json({
+      saved: true,
+      profile,
+      layout: layoutWith(moved.error ? linkedBooks : linkedBooks.slice(0, placements.length)),
+      updatedAt,
+      draft: layoutDraftState({ ...savedDraft, updatedAt }),
+      ...overflowFields(moved, overflow.length),
+    });
   }
 
-  let { error } = await supabaseService.from(TABLE_NAME).upsert(
-    {
-      page_key: pageKey,
-      books,
-      front_templates: frontTemplates,
-      updated_by: user.id,
-    },
-    { onConflict: "page_key" }
-  );
+  const shelfConflict = async () => {
+    const current = await loadLiveLayout(pageKey, profile);
+    return NextResponse.json(
+      {
+        error: "This shelf was saved by someone else after you loaded it.",
+        conflict: true,
+        profile,
+        layout: current.layout,
+        updatedAt: current.updatedAt,
+      },
+      { status: 409 }
+    );
+  };
 
-  if (
-    error &&
-    ((typeof error.code === "string" && error.code === "42703") ||
-      error.message.toLowerCase().includes("front_templates"))
-  ) {
-    const legacyWrite = await supabaseService.from(TABLE_NAME).upsert(
+  const writeShelf = async (books: Record<string, unknown>[], expected: string | null | undefined) => {
+    if (profile) {
+      return writeLayoutRow(
+        PROFILE_TABLE_NAME,
+        "profile_key",
+        { profile_key: target.key, layout: layoutWith(books), updated_by: user.id },
+        expected
+      );
+    }
+
+    const write = await writeLayoutRow(
+      TABLE_NAME,
+      "page_key",
       {
         page_key: pageKey,
         books,
+        front_templates: frontTemplates,
+        shelf_rows: shelfRows,
         updated_by: user.id,
       },
-      { onConflict: "page_key" }
+      expected
     );
-    error = legacyWrite.error;
-  }
+    if (
+      write.error &&
+      ((typeof write.error.code === "string" && write.error.code === "42703") ||
+        write.error.message.toLowerCase().includes("front_templates"))
+    ) {
+      return writeLayoutRow(TABLE_NAME, "page_key", { page_key: pageKey, books, updated_by: user.id }, expected);
+    }
+    return write;
+  };
 
-  if (error) {
-    return NextResponse.json({ error: `Save failed: ${error.message}` }, { status: 500 });
+  const first = await writeShelf(prepared.placements, expectedUpdatedAt);
+  if (first.conflict) return shelfConflict();
+  const catalogError = first.error ? null : await saveCatalogBooks(prepared);
+  if (first.error || catalogError) {
+    return NextResponse.json({ error: `Save failed: ${first.error?.message ?? catalogError}` }, { status: 500 });
+  }
+  if (overflow.length === 0) {
+    await recordLayoutRevision(target.table, target.key, layoutWith(prepared.placements), user);
+    return NextResponse.json({ saved: true, profile, layout: layoutWith(linkedBooks), updatedAt: first.updatedAt });
   }
 
-  return NextResponse.json({ saved: true, layout: { books, frontTemplates } });
+  const moved = await moveOverflow(prepared.placements, false, async () => {
+    const trimmed = await writeShelf(placements, first.updatedAt);
+    return { conflict: trimmed.conflict, updatedAt: trimmed.updatedAt, error: trimmed.error?.message ?? null };
+  });
+  const dropped = !moved.conflict && !moved.error;
+  await recordLayoutRevision(target.table, target.key, layoutWith(dropped ? placements : prepared.placements), user);
+  if (moved.conflict) return shelfConflict();
+  return NextResponse.json({
+    saved: true,
+    profile,
+    layout: layoutWith(dropped ? linkedBooks.slice(0, placements.length) : linkedBooks),
+    updatedAt: moved.updatedAt ?? first.updatedAt,
+    ...overflowFields(moved, overflow.length),
+  });
 }
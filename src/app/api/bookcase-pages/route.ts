@@ -10,34 +10,28 @@ import {
   isValidBookcaseKey,
   normalizeBookcaseKey,
 } from "@/lib/bookcase/pageKey";
+import { normalizeShelfRows, shelfCapacity } from "@/lib/bookcase/shelfLayout";
+import { shelfPlacement } from "@/lib/bookcase/bookCatalog";
+import { publishDueLayoutDrafts } from "@/lib/bookcase/layoutDraftStore";
 
 const TABLE_NAME = "bookcase_book_layouts";
-const MAX_BOOKS = 8;
 
 type RawBook = Record<string, unknown>;
 
+// New pages copy the template's placements only; each slot gets its own catalogue book on first save.
 function emptyBookFromTemplate(book: unknown, index: number): RawBook {
   const row = book && typeof book === "object" ? (book as RawBook) : {};
+  const placement = shelfPlacement(row);
+  delete placement.bookId;
   return {
-    ...row,
+    ...placement,
     key: typeof row.key === "string" && row.key.trim() ? row.key : `book-${index + 1}`,
-    label: "",
     targetPath: "/bookcase",
-    coverImageUrl: "",
-    readerSampleText: "",
-    infoPageText: "",
-    readerSampleMediaUrl: "",
-    readerSampleMediaType: "",
-    infoPageMediaUrl: "",
-    infoPageMediaType: "",
-    fullBookMediaUrl: "",
-    fullBookMediaType: "",
-    fullBookHideFirstPages: 0,
-    fullBookMaxPages: 0,
   };
 }
 
 export async function GET() {
+  await publishDueLayoutDrafts();
   const { data, error } = await supabaseService.from(TABLE_NAME).select("page_key").order("page_key");
 
   if (error) {
@@ -124,14 +118,17 @@ export async function POST(req: Request) {
 
   let books: RawBook[] = [];
   let frontTemplates: Record<string, unknown> = {};
+  let shelfRows = normalizeShelfRows(payload.templateShelfRows);
 
   if (templateBooksRaw.length > 0) {
-    books = templateBooksRaw.slice(0, MAX_BOOKS).map((book, index) => emptyBookFromTemplate(book, index));
+    books = templateBooksRaw
+      .slice(0, shelfCapacity(shelfRows))
+      .map((book, index) => emptyBookFromTemplate(book, index));
     frontTemplates = templateFrontTemplatesRaw ?? {};
   } else {
     const source = await supabaseService
       .from(TABLE_NAME)
-      .select("books, front_templates")
+      .select("books, front_templates, shelf_rows")
       .eq("page_key", sourcePageKey)
       .maybeSingle();
 
@@ -144,7 +141,10 @@ export async function POST(req: Request) {
         ? (source.data as Record<string, unknown>)
         : ({} as Record<string, unknown>);
     const sourceBooks = Array.isArray(sourceRow.books) ? sourceRow.books : [];
-    books = sourceBooks.slice(0, MAX_BOOKS).map((book, index) => emptyBookFromTemplate(book, index));
+    shelfRows = normalizeShelfRows(sourceRow.shelf_rows);
+    books = sourceBooks
+      .slice(0, shelfCapacity(shelfRows))
+      .map((book, index) => emptyBookFromTemplate(book, index));
     frontTemplates =
       sourceRow.front_templates && typeof sourceRow.front_templates === "object"
         ? (sourceRow.front_templates as Record<string, unknown>)
@@ -155,6 +155,7 @@ export async function POST(req: Request) {
     page_key: pageKey,
     books,
     front_templates: frontTemplates,
+    shelf_rows: shelfRows,
     updated_by: user.id,
   });
 
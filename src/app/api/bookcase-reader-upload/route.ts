@@ -2,8 +2,9 @@ import { NextResponse } from "next/server";
 import { supabaseService } from "@/lib/supabase/service";
 import { supabaseServer } from "@/lib/supabase/server";
 import { getUserRole } from "@/lib/supabase/roles";
+import { FULL_BOOK_BUCKET_NAME } from "@/lib/bookcase/fullBookAccess";
+import { READER_MEDIA_BUCKET_NAME } from "@/lib/bookcase/readerMedia";
 
-const BUCKET_NAME = "book-reader-media";
 const MAX_UPLOAD_BYTES = 40 * 1024 * 1024;
 
 function sanitizeSegment(value: string) {
@@ -30,9 +31,9 @@ function isAllowedMediaType(mimeType: string) {
   );
 }
 
-async function ensureBucket() {
-  const { error } = await supabaseService.storage.createBucket(BUCKET_NAME, {
-    public: true,
+async function ensureBucket(bucketName: string, isPublic: boolean) {
+  const { error } = await supabaseService.storage.createBucket(bucketName, {
+    public: isPublic,
     fileSizeLimit: `${MAX_UPLOAD_BYTES}`,
   });
 
@@ -97,15 +98,19 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Invalid pageKey or bookKey" }, { status: 400 });
   }
 
+  // Full books are paid content: keep them in a private bucket and return only the storage path.
+  const isFullBook = slotRaw === "full";
+  const bucketName = isFullBook ? FULL_BOOK_BUCKET_NAME : READER_MEDIA_BUCKET_NAME;
+
   try {
-    await ensureBucket();
+    await ensureBucket(bucketName, !isFullBook);
 
     const extension = extensionFor(fileEntry);
     const storagePath = `${pageKey}/${bookKey}/${slotRaw}-${Date.now()}.${extension}`;
     const bytes = new Uint8Array(await fileEntry.arrayBuffer());
 
     const { error: uploadError } = await supabaseService.storage
-      .from(BUCKET_NAME)
+      .from(bucketName)
       .upload(storagePath, bytes, {
         contentType: fileEntry.type || "application/octet-stream",
         upsert: true,
@@ -115,7 +120,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: `Upload failed: ${uploadError.message}` }, { status: 500 });
     }
 
-    const { data } = supabaseService.storage.from(BUCKET_NAME).getPublicUrl(storagePath);
+    if (isFullBook) {
+      return NextResponse.json({
+        url: "",
+        path: storagePath,
+        contentType: fileEntry.type || "",
+        slot: slotRaw,
+      });
+    }
+
+    const { data } = supabaseService.storage.from(READER_MEDIA_BUCKET_NAME).getPublicUrl(storagePath);
     return NextResponse.json({
       url: data.publicUrl,
       path: storagePath,
@@ -1,8 +1,12 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { supabaseService } from "@/lib/supabase/service";
-import { getUserRole } from "@/lib/supabase/roles";
+import { getCurrentUserAndRole, getUserRole } from "@/lib/supabase/roles";
+import { recordLayoutRevision } from "@/lib/bookcase/layoutRevisionStore";
+import { loadLayoutDraft, publishDueLayoutDrafts, saveLayoutDraft } from "@/lib/bookcase/layoutDraftStore";
+import { layoutDraftState } from "@/lib/bookcase/layoutDrafts";
 import {
+  bookcaseShelfNavProfileRowKey,
   defaultBookcaseShelfNavLayout,
   isBookcaseShelfNavProfileKey,
   mergeBookcaseShelfNavLayout,
@@ -10,17 +14,12 @@ import {
 } from "@/lib/bookcase/shelfNavDeviceLayout";
 
 const TABLE_NAME = "device_layout_profiles";
-const PROFILE_PREFIX = "bookcase-shelf-nav:";
-
-function profileKey(profile: BookcaseShelfNavProfileKey) {
-  return `${PROFILE_PREFIX}${profile}`;
-}
 
 async function loadRow(profile: BookcaseShelfNavProfileKey) {
   return supabaseService
     .from(TABLE_NAME)
     .select("profile_key, layout")
-    .eq("profile_key", profileKey(profile))
+    .eq("profile_key", bookcaseShelfNavProfileRowKey(profile))
     .maybeSingle();
 }
 
@@ -31,6 +30,22 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Invalid profile" }, { status: 400 });
   }
 
+  // Editors load the unpublished draft when there is one. Everyone else gets the published layout.
+  const draftRequested = url.searchParams.get("draft") === "1" && (await getCurrentUserAndRole()).isAdmin;
+
+  await publishDueLayoutDrafts();
+  if (draftRequested) {
+    const { draft } = await loadLayoutDraft(TABLE_NAME, bookcaseShelfNavProfileRowKey(profileRaw));
+    if (draft) {
+      return NextResponse.json({
+        profile: profileRaw,
+        vars: mergeBookcaseShelfNavLayout(profileRaw, draft.layout),
+        source: "draft",
+        draft: layoutDraftState(draft),
+      });
+    }
+  }
+
   const defaults = defaultBookcaseShelfNavLayout(profileRaw);
   const { data, error } = await loadRow(profileRaw);
   if (error) {
@@ -86,9 +101,17 @@ export async function POST(req: Request) {
   const vars = mergeBookcaseShelfNavLayout(profileRaw, payload.vars);
   const layout = { vars };
 
+  if (payload.draft === true) {
+    const { draft, error } = await saveLayoutDraft(TABLE_NAME, bookcaseShelfNavProfileRowKey(profileRaw), layout, user);
+    if (error || !draft) {
+      return NextResponse.json({ error: `Save failed: ${error}` }, { status: 500 });
+    }
+    return NextResponse.json({ saved: true, profile: profileRaw, vars, draft: layoutDraftState(draft) });
+  }
+
   const { error } = await supabaseService.from(TABLE_NAME).upsert(
     {
-      profile_key: profileKey(profileRaw),
+      profile_key: bookcaseShelfNavProfileRowKey(profileRaw),
       layout,
       updated_by: user.id,
     },
@@ -99,5 +122,6 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: `Save failed: ${error.message}` }, { status: 500 });
   }
 
+  await recordLayoutRevision(TABLE_NAME, bookcaseShelfNavProfileRowKey(profileRaw), layout, user);
   return NextResponse.json({ saved: true, profile: profileRaw, vars });
 }
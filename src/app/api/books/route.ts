@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { listCatalogBooks } from "@/lib/bookcase/bookCatalogStore";
+
+export const dynamic = "force-dynamic";
+
+// The books catalogue, for placing an existing book on another shelf.
+export async function GET() {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const { books, error } = await listCatalogBooks();
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+  return NextResponse.json({ books });
+}
@@ -2,24 +2,18 @@ import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { supabaseServer } from "@/lib/supabase/server";
 import { supabaseService } from "@/lib/supabase/service";
+import { hasFullBookMedia, fullBookPricePence, loadShelfBook, safeString } from "@/lib/bookcase/shelfBooks";
+import { quoteBookPrice, quoteChapterPrice } from "@/lib/commerce/pricingStore";
+import { getStripeClient } from "@/lib/commerce/stripe";
+import { grantBundle, loadPublishedBundle } from "@/lib/commerce/bundles";
+import { EMAIL_PATTERN } from "@/lib/commerce/invites";
+import { isMembershipActive, loadMembership, membershipPriceId, normalizePlan } from "@/lib/commerce/memberships";
 
-let stripeClient: Stripe | null = null;
+// Stripe caps metadata values at 500 characters.
+const MAX_GIFT_MESSAGE_LENGTH = 400;
 
-function getStripeClient() {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) {
-    throw new Error("Missing STRIPE_SECRET_KEY");
-  }
-  if (!stripeClient) {
-    stripeClient = new Stripe(key, { apiVersion: "2026-01-28.clover" });
-  }
-  return stripeClient;
-}
-
-function priceForEpisode(episodeNumber: number) {
-  // Simple pricing rule: change however you like
-  // e.g. £0.79 each
-  return 79; // pence
+function giftNotFree() {
+  return NextResponse.json({ error: "Free items cannot be bought as gifts." }, { status: 400 });
 }
 
 export async function POST(req: Request) {
@@ -38,12 +32,174 @@ export async function POST(req: Request) {
 
   const form = await req.formData();
   const chapterId = String(form.get("chapter_id") || "");
+  const pageKey = String(form.get("page_key") || "").trim().toLowerCase();
+  const bookKey = String(form.get("book_key") || "").trim();
+  const bundleId = String(form.get("bundle_id") || "").trim();
+  const plan = normalizePlan(form.get("plan"));
+  const isGift = form.get("gift") === "1";
+  const recipientEmail = String(form.get("recipient_email") || "").trim().toLowerCase();
+  const giftMessage = String(form.get("gift_message") || "").trim().slice(0, MAX_GIFT_MESSAGE_LENGTH);
+
+  if (isGift && !EMAIL_PATTERN.test(recipientEmail)) {
+    return NextResponse.json({ error: "A valid recipient email is required for gifts." }, { status: 400 });
+  }
+
+  // Gifts are paid by the buyer but granted to whoever claims the emailed invite.
+  const giftPurchase = isGift ? { is_gift: true, recipient_email: recipientEmail } : {};
+  const giftMetadata: Record<string, string> = isGift
+    ? { gift: "1", recipient_email: recipientEmail, gift_message: giftMessage }
+    : {};
+  const giftSentUrl = `${siteUrl}/gifts/sent`;
 
   const supa = await supabaseServer();
   const { data: userData } = await supa.auth.getUser();
   const user = userData.user;
   if (!user) return NextResponse.redirect(new URL("/login", req.url));
 
+  if (plan) {
+    const priceId = membershipPriceId(plan);
+    if (!priceId) return NextResponse.json({ error: `No Stripe price configured for the ${plan} plan` }, { status: 500 });
+
+    const membership = await loadMembership(user.id);
+    if (isMembershipActive(membership)) return NextResponse.redirect(new URL("/account", req.url), 303);
+
+    const membershipSession = await stripe.checkout.sessions.create({
+      mode: "subscription",
+      customer: membership?.stripeCustomerId || undefined,
+      customer_email: membership?.stripeCustomerId ? undefined : user.email || undefined,
+      line_items: [{ price: priceId, quantity: 1 }],
+      success_url: `${siteUrl}/account?membership=started`,
+      cancel_url: `${siteUrl}/account`,
+      metadata: { user_id: user.id, plan },
+      subscription_data: { metadata: { user_id: user.id, plan } },
+    });
+
+    return NextResponse.redirect(membershipSession.url!, 303);
+  }
+
+  if (bundleId) {
+    const { bundle, error: bundleError } = await loadPublishedBundle(bundleId);
+    if (bundleError) return NextResponse.json({ error: bundleError }, { status: 500 });
+    if (!bundle || bundle.items.length === 0) return NextResponse.json({ error: "Bundle not found" }, { status: 404 });
+
+    const bundlePath = `/bundles?bundle=${encodeURIComponent(bundle.slug)}`;
+    if (bundle.amountPence <= 0) {
+      if (isGift) return giftNotFree();
+      try {
+        await grantBundle(user.id, bundle.id, "free");
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Bundle grant failed";
+        return NextResponse.json({ error: message }, { status: 500 });
+      }
+      return NextResponse.redirect(new URL(`${bundlePath}&unlocked=1`, req.url), 303);
+    }
+
+    const { data: bundlePurchase } = await supabaseService.from("purchases").insert({
+      user_id: user.id,
+      bundle_id: bundle.id,
+      amount_pence: bundle.amountPence,
+      currency: bundle.currency,
+      status: "pending",
+      ...giftPurchase,
+    }).select("id").single();
+
+    const bundleSession = await stripe.checkout.sessions.create({
+      mode: "payment",
+      customer_email: user.email || undefined,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: bundle.currency,
+            unit_amount: bundle.amountPence,
+            product_data: {
+              name: isGift ? `Gift: ${bundle.title}` : bundle.title,
+              description: bundle.description || undefined,
+            },
+          },
+        },
+      ],
+      success_url: isGift ? giftSentUrl : `${siteUrl}${bundlePath}&unlocked=1`,
+      cancel_url: `${siteUrl}${bundlePath}`,
+      metadata: {
+        user_id: user.id,
+        bundle_id: bundle.id,
+        purchase_id: bundlePurchase?.id ?? "",
+        ...giftMetadata,
+      },
+    });
+
+    return NextResponse.redirect(bundleSession.url!, 303);
+  }
+
+  if (pageKey || bookKey) {
+    if (!pageKey || !bookKey) {
+      return NextResponse.json({ error: "page_key and book_key are required" }, { status: 400 });
+    }
+
+    // The slot is only where the reader is; what they buy is the catalogue book on it.
+    const { book, error: bookError } = await loadShelfBook(pageKey, bookKey);
+    if (bookError) return NextResponse.json({ error: bookError }, { status: 500 });
+    const bookId = safeString(book?.bookId);
+    if (!book || !bookId || !hasFullBookMedia(book)) return NextResponse.json({ error: "Book not found" }, { status: 404 });
+
+    const bookQuote = await quoteBookPrice(bookId, fullBookPricePence(book));
+    if (!bookQuote) return NextResponse.json({ error: "Not available" }, { status: 400 });
+
+    const readerPath = `/reader/book/${encodeURIComponent(pageKey)}/${encodeURIComponent(bookKey)}`;
+    if (bookQuote.isFree) {
+      if (isGift) return giftNotFree();
+      const { error: grantError } = await supabaseService.from("book_entitlements").upsert(
+        {
+          user_id: user.id,
+          book_id: bookId,
+          expires_at: null,
+          source: "free",
+        },
+        { onConflict: "user_id,book_id" }
+      );
+      if (grantError) return NextResponse.json({ error: grantError.message }, { status: 500 });
+      return NextResponse.redirect(new URL(`${readerPath}?slot=full`, req.url), 303);
+    }
+
+    const { data: bookPurchase } = await supabaseService.from("purchases").insert({
+      user_id: user.id,
+      book_id: bookId,
+      amount_pence: bookQuote.amountPence,
+      currency: bookQuote.currency,
+      status: "pending",
+      ...giftPurchase,
+    }).select("id").single();
+
+    const bookSession = await stripe.checkout.sessions.create({
+      mode: "payment",
+      customer_email: user.email || undefined,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: bookQuote.currency,
+            unit_amount: bookQuote.amountPence,
+            product_data: {
+              name: `${isGift ? "Gift: " : ""}${safeString(book.label) || bookKey}`,
+              description: "Full book",
+            },
+          },
+        },
+      ],
+      success_url: isGift ? giftSentUrl : `${siteUrl}${readerPath}?slot=full`,
+      cancel_url: `${siteUrl}${readerPath}?slot=sample`,
+      metadata: {
+        user_id: user.id,
+        book_id: bookId,
+        purchase_id: bookPurchase?.id ?? "",
+        ...giftMetadata,
+      },
+    });
+
+    return NextResponse.redirect(bookSession.url!, 303);
+  }
+
   // Get chapter details using service role (so we can read even if locked)
   const { data: chapter, error } = await supabaseService
     .from("chapters")
@@ -54,15 +210,32 @@ export async function POST(req: Request) {
   if (error || !chapter) return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
   if (chapter.status !== "published") return NextResponse.json({ error: "Not available" }, { status: 400 });
 
-  const amount = priceForEpisode(chapter.episode_number);
+  const quote = await quoteChapterPrice(chapter.id);
+
+  // Free episodes skip Stripe and unlock straight away.
+  if (quote.isFree) {
+    if (isGift) return giftNotFree();
+    const { error: grantError } = await supabaseService.from("entitlements").upsert(
+      {
+        user_id: user.id,
+        chapter_id: chapter.id,
+        expires_at: null,
+        source: "free",
+      },
+      { onConflict: "user_id,chapter_id" }
+    );
+    if (grantError) return NextResponse.json({ error: grantError.message }, { status: 500 });
+    return NextResponse.redirect(new URL(`/reader/${chapter.id}`, req.url), 303);
+  }
 
   // Create a pending purchase record (optional but helpful)
   const { data: purchase } = await supabaseService.from("purchases").insert({
     user_id: user.id,
     chapter_id: chapter.id,
-    amount_pence: amount,
-    currency: "gbp",
+    amount_pence: quote.amountPence,
+    currency: quote.currency,
     status: "pending",
+    ...giftPurchase,
   }).select("id").single();
 
   const session = await stripe.checkout.sessions.create({
@@ -72,21 +245,22 @@ export async function POST(req: Request) {
       {
         quantity: 1,
         price_data: {
-          currency: "gbp",
-          unit_amount: amount,
+          currency: quote.currency,
+          unit_amount: quote.amountPence,
           product_data: {
-            name: `Unlock Episode ${chapter.episode_number}`,
+            name: `${isGift ? "Gift: " : ""}Unlock Episode ${chapter.episode_number}`,
             description: chapter.title,
           },
         },
       },
     ],
-    success_url: `${siteUrl}/episodes`,
+    success_url: isGift ? giftSentUrl : `${siteUrl}/episodes`,
     cancel_url: `${siteUrl}/episodes`,
     metadata: {
       user_id: user.id,
       chapter_id: chapter.id,
       purchase_id: purchase?.id ?? "",
+      ...giftMetadata,
     },
   });
 
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { listSharedNotesForModeration, setClubNoteHidden } from "@/lib/reader/clubNotes";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const { notes, error } = await listSharedNotesForModeration();
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ notes });
+}
+
+export async function POST(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const id = typeof payload.id === "string" ? payload.id.trim() : "";
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const found = await setClubNoteHidden(id, payload.hidden !== false, user.id);
+    if (!found) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Save failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  return NextResponse.json({ id, hidden: payload.hidden !== false });
+}
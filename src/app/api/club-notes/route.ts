@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { getUserRole } from "@/lib/supabase/roles";
+import { normalizeHighlightColor, sanitizeHighlightAnchor, type ClubNote } from "@/lib/reader/highlights";
+import { loadAuthorNames } from "@/lib/reader/clubNotes";
+
+export const dynamic = "force-dynamic";
+
+const MAX_CLUB_NOTES = 500;
+
+// RLS (reader_highlights_club_read) limits rows to shared, unhidden notes on items this reader can open.
+export async function GET(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const itemKey = (new URL(req.url).searchParams.get("item") || "").trim();
+  if (!itemKey) {
+    return NextResponse.json({ error: "item is required" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("reader_highlights")
+    .select("id, user_id, anchor, quote, color, note, created_at")
+    .eq("item_key", itemKey)
+    .eq("shared", true)
+    .is("hidden_at", null)
+    .neq("user_id", userData.user.id)
+    .order("created_at", { ascending: true })
+    .limit(MAX_CLUB_NOTES);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const rows = data ?? [];
+  const names = await loadAuthorNames(rows.map((row) => String(row.user_id)));
+  const notes: ClubNote[] = rows.flatMap((row) => {
+    const anchor = sanitizeHighlightAnchor(row.anchor);
+    if (!anchor) return [];
+    return [
+      {
+        id: String(row.id),
+        anchor,
+        quote: typeof row.quote === "string" ? row.quote : "",
+        color: normalizeHighlightColor(row.color),
+        note: typeof row.note === "string" ? row.note : "",
+        createdAt: typeof row.created_at === "string" ? row.created_at : "",
+        authorName: names.get(String(row.user_id)) || "Club member",
+      },
+    ];
+  });
+
+  return NextResponse.json({
+    notes,
+    canModerate: (await getUserRole(userData.user.id)) === "admin",
+  });
+}
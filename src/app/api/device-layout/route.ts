@@ -1,7 +1,10 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { supabaseService } from "@/lib/supabase/service";
-import { getUserRole } from "@/lib/supabase/roles";
+import { getCurrentUserAndRole, getUserRole } from "@/lib/supabase/roles";
+import { recordLayoutRevision } from "@/lib/bookcase/layoutRevisionStore";
+import { loadLayoutDraft, publishDueLayoutDrafts, saveLayoutDraft } from "@/lib/bookcase/layoutDraftStore";
+import { layoutDraftState } from "@/lib/bookcase/layoutDrafts";
 import {
   defaultDeviceLayout,
   isDeviceProfileKey,
@@ -28,6 +31,22 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Invalid profile" }, { status: 400 });
   }
 
+  // Editors load the unpublished draft when there is one. Everyone else gets the published layout.
+  const draftRequested = url.searchParams.get("draft") === "1" && (await getCurrentUserAndRole()).isAdmin;
+
+  await publishDueLayoutDrafts();
+  if (draftRequested) {
+    const { draft } = await loadLayoutDraft(TABLE_NAME, profileRaw);
+    if (draft) {
+      return NextResponse.json({
+        profile: profileRaw,
+        vars: mergeDeviceLayout(profileRaw, draft.layout),
+        source: "draft",
+        draft: layoutDraftState(draft),
+      });
+    }
+  }
+
   const defaults = defaultDeviceLayout(profileRaw);
   const { data, error } = await loadRow(profileRaw);
   if (error) {
@@ -83,6 +102,14 @@ export async function POST(req: Request) {
   const vars = mergeDeviceLayout(profileRaw, payload.vars);
   const layout = { vars };
 
+  if (payload.draft === true) {
+    const { draft, error } = await saveLayoutDraft(TABLE_NAME, profileRaw, layout, user);
+    if (error || !draft) {
+      return NextResponse.json({ error: `Save failed: ${error}` }, { status: 500 });
+    }
+    return NextResponse.json({ saved: true, profile: profileRaw, vars, draft: layoutDraftState(draft) });
+  }
+
   const { error } = await supabaseService.from(TABLE_NAME).upsert(
     {
       profile_key: profileRaw,
@@ -96,5 +123,6 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: `Save failed: ${error.message}` }, { status: 500 });
   }
 
+  await recordLayoutRevision(TABLE_NAME, profileRaw, layout, user);
   return NextResponse.json({ saved: true, profile: profileRaw, vars });
 }
@@ -28,5 +28,5 @@ export async function POST(req: Request) {
 
   if (error) return NextResponse.json({ error: error.message }, { status: 400 });
 
-  return NextResponse.redirect(new URL(`/episodes/${chapter_id}`, req.url));
+  return NextResponse.redirect(new URL(`/episodes/${chapter_id}?feedback=sent`, req.url), 303);
 }
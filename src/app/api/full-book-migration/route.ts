@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { migratePublicFullBooks } from "@/lib/bookcase/fullBookAccess";
+
+export const dynamic = "force-dynamic";
+
+// One-off: moves full books uploaded before the private bucket existed out of public storage.
+// Safe to re-run; books already moved are skipped by the query.
+export async function POST() {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const { moved, skipped, error } = await migratePublicFullBooks();
+  if (error) {
+    return NextResponse.json({ error, moved, skipped }, { status: 500 });
+  }
+  return NextResponse.json({ moved, skipped });
+}
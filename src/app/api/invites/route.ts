@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabase/service";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { listBookOptions } from "@/lib/bookcase/shelfBooks";
+import { sanitizeGrant } from "@/lib/commerce/grants";
+import {
+  INVITES_TABLE_NAME,
+  MAX_BULK_INVITES,
+  createInvites,
+  inviteFromRow,
+  listInvites,
+  parseEmailList,
+  sendInviteEmail,
+} from "@/lib/commerce/invites";
+
+export const dynamic = "force-dynamic";
+
+const MAX_INVITE_LINK_DAYS = 365;
+
+function clampLinkDays(value: unknown) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 14;
+  return Math.min(MAX_INVITE_LINK_DAYS, Math.max(1, Math.round(n)));
+}
+
+export async function GET() {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const { invites, error } = await listInvites();
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  const { data: chapters } = await supabaseService
+    .from("chapters")
+    .select("id, episode_number, title")
+    .order("episode_number", { ascending: true });
+  const { data: bundles } = await supabaseService.from("bundles").select("id, title").order("title");
+
+  return NextResponse.json({
+    invites,
+    chapters: (chapters ?? []).map((chapter) => ({
+      id: String(chapter.id),
+      label: `Episode ${chapter.episode_number}: ${chapter.title}`,
+    })),
+    books: await listBookOptions(),
+    bundles: (bundles ?? []).map((bundle) => ({ id: String(bundle.id), label: String(bundle.title) })),
+  });
+}
+
+// Body is either { action: "create", emails, linkDays, grant, send } or { action: "resend", id }.
+export async function POST(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+
+  if (payload.action === "resend") {
+    const id = typeof payload.id === "string" ? payload.id.trim() : "";
+    const { data } = await supabaseService.from(INVITES_TABLE_NAME).select("*").eq("id", id).maybeSingle();
+    const invite = inviteFromRow(data);
+    if (!invite) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+    if (invite.usedAt || new Date(invite.expiresAt) <= new Date()) {
+      return NextResponse.json({ error: "Only unused, unexpired invites can be resent." }, { status: 400 });
+    }
+
+    const sendError = await sendInviteEmail(invite);
+    if (sendError) {
+      return NextResponse.json({ error: `Send failed: ${sendError}` }, { status: 502 });
+    }
+    return NextResponse.json({ sent: true, id: invite.id });
+  }
+
+  const { emails, invalid } = parseEmailList(typeof payload.emails === "string" ? payload.emails : "");
+  if (emails.length === 0) {
+    return NextResponse.json({ error: "Add at least one valid email address." }, { status: 400 });
+  }
+  if (emails.length > MAX_BULK_INVITES) {
+    return NextResponse.json({ error: `At most ${MAX_BULK_INVITES} invites per batch.` }, { status: 400 });
+  }
+
+  // No grant keeps the original Episode 1 trial behaviour.
+  const grant = payload.grant ? sanitizeGrant(payload.grant) : null;
+  if (payload.grant && !grant) {
+    return NextResponse.json({ error: "Choose what the invite unlocks." }, { status: 400 });
+  }
+
+  const expiresAt = new Date(Date.now() + clampLinkDays(payload.linkDays) * 24 * 60 * 60 * 1000).toISOString();
+  const { invites, error } = await createInvites({ emails, expiresAt, grant, createdBy: user.id });
+  if (error) {
+    return NextResponse.json({ error: `Save failed: ${error}` }, { status: 500 });
+  }
+
+  const sendErrors: string[] = [];
+  if (payload.send === true) {
+    for (const invite of invites) {
+      const sendError = await sendInviteEmail(invite);
+      if (sendError) sendErrors.push(`${invite.email}: ${sendError}`);
+    }
+  }
+
+  return NextResponse.json({ created: invites.length, invalid, sendErrors });
+}
+
+// Revoking expires the link now; used invites are kept as a record.
+export async function DELETE(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const id = (new URL(req.url).searchParams.get("id") || "").trim();
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .update({ expires_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("used_at", null)
+    .select("id");
+  if (error) {
+    return NextResponse.json({ error: `Revoke failed: ${error.message}` }, { status: 500 });
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: "Invite not found or already used." }, { status: 404 });
+  }
+
+  return NextResponse.json({ revoked: true, id });
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { isLayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+import { isLayoutDraftAction, layoutDraftState } from "@/lib/bookcase/layoutDrafts";
+import {
+  discardLayoutDraft,
+  publishLayoutDraft,
+  scheduleLayoutDraft,
+} from "@/lib/bookcase/layoutDraftStore";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const table = typeof payload.table === "string" ? payload.table.trim() : "";
+  const key = typeof payload.key === "string" ? payload.key.trim() : "";
+  const action = typeof payload.action === "string" ? payload.action.trim() : "";
+  if (!isLayoutRevisionTable(table) || !key || !isLayoutDraftAction(action)) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  if (action === "publish") {
+    const { published, updatedAt, error, status } = await publishLayoutDraft(table, key, user);
+    if (!published) {
+      return NextResponse.json({ error }, { status });
+    }
+    return NextResponse.json({ published: true, draft: null, updatedAt });
+  }
+
+  if (action === "discard") {
+    const error = await discardLayoutDraft(table, key);
+    if (error) {
+      return NextResponse.json({ error: `Discard failed: ${error}` }, { status: 500 });
+    }
+    return NextResponse.json({ discarded: true, draft: null });
+  }
+
+  // A null publishAt clears the schedule.
+  const publishAtRaw = typeof payload.publishAt === "string" ? payload.publishAt.trim() : "";
+  const publishAt = publishAtRaw ? new Date(publishAtRaw) : null;
+  if (publishAt && Number.isNaN(publishAt.getTime())) {
+    return NextResponse.json({ error: "publishAt must be a date" }, { status: 400 });
+  }
+
+  const { draft, error, status } = await scheduleLayoutDraft(table, key, publishAt ? publishAt.toISOString() : null);
+  if (error) {
+    return NextResponse.json({ error }, { status });
+  }
+  return NextResponse.json({ scheduled: Boolean(publishAt), draft: layoutDraftState(draft) });
+}
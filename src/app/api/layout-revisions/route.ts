@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { isLayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+import { listLayoutRevisions, readLiveLayout } from "@/lib/bookcase/layoutRevisionStore";
+import { restoreLayoutRevision } from "@/lib/bookcase/layoutRestoreStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const url = new URL(req.url);
+  const table = (url.searchParams.get("table") || "").trim();
+  const key = (url.searchParams.get("key") || "").trim();
+  if (!isLayoutRevisionTable(table) || !key) {
+    return NextResponse.json({ error: "table and key are required" }, { status: 400 });
+  }
+
+  const { revisions, error } = await listLayoutRevisions(table, key);
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+  // The live row's version the admin is choosing against; a restore sends it back as expectedUpdatedAt.
+  const live = await readLiveLayout(table, key);
+  if (live.error) {
+    return NextResponse.json({ error: live.error }, { status: 500 });
+  }
+  return NextResponse.json({ revisions, updatedAt: live.updatedAt });
+}
+
+export async function POST(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const id = typeof payload.id === "string" ? payload.id.trim() : "";
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  // Same contract as layout saves: a missing value skips the stale-write check, null expects no live row.
+  const expectedUpdatedAt =
+    payload.expectedUpdatedAt === null
+      ? null
+      : typeof payload.expectedUpdatedAt === "string"
+        ? payload.expectedUpdatedAt
+        : undefined;
+
+  const { revision, updatedAt, warning, error, status } = await restoreLayoutRevision(id, user, expectedUpdatedAt);
+  if (error || !revision) {
+    return NextResponse.json({ error, ...(status === 409 ? { conflict: true } : {}) }, { status });
+  }
+  return NextResponse.json({ restored: true, revision, updatedAt, ...(warning ? { warning } : {}) });
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabase/service";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { ruleFromRow, ruleToRow, sanitizePricingRule } from "@/lib/commerce/pricing";
+import { PRICING_TABLE_NAME, listPricingRules } from "@/lib/commerce/pricingStore";
+import { listBookOptions } from "@/lib/bookcase/shelfBooks";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const { rules, error } = await listPricingRules();
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  const { data: chapters } = await supabaseService
+    .from("chapters")
+    .select("id, episode_number, title")
+    .order("episode_number", { ascending: true });
+
+  return NextResponse.json({
+    rules,
+    chapters: (chapters ?? []).map((chapter) => ({
+      id: String(chapter.id),
+      label: `Episode ${chapter.episode_number}: ${chapter.title}`,
+    })),
+    books: await listBookOptions(),
+  });
+}
+
+export async function POST(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const rule = sanitizePricingRule(payload.rule);
+  if (!rule) {
+    return NextResponse.json({ error: "Each rule needs a scope, and book rules need a book." }, { status: 400 });
+  }
+  if (rule.saleAmountPence !== null && rule.saleStartsAt && rule.saleEndsAt && rule.saleEndsAt <= rule.saleStartsAt) {
+    return NextResponse.json({ error: "Sale end must be after sale start." }, { status: 400 });
+  }
+
+  const id = typeof payload.id === "string" && payload.id.trim() ? payload.id.trim() : "";
+  const row = { ...ruleToRow(rule), updated_by: user.id };
+  const result = id
+    ? await supabaseService.from(PRICING_TABLE_NAME).update(row).eq("id", id).select("*").single()
+    : await supabaseService.from(PRICING_TABLE_NAME).insert(row).select("*").single();
+
+  if (result.error) {
+    const duplicate = result.error.code === "23505";
+    return NextResponse.json(
+      { error: duplicate ? "A rule for this item already exists." : `Save failed: ${result.error.message}` },
+      { status: duplicate ? 409 : 500 }
+    );
+  }
+
+  return NextResponse.json({ saved: true, rule: ruleFromRow(result.data) });
+}
+
+export async function DELETE(req: Request) {
+  const { user, isAdmin } = await getCurrentUserAndRole();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  const id = (new URL(req.url).searchParams.get("id") || "").trim();
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const { error } = await supabaseService.from(PRICING_TABLE_NAME).delete().eq("id", id);
+  if (error) {
+    return NextResponse.json({ error: `Delete failed: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ deleted: true, id });
+}
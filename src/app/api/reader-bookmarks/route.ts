@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import {
+  MAX_BOOKMARKS_PER_ITEM,
+  sanitizeBookmarkRecord,
+  sanitizeNamedBookmarkInput,
+  type NamedBookmark,
+} from "@/lib/reader/readingRecords";
+
+export const dynamic = "force-dynamic";
+
+const TABLE_NAME = "reader_bookmarks";
+const COLUMNS = "id, item_key, label, note, position, created_at";
+
+function bookmarkFromRow(raw: unknown): NamedBookmark | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const position = sanitizeBookmarkRecord(row.position);
+  if (!position || typeof row.id !== "string" || typeof row.item_key !== "string") return null;
+  return {
+    id: row.id,
+    itemKey: row.item_key,
+    label: typeof row.label === "string" ? row.label : "Bookmark",
+    note: typeof row.note === "string" ? row.note : "",
+    position,
+    createdAt: typeof row.created_at === "string" ? row.created_at : "",
+  };
+}
+
+export async function GET(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const itemKey = (new URL(req.url).searchParams.get("item") || "").trim();
+  if (!itemKey) {
+    return NextResponse.json({ error: "item is required" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select(COLUMNS)
+    .eq("user_id", userData.user.id)
+    .eq("item_key", itemKey)
+    .order("created_at", { ascending: true });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    bookmarks: (data ?? []).flatMap((row) => bookmarkFromRow(row) ?? []),
+  });
+}
+
+export async function POST(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const input = sanitizeNamedBookmarkInput(payload.bookmark);
+  if (!input) {
+    return NextResponse.json({ error: "Bookmarks need an item and a reading position." }, { status: 400 });
+  }
+
+  const { count } = await supabase
+    .from(TABLE_NAME)
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userData.user.id)
+    .eq("item_key", input.itemKey);
+  if ((count ?? 0) >= MAX_BOOKMARKS_PER_ITEM) {
+    return NextResponse.json(
+      { error: `Up to ${MAX_BOOKMARKS_PER_ITEM} bookmarks are kept per chapter or book.` },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .insert({
+      user_id: userData.user.id,
+      item_key: input.itemKey,
+      label: input.label,
+      note: input.note,
+      position: input.position,
+    })
+    .select(COLUMNS)
+    .single();
+  const bookmark = bookmarkFromRow(data);
+  if (error || !bookmark) {
+    return NextResponse.json({ error: `Save failed: ${error?.message || "unknown error"}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ bookmark });
+}
+
+export async function DELETE(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = (new URL(req.url).searchParams.get("id") || "").trim();
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const { error } = await supabase.from(TABLE_NAME).delete().eq("id", id).eq("user_id", userData.user.id);
+  if (error) {
+    return NextResponse.json({ error: `Delete failed: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ deleted: true, id });
+}
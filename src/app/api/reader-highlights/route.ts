@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import {
+  MAX_HIGHLIGHT_NOTE_LENGTH,
+  normalizeHighlightColor,
+  sanitizeHighlightAnchor,
+  sanitizeHighlightInput,
+  type ReaderHighlight,
+} from "@/lib/reader/highlights";
+
+export const dynamic = "force-dynamic";
+
+const TABLE_NAME = "reader_highlights";
+const COLUMNS = "id, item_key, anchor, quote, color, note, shared, created_at";
+const MAX_HIGHLIGHTS_PER_ITEM = 500;
+
+function highlightFromRow(raw: unknown): ReaderHighlight | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const anchor = sanitizeHighlightAnchor(row.anchor);
+  if (!anchor || typeof row.id !== "string" || typeof row.item_key !== "string") return null;
+  return {
+    id: row.id,
+    itemKey: row.item_key,
+    anchor,
+    quote: typeof row.quote === "string" ? row.quote : "",
+    color: normalizeHighlightColor(row.color),
+    note: typeof row.note === "string" ? row.note : "",
+    shared: row.shared === true,
+    createdAt: typeof row.created_at === "string" ? row.created_at : "",
+  };
+}
+
+export async function GET(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const itemKey = (new URL(req.url).searchParams.get("item") || "").trim();
+  if (!itemKey) {
+    return NextResponse.json({ error: "item is required" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select(COLUMNS)
+    .eq("user_id", userData.user.id)
+    .eq("item_key", itemKey)
+    .order("created_at", { ascending: true });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    highlights: (data ?? []).flatMap((row) => highlightFromRow(row) ?? []),
+  });
+}
+
+// With an id, only the colour, note and club sharing of an existing highlight change.
+export async function POST(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const raw =
+    payload.highlight && typeof payload.highlight === "object" ? (payload.highlight as Record<string, unknown>) : {};
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+
+  if (id) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .update({
+        color: normalizeHighlightColor(raw.color),
+        note: typeof raw.note === "string" ? raw.note.trim().slice(0, MAX_HIGHLIGHT_NOTE_LENGTH) : "",
+        shared: raw.shared === true,
+      })
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .select(COLUMNS)
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: `Save failed: ${error.message}` }, { status: 500 });
+    }
+    const highlight = highlightFromRow(data);
+    if (!highlight) {
+      return NextResponse.json({ error: "Highlight not found" }, { status: 404 });
+    }
+    return NextResponse.json({ highlight });
+  }
+
+  const input = sanitizeHighlightInput(raw);
+  if (!input) {
+    return NextResponse.json({ error: "Highlights need an item, a passage and its quote." }, { status: 400 });
+  }
+
+  const { count } = await supabase
+    .from(TABLE_NAME)
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userData.user.id)
+    .eq("item_key", input.itemKey);
+  if ((count ?? 0) >= MAX_HIGHLIGHTS_PER_ITEM) {
+    return NextResponse.json(
+      { error: `Up to ${MAX_HIGHLIGHTS_PER_ITEM} highlights are kept per chapter or book.` },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .insert({
+      user_id: userData.user.id,
+      item_key: input.itemKey,
+      anchor: input.anchor,
+      quote: input.quote,
+      color: input.color,
+      note: input.note,
+      shared: input.shared,
+    })
+    .select(COLUMNS)
+    .single();
+  const highlight = highlightFromRow(data);
+  if (error || !highlight) {
+    return NextResponse.json({ error: `Save failed: ${error?.message || "unknown error"}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ highlight });
+}
+
+export async function DELETE(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = (new URL(req.url).searchParams.get("id") || "").trim();
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const { error } = await supabase.from(TABLE_NAME).delete().eq("id", id).eq("user_id", userData.user.id);
+  if (error) {
+    return NextResponse.json({ error: `Delete failed: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ deleted: true, id });
+}
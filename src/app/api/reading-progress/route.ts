@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { sanitizeBookmarkRecord, sanitizeSyncedRecords } from "@/lib/reader/readingRecords";
+
+export const dynamic = "force-dynamic";
+
+const TABLE_NAME = "reading_progress";
+
+function recordsFromRows(rows: unknown[] | null) {
+  return (rows ?? []).flatMap((raw) => {
+    const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    const record = sanitizeBookmarkRecord(row.record);
+    const kind = row.kind === "progress" || row.kind === "bookmark" ? row.kind : null;
+    if (!record || !kind || typeof row.item_key !== "string") return [];
+    return [{ itemKey: row.item_key, kind, record }];
+  });
+}
+
+export async function GET(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const itemKey = (new URL(req.url).searchParams.get("item") || "").trim();
+  if (!itemKey) {
+    return NextResponse.json({ error: "item is required" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select("item_key, kind, record")
+    .eq("user_id", userData.user.id)
+    .eq("item_key", itemKey);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ records: recordsFromRows(data) });
+}
+
+export async function POST(req: Request) {
+  const supabase = await supabaseServer();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const records = sanitizeSyncedRecords(payload.records);
+  if (records.length === 0) {
+    return NextResponse.json({ records: [] });
+  }
+
+  const { data, error } = await supabase.rpc("merge_reading_progress", {
+    p_records: records.map((item) => ({
+      item_key: item.itemKey,
+      kind: item.kind,
+      record: item.record,
+      at: item.record.at,
+    })),
+  });
+  if (error) {
+    return NextResponse.json({ error: `Save failed: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ records: recordsFromRows(Array.isArray(data) ? data : []) });
+}
@@ -1,20 +1,8 @@
 import Stripe from "stripe";
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import { supabaseService } from "@/lib/supabase/service";
-
-let stripeClient: Stripe | null = null;
-
-function getStripeClient() {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) {
-    throw new Error("Missing STRIPE_SECRET_KEY");
-  }
-  if (!stripeClient) {
-    stripeClient = new Stripe(key, { apiVersion: "2026-01-28.clover" });
-  }
-  return stripeClient;
-}
+import { getStripeClient } from "@/lib/commerce/stripe";
+import { processStripeEvent } from "@/lib/commerce/stripeEvents";
 
 export async function POST(req: Request) {
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
@@ -36,6 +24,7 @@ export async function POST(req: Request) {
 
   if (!sig) return NextResponse.json({ error: "Missing signature" }, { status: 400 });
 
+  // Local payloads signed with stripe.webhooks.generateTestHeaderString and the same secret pass this check.
   let event: Stripe.Event;
   try {
     event = stripe.webhooks.constructEvent(body, sig, webhookSecret);
@@ -44,35 +33,11 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: `Webhook Error: ${message}` }, { status: 400 });
   }
 
-  if (event.type === "checkout.session.completed") {
-    const session = event.data.object as Stripe.Checkout.Session;
-
-    const userId = session.metadata?.user_id;
-    const chapterId = session.metadata?.chapter_id;
-    const purchaseId = session.metadata?.purchase_id;
-    const paymentIntent = session.payment_intent?.toString() || null;
-
-    if (!userId || !chapterId) {
-      return NextResponse.json({ error: "Missing metadata" }, { status: 400 });
-    }
-
-    // Mark purchase paid (if we created one)
-    if (purchaseId) {
-      await supabaseService.from("purchases").update({
-        status: "paid",
-        stripe_session_id: session.id,
-        stripe_payment_intent_id: paymentIntent,
-      }).eq("id", purchaseId);
-    }
-
-    // Grant permanent entitlement
-    await supabaseService.from("entitlements").upsert({
-      user_id: userId,
-      chapter_id: chapterId,
-      expires_at: null,
-      source: "purchase",
-    });
+  try {
+    const { duplicate } = await processStripeEvent(event);
+    return NextResponse.json({ received: true, duplicate });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown webhook error";
+    return NextResponse.json({ error: `Webhook Error: ${message}` }, { status: 500 });
   }
-
-  return NextResponse.json({ received: true });
 }
@@ -0,0 +1,16 @@
+import { redirect } from "next/navigation";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import ClubNotesModeration from "@/components/ClubNotesModeration";
+
+export default async function ClubNotesAdminPage() {
+  const { isAdmin } = await getCurrentUserAndRole();
+  if (!isAdmin) {
+    redirect("/bookcase");
+  }
+
+  return (
+    <main className="bookcase-scene">
+      <ClubNotesModeration />
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import { redirect } from "next/navigation";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import InvitesAdmin from "@/components/InvitesAdmin";
+
+export default async function InvitesAdminPage() {
+  const { isAdmin } = await getCurrentUserAndRole();
+  if (!isAdmin) {
+    redirect("/bookcase");
+  }
+
+  return (
+    <main className="bookcase-scene">
+      <InvitesAdmin />
+    </main>
+  );
+}
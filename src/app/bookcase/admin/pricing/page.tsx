@@ -0,0 +1,16 @@
+import { redirect } from "next/navigation";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import PricingRulesEditor from "@/components/PricingRulesEditor";
+
+export default async function PricingAdminPage() {
+  const { isAdmin } = await getCurrentUserAndRole();
+  if (!isAdmin) {
+    redirect("/bookcase");
+  }
+
+  return (
+    <main className="bookcase-scene">
+      <PricingRulesEditor />
+    </main>
+  );
+}
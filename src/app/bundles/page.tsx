@@ -0,0 +1,71 @@
+import Link from "next/link";
+import GiftPurchaseForm from "@/components/GiftPurchaseForm";
+import { bookcaseLabelForKey } from "@/lib/bookcase/pageKey";
+import { formatPrice } from "@/lib/commerce/pricing";
+import { listPublishedBundles, type BundleRecord } from "@/lib/commerce/bundles";
+
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  searchParams?:
+    | {
+        bundle?: string;
+        unlocked?: string;
+      }
+    | Promise<{
+        bundle?: string;
+        unlocked?: string;
+      }>;
+};
+
+function describeItems(bundle: BundleRecord) {
+  const chapters = bundle.items.filter((item) => item.itemType === "chapter").length;
+  const books = bundle.items.filter((item) => item.itemType === "book").length;
+  const shelves = bundle.items
+    .filter((item) => item.itemType === "shelf" && item.pageKey)
+    .map((item) => `the whole ${bookcaseLabelForKey(item.pageKey ?? "")} shelf`);
+
+  const parts = [
+    chapters ? `${chapters} episode${chapters === 1 ? "" : "s"}` : "",
+    books ? `${books} book${books === 1 ? "" : "s"}` : "",
+    ...shelves,
+  ].filter(Boolean);
+  return parts.join(", ");
+}
+
+export default async function BundlesPage({ searchParams }: PageProps) {
+  const resolvedSearchParams = await Promise.resolve(searchParams);
+  const { bundles, error } = await listPublishedBundles();
+  const unlockedSlug = resolvedSearchParams?.unlocked === "1" ? resolvedSearchParams?.bundle ?? "" : "";
+  const unlocked = bundles.find((bundle) => bundle.slug === unlockedSlug);
+
+  return (
+    <main className="app-shell">
+      <h1>Bundles</h1>
+      {unlocked && <p>Thanks! {unlocked.title} is being unlocked on your account.</p>}
+      {error && <p className="app-error">{error}</p>}
+      {!error && bundles.length === 0 && <p>No bundles are on sale right now.</p>}
+
+      <ul className="episodes-list">
+        {bundles.map((bundle) => (
+          <li key={bundle.id}>
+            <h2>{bundle.title}</h2>
+            {bundle.description && <p>{bundle.description}</p>}
+            <p>Includes {describeItems(bundle) || "nothing yet"}.</p>
+            <form action="/api/checkout" method="post">
+              <input type="hidden" name="bundle_id" value={bundle.id} />
+              <button type="submit">
+                {bundle.amountPence > 0 ? `Buy for ${formatPrice(bundle.amountPence, bundle.currency)}` : "Unlock for free"}
+              </button>
+            </form>
+            {bundle.amountPence > 0 && <GiftPurchaseForm fields={{ bundle_id: bundle.id }} />}
+          </li>
+        ))}
+      </ul>
+
+      <div className="page-actions">
+        <Link href="/bookcase">Back to Bookcase</Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+function timeLeft(expiresAt: string, now: number) {
+  const ms = new Date(expiresAt).getTime() - now;
+  if (ms <= 0) return "expired";
+
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m left`;
+  return `${Math.max(1, minutes)}m left`;
+}
+
+export default function TrialCountdown({ expiresAt }: { expiresAt: string }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return (
+    <time dateTime={expiresAt} suppressHydrationWarning>
+      {timeLeft(expiresAt, now)}
+    </time>
+  );
+}
@@ -1,10 +1,112 @@
-import { redirect } from "next/navigation";
+import Link from "next/link";
+import { supabaseServer } from "@/lib/supabase/server";
+import { supabaseService } from "@/lib/supabase/service";
+import { formatPrice } from "@/lib/commerce/pricing";
+import { quoteChapterPrice } from "@/lib/commerce/pricingStore";
+import { hasActiveMembership } from "@/lib/commerce/memberships";
+import { chapterAccess, loadChapterEntitlements } from "@/lib/commerce/chapterAccess";
+import TrialCountdown from "../TrialCountdown";
+
+export const dynamic = "force-dynamic";
 
 type EpisodePageProps = {
-  params: { id: string };
+  params: { id: string } | Promise<{ id: string }>;
+  searchParams?: { feedback?: string } | Promise<{ feedback?: string }>;
 };
 
-export default function EpisodePage(_props: EpisodePageProps) {
-  redirect("/bookcase");
-}
+export default async function EpisodePage({ params, searchParams }: EpisodePageProps) {
+  const resolvedParams = await Promise.resolve(params);
+  const resolvedSearchParams = await Promise.resolve(searchParams);
+  const supa = await supabaseServer();
+  const { data: userData } = await supa.auth.getUser();
+  const user = userData.user;
+
+  const { data: chapter } = await supabaseService
+    .from("chapters")
+    .select("id, episode_number, title")
+    .eq("id", resolvedParams.id)
+    .eq("status", "published")
+    .maybeSingle();
+
+  if (!chapter) {
+    return (
+      <main className="app-shell">
+        <h1>Episode not found</h1>
+        <Link href="/episodes" className="episode-back-link">
+          Back to episodes
+        </Link>
+      </main>
+    );
+  }
+
+  const id = String(chapter.id);
+  const entitlements = user ? await loadChapterEntitlements(user.id) : new Map();
+  const isMember = user ? await hasActiveMembership(user.id) : false;
+  const access = chapterAccess(entitlements.get(id), isMember);
+  const canRead = access.state === "owned" || access.state === "trial";
+  const quote = canRead ? null : await quoteChapterPrice(id);
 
+  return (
+    <main className="app-shell">
+      <Link href="/episodes" className="episode-back-link">
+        Back to episodes
+      </Link>
+      <h1>
+        Episode {chapter.episode_number}: {chapter.title}
+      </h1>
+
+      {access.state === "trial" && (
+        <p>
+          Trial access: <TrialCountdown expiresAt={access.expiresAt} />
+        </p>
+      )}
+      {access.state === "expired" && <p>Your trial for this episode has ended.</p>}
+
+      <div className="page-actions">
+        {canRead ? (
+          <Link href={`/reader/${id}`}>Read this episode</Link>
+        ) : !user ? (
+          <Link href="/login">Log in to unlock</Link>
+        ) : (
+          quote && (
+            <form action="/api/checkout" method="post">
+              <input type="hidden" name="chapter_id" value={id} />
+              <button type="submit">
+                {quote.isFree
+                  ? "Unlock for free"
+                  : `Unlock for ${formatPrice(quote.amountPence, quote.currency)}${quote.onSale ? " (sale)" : ""}`}
+              </button>
+            </form>
+          )
+        )}
+      </div>
+
+      {user && canRead && (
+        <section className="feedback-section">
+          <h2>Tell us what you thought</h2>
+          {resolvedSearchParams?.feedback === "sent" && <p>Thanks, your feedback has been sent.</p>}
+          <form action="/api/feedback" method="post" className="feedback-form">
+            <input type="hidden" name="chapter_id" value={id} />
+            <label>
+              Favourite moment
+              <textarea name="fav_moment" rows={3} />
+            </label>
+            <label>
+              Anything confusing?
+              <textarea name="confusing_bit" rows={3} />
+            </label>
+            <label>
+              Suggestions
+              <textarea name="suggestion" rows={3} />
+            </label>
+            <label>
+              Anything else
+              <textarea name="extra_note" rows={3} />
+            </label>
+            <button type="submit">Send feedback</button>
+          </form>
+        </section>
+      )}
+    </main>
+  );
+}
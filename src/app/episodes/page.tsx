@@ -1,6 +1,92 @@
-import { redirect } from "next/navigation";
+import Link from "next/link";
+import { supabaseServer } from "@/lib/supabase/server";
+import { supabaseService } from "@/lib/supabase/service";
+import { formatPrice } from "@/lib/commerce/pricing";
+import { quoteChapterPrices } from "@/lib/commerce/pricingStore";
+import { hasActiveMembership } from "@/lib/commerce/memberships";
+import { chapterAccess, loadChapterEntitlements } from "@/lib/commerce/chapterAccess";
+import SignOutBookButton from "./SignOutBookButton";
+import TrialCountdown from "./TrialCountdown";
 
-export default function EpisodesPage() {
-  redirect("/bookcase");
-}
+export const dynamic = "force-dynamic";
+
+export default async function EpisodesPage() {
+  const supa = await supabaseServer();
+  const { data: userData } = await supa.auth.getUser();
+  const user = userData.user;
+
+  const { data: chapters, error } = await supabaseService
+    .from("chapters")
+    .select("id, episode_number, title")
+    .eq("status", "published")
+    .order("episode_number", { ascending: true });
+
+  const chapterIds = (chapters ?? []).map((chapter) => String(chapter.id));
+  const quotes = await quoteChapterPrices(chapterIds);
+  const entitlements = user ? await loadChapterEntitlements(user.id) : new Map();
+  const isMember = user ? await hasActiveMembership(user.id) : false;
+
+  return (
+    <main className="app-shell">
+      <div className="page-actions">
+        <h1>Episodes</h1>
+        {user && <SignOutBookButton />}
+      </div>
 
+      {!user && (
+        <p>
+          <Link href="/login">Log in</Link> to unlock episodes and keep your place.
+        </p>
+      )}
+      {isMember && <p>Your membership unlocks every episode.</p>}
+      {error && <p className="app-error">{error.message}</p>}
+      {!error && chapterIds.length === 0 && <p>No episodes are published yet.</p>}
+
+      <ol className="episodes-list">
+        {(chapters ?? []).map((chapter) => {
+          const id = String(chapter.id);
+          const access = chapterAccess(entitlements.get(id), isMember);
+          const quote = quotes.get(id);
+          const canRead = access.state === "owned" || access.state === "trial";
+
+          return (
+            <li key={id} value={chapter.episode_number}>
+              <div className="page-actions">
+                <Link href={`/episodes/${id}`}>{chapter.title}</Link>
+                {access.state === "owned" && <span>Owned</span>}
+                {access.state === "trial" && (
+                  <span>
+                    Trial: <TrialCountdown expiresAt={access.expiresAt} />
+                  </span>
+                )}
+                {access.state === "expired" && <span>Trial ended</span>}
+                {access.state === "locked" && <span>Locked</span>}
+                {canRead ? (
+                  <Link href={`/reader/${id}`}>Read</Link>
+                ) : (
+                  user &&
+                  quote && (
+                    <form action="/api/checkout" method="post">
+                      <input type="hidden" name="chapter_id" value={id} />
+                      <button type="submit">
+                        {quote.isFree
+                          ? "Unlock for free"
+                          : `Unlock for ${formatPrice(quote.amountPence, quote.currency)}${quote.onSale ? " (sale)" : ""}`}
+                      </button>
+                    </form>
+                  )
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="page-actions">
+        <Link href="/bundles">Bundles</Link>
+        <Link href="/account">Membership</Link>
+        <Link href="/bookcase">Back to Bookcase</Link>
+      </div>
+    </main>
+  );
+}
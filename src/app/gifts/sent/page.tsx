@@ -0,0 +1,14 @@
+import Link from "next/link";
+
+export default function GiftSentPage() {
+  return (
+    <main className="app-shell">
+      <h1>Gift on its way</h1>
+      <p>Thanks! Once payment clears we email the recipient a link to claim their gift.</p>
+      <p>They sign in with that email address to unlock it.</p>
+      <div className="page-actions">
+        <Link href="/bookcase">Back to Bookcase</Link>
+      </div>
+    </main>
+  );
+}
@@ -2,6 +2,8 @@
 import Reader from "@/components/reader";
 import { supabaseService } from "@/lib/supabase/service";
 import { supabaseServer } from "@/lib/supabase/server";
+import { hasActiveMembership } from "@/lib/commerce/memberships";
+import { resolveNarrationUrl, sanitizeNarrationTimings } from "@/lib/reader/narration";
 
 export default async function ReaderPage({
   params,
@@ -12,15 +14,17 @@ export default async function ReaderPage({
   const supabase = await supabaseServer();
 
   // Allow public preview in reader route; when logged in, keep using session-aware client.
+  // Members bypass per-chapter entitlements, so they read through the service client.
   const { data: userData } = await supabase.auth.getUser();
-  const readerClient = userData?.user ? supabase : supabaseService;
+  const isMember = userData?.user ? await hasActiveMembership(userData.user.id) : false;
+  const readerClient = userData?.user && !isMember ? supabase : supabaseService;
 
   // Pull the chapter content
-  const { data: chapter, error } = await readerClient
+  const chapterQuery = readerClient
     .from("chapters")
-    .select("id, episode_number, title, content_md")
-    .eq("id", resolvedParams.id)
-    .maybeSingle();
+    .select("id, episode_number, title, content_md, narration_url, narration_timings")
+    .eq("id", resolvedParams.id);
+  const { data: chapter, error } = await (isMember ? chapterQuery.eq("status", "published") : chapterQuery).maybeSingle();
 
   if (error) {
     return (
@@ -41,19 +45,21 @@ export default async function ReaderPage({
     );
   }
 
-  // Get prev/next by episode_number (optional)
-  const { data: prev } = await readerClient
+  // Get prev/next by episode_number (optional); members skip RLS, so they need the same published filter
+  const prevQuery = readerClient
     .from("chapters")
     .select("id, episode_number, title")
-    .lt("episode_number", chapter.episode_number)
+    .lt("episode_number", chapter.episode_number);
+  const { data: prev } = await (isMember ? prevQuery.eq("status", "published") : prevQuery)
     .order("episode_number", { ascending: false })
     .limit(1)
     .maybeSingle();
 
-  const { data: next } = await readerClient
+  const nextQuery = readerClient
     .from("chapters")
     .select("id, episode_number, title")
-    .gt("episode_number", chapter.episode_number)
+    .gt("episode_number", chapter.episode_number);
+  const { data: next } = await (isMember ? nextQuery.eq("status", "published") : nextQuery)
     .order("episode_number", { ascending: true })
     .limit(1)
     .maybeSingle();
@@ -63,6 +69,8 @@ export default async function ReaderPage({
       chapterId={chapter.id}
       title={`Episode ${chapter.episode_number}: ${chapter.title}`}
       content={chapter.content_md ?? ""}
+      narrationUrl={resolveNarrationUrl(chapter.narration_url)}
+      narrationTimings={sanitizeNarrationTimings(chapter.narration_timings)}
       userId={userData?.user?.id ?? null}
       prevId={prev?.id ?? null}
       nextId={next?.id ?? null}
@@ -1,24 +1,17 @@
 import Link from "next/link";
 import Reader from "@/components/reader";
-import { supabaseService } from "@/lib/supabase/service";
+import GiftPurchaseForm from "@/components/GiftPurchaseForm";
+import { getCurrentUserAndRole } from "@/lib/supabase/roles";
+import { hasBookEntitlement, signedFullBookUrl } from "@/lib/bookcase/fullBookAccess";
+import { fullBookPricePence, listBookSlots, loadShelfBook, safeString } from "@/lib/bookcase/shelfBooks";
+import { formatPrice } from "@/lib/commerce/pricing";
+import { quoteBookPrice } from "@/lib/commerce/pricingStore";
+import { bundleIncludesBook, listPublishedBundles } from "@/lib/commerce/bundles";
+import { hasActiveMembership } from "@/lib/commerce/memberships";
+import { hasPreviewLimits, isEpubMedia, signedPreviewUrl } from "@/lib/bookcase/epubPreview";
 
 export const dynamic = "force-dynamic";
 
-type BookRecord = {
-  key?: string;
-  label?: string;
-  readerSampleText?: string;
-  infoPageText?: string;
-  readerSampleMediaUrl?: string;
-  readerSampleMediaType?: string;
-  infoPageMediaUrl?: string;
-  infoPageMediaType?: string;
-  fullBookMediaUrl?: string;
-  fullBookMediaType?: string;
-  fullBookHideFirstPages?: number;
-  fullBookMaxPages?: number;
-};
-
 type PageProps = {
   params:
     | {
@@ -38,10 +31,6 @@ type PageProps = {
       }>;
 };
 
-function safeString(value: unknown) {
-  return typeof value === "string" ? value : "";
-}
-
 function safePageLimit(value: unknown) {
   const n = Number(value);
   if (!Number.isFinite(n)) return 0;
@@ -53,8 +42,8 @@ export default async function BookReaderPage({ params, searchParams }: PageProps
   const resolvedSearchParams = await Promise.resolve(searchParams);
   const pageKey = decodeURIComponent(resolvedParams?.pageKey || "").trim().toLowerCase();
   const bookKey = decodeURIComponent(resolvedParams?.bookKey || "").trim();
-  const slot =
-    resolvedSearchParams?.slot === "info" ? "info" : resolvedSearchParams?.slot === "full" ? "full" : "sample";
+  const slotParam = resolvedSearchParams?.slot;
+  const slot = slotParam === "info" || slotParam === "full" || slotParam === "preview" ? slotParam : "sample";
 
   if (!pageKey || !bookKey) {
     return (
@@ -66,24 +55,17 @@ export default async function BookReaderPage({ params, searchParams }: PageProps
     );
   }
 
-  const { data, error } = await supabaseService
-    .from("bookcase_book_layouts")
-    .select("books")
-    .eq("page_key", pageKey)
-    .maybeSingle();
+  const { book, error } = await loadShelfBook(pageKey, bookKey);
 
   if (error) {
     return (
       <main style={{ maxWidth: 720, margin: "40px auto", padding: 16 }}>
         <h1>Reader</h1>
-        <p style={{ color: "crimson" }}>{error.message}</p>
+        <p style={{ color: "crimson" }}>{error}</p>
       </main>
     );
   }
 
-  const books = Array.isArray(data?.books) ? (data.books as BookRecord[]) : [];
-  const book = books.find((item) => safeString(item?.key) === bookKey) ?? null;
-
   if (!book) {
     return (
       <main style={{ maxWidth: 720, margin: "40px auto", padding: 16 }}>
@@ -97,20 +79,133 @@ export default async function BookReaderPage({ params, searchParams }: PageProps
   const isSample = slot === "sample";
   const isInfo = slot === "info";
   const title = safeString(book.label) || bookKey;
+  const readerHref = `/reader/book/${encodeURIComponent(pageKey)}/${encodeURIComponent(bookKey)}`;
+
+  // The page window doubles as a preview for readers without the book: they get a trimmed copy
+  // of the uploaded EPUB built on the server, never the full file.
+  const previewLimits = {
+    hideFirstPages: safePageLimit(book.fullBookHideFirstPages),
+    maxVisiblePages: safePageLimit(book.fullBookMaxPages),
+  };
+  const fullBookPath = safeString(book.fullBookMediaPath).trim();
+  const canPreview =
+    Boolean(fullBookPath) &&
+    hasPreviewLimits(previewLimits) &&
+    isEpubMedia(fullBookPath, safeString(book.fullBookMediaType));
+
+  if (slot === "preview") {
+    const previewUrl = canPreview ? await signedPreviewUrl(fullBookPath, previewLimits) : "";
+    if (!previewUrl) {
+      return (
+        <main style={{ maxWidth: 720, margin: "40px auto", padding: 16 }}>
+          <h1>{title}</h1>
+          <p>No preview is available for this book.</p>
+          <div className="page-actions">
+            <Link href={`${readerHref}?slot=full`}>Full book</Link>
+            <Link href={`/bookcase/${pageKey}`}>Back to shelf</Link>
+          </div>
+        </main>
+      );
+    }
+
+    return (
+      <Reader
+        chapterId={`${pageKey}-${bookKey}-preview`}
+        title={title}
+        sectionLabel="Full Book Preview"
+        content=""
+        mediaUrl={previewUrl}
+        mediaType="application/epub+zip"
+        backHref={`${readerHref}?slot=full`}
+        backLabel="Back to book"
+        prevId={null}
+        nextId={null}
+      />
+    );
+  }
+
+  let fullBookUrl = "";
+  if (slot === "full") {
+    // Access, price and bundles belong to the catalogue book, wherever it is shelved.
+    const bookId = safeString(book.bookId);
+    const { user, isAdmin } = await getCurrentUserAndRole();
+    const entitled =
+      isAdmin ||
+      (user ? (await hasBookEntitlement(user.id, bookId)) || (await hasActiveMembership(user.id)) : false);
+
+    if (!entitled) {
+      const quote = bookId ? await quoteBookPrice(bookId, fullBookPricePence(book)) : null;
+      const { bundles } = await listPublishedBundles();
+      const shelfPageKeys = (await listBookSlots(bookId)).map((bookSlot) => bookSlot.pageKey);
+      const bookBundles = bundles.filter((bundle) => bundleIncludesBook(bundle, bookId, shelfPageKeys));
+      return (
+        <main style={{ maxWidth: 720, margin: "40px auto", padding: 16 }}>
+          <h1>{title}</h1>
+          {quote ? (
+            <>
+              <p>The full book is locked. Buy this book to read it in full.</p>
+              <form action="/api/checkout" method="post">
+                <input type="hidden" name="page_key" value={pageKey} />
+                <input type="hidden" name="book_key" value={bookKey} />
+                <button type="submit">
+                  {quote.isFree
+                    ? "Unlock for free"
+                    : `Buy full book (${formatPrice(quote.amountPence, quote.currency)}${quote.onSale ? ", on sale" : ""})`}
+                </button>
+              </form>
+              {!quote.isFree && <GiftPurchaseForm fields={{ page_key: pageKey, book_key: bookKey }} label="Buy this book as a gift" />}
+            </>
+          ) : (
+            <p>The full book is locked and is not on sale yet.</p>
+          )}
+          {bookBundles.length > 0 && (
+            <p>
+              Also included in:{" "}
+              {bookBundles.map((bundle, index) => (
+                <span key={bundle.id}>
+                  {index > 0 && ", "}
+                  <Link href={`/bundles?bundle=${encodeURIComponent(bundle.slug)}`}>
+                    {bundle.title} ({formatPrice(bundle.amountPence, bundle.currency)})
+                  </Link>
+                </span>
+              ))}
+            </p>
+          )}
+          <p>
+            Or <Link href="/account">become a member</Link> to read every full book.
+          </p>
+          {!user && (
+            <p>
+              Already bought it? <Link href="/login">Log in</Link> to continue reading.
+            </p>
+          )}
+          <div className="page-actions">
+            {canPreview && <Link href={`${readerHref}?slot=preview`}>Preview the full book</Link>}
+            <Link href={`${readerHref}?slot=sample`}>Read the sample</Link>
+            <Link href={`/bookcase/${pageKey}`}>Back to shelf</Link>
+          </div>
+        </main>
+      );
+    }
+
+    // Only private uploads are served, signed per request; a public full-book URL would let anyone download it.
+    fullBookUrl = await signedFullBookUrl(safeString(book.fullBookMediaPath));
+  }
+
   const content = isSample ? safeString(book.readerSampleText) : isInfo ? safeString(book.infoPageText) : "";
   const mediaUrl = isSample
     ? safeString(book.readerSampleMediaUrl)
     : isInfo
       ? safeString(book.infoPageMediaUrl)
-      : safeString(book.fullBookMediaUrl);
+      : fullBookUrl;
   const mediaType = isSample
     ? safeString(book.readerSampleMediaType)
     : isInfo
       ? safeString(book.infoPageMediaType)
       : safeString(book.fullBookMediaType);
   const sectionLabel = isSample ? "Reader Sample" : isInfo ? "Information Page" : "Full Book";
-  const hideFirstPages = slot === "full" ? safePageLimit(book.fullBookHideFirstPages) : 0;
-  const maxVisiblePages = slot === "full" ? safePageLimit(book.fullBookMaxPages) : 0;
+  const hideFirstPages = slot === "full" ? previewLimits.hideFirstPages : 0;
+  const maxVisiblePages = slot === "full" ? previewLimits.maxVisiblePages : 0;
 
   return (
     <Reader
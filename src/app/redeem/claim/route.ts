@@ -1,6 +1,56 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { supabaseService } from "@/lib/supabase/service";
+import { grantReaderPath } from "@/lib/commerce/grants";
+import {
+  INVITES_TABLE_NAME,
+  INVITE_GRANT_SOURCE,
+  applyGrant,
+  loadInviteByToken,
+  revokeGrant,
+} from "@/lib/commerce/invites";
+import { listBookSlots } from "@/lib/bookcase/shelfBooks";
+
+// Invites created before grant payloads existed unlock a 7-day trial of Episode 1.
+async function grantLegacyTrial(userId: string) {
+  const { data: ch1, error: chErr } = await supabaseService
+    .from("chapters")
+    .select("id")
+    .eq("episode_number", 1)
+    .single();
+
+  if (chErr || !ch1) return { error: "Episode 1 not found", status: 500 };
+
+  // Prevent re-trial: if they already had a trial entitlement once, do not refresh
+  const { data: existingTrial } = await supabaseService
+    .from("entitlements")
+    .select("id, expires_at")
+    .eq("user_id", userId)
+    .eq("chapter_id", ch1.id)
+    .eq("source", "trial")
+    .maybeSingle();
+
+  if (existingTrial) {
+    return { error: "Trial already claimed for this account.", status: 400 };
+  }
+
+  // Grant 7-day entitlement for episode 1
+  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+  // Access they already have to Episode 1 (e.g. a purchase) is left as it is.
+  const { error: entErr } = await supabaseService.from("entitlements").upsert(
+    {
+      user_id: userId,
+      chapter_id: ch1.id,
+      expires_at: expiresAt,
+      source: "trial",
+    },
+    { onConflict: "user_id,chapter_id", ignoreDuplicates: true }
+  );
+
+  if (entErr) return { error: entErr.message, status: 500 };
+  return { error: null, status: 200 };
+}
 
 export async function POST(req: Request) {
   const form = await req.formData();
@@ -15,28 +65,24 @@ export async function POST(req: Request) {
   if (!user) return NextResponse.redirect(new URL(`/login`, req.url));
 
   // Fetch invite (service role; invites are not readable client-side)
-  const { data: invite, error: invErr } = await supabaseService
-    .from("invites")
-    .select("*")
-    .eq("token", token)
-    .single();
+  const { invite } = await loadInviteByToken(token);
 
-  if (invErr || !invite) {
+  if (!invite) {
     return NextResponse.json({ error: "Invalid token" }, { status: 400 });
   }
 
   // Check invite status
   const now = new Date();
-  if (invite.used_at) {
+  if (invite.usedAt) {
     return NextResponse.json({ error: "Invite already used" }, { status: 400 });
   }
-  if (new Date(invite.expires_at) <= now) {
+  if (new Date(invite.expiresAt) <= now) {
     return NextResponse.json({ error: "Invite expired" }, { status: 400 });
   }
 
   // OPTIONAL: enforce email match (recommended)
   // Supabase user emails are on user.email
-  if ((user.email || "").toLowerCase() !== String(invite.email).toLowerCase()) {
+  if ((user.email || "").toLowerCase() !== invite.email.toLowerCase()) {
     return NextResponse.json({ error: "This invite is for a different email address." }, { status: 403 });
   }
 
@@ -47,42 +93,51 @@ export async function POST(req: Request) {
     role: "user",
   });
 
-  // Find Episode 1 chapter id
-  const { data: ch1, error: chErr } = await supabaseService
-    .from("chapters")
-    .select("id")
-    .eq("episode_number", 1)
-    .single();
-
-  if (chErr || !ch1) return NextResponse.json({ error: "Episode 1 not found" }, { status: 500 });
-
-  // Prevent re-trial: if they already had a trial entitlement once, do not refresh
-  const { data: existingTrial } = await supabaseService
-    .from("entitlements")
-    .select("id, expires_at")
-    .eq("user_id", user.id)
-    .eq("chapter_id", ch1.id)
-    .eq("source", "trial")
-    .maybeSingle();
+  // Mark invite used first so a double submit cannot grant twice.
+  const { data: claimed } = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .update({ used_at: new Date().toISOString(), claimed_by: user.id })
+    .eq("id", invite.id)
+    .is("used_at", null)
+    .select("id");
 
-  if (existingTrial) {
-    return NextResponse.json({ error: "Trial already claimed for this account." }, { status: 400 });
+  if (!claimed || claimed.length === 0) {
+    return NextResponse.json({ error: "Invite already used" }, { status: 400 });
   }
 
-  // Grant 7-day entitlement for episode 1
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+  const releaseInvite = () =>
+    supabaseService.from(INVITES_TABLE_NAME).update({ used_at: null, claimed_by: null }).eq("id", invite.id);
 
-  const { error: entErr } = await supabaseService.from("entitlements").insert({
-    user_id: user.id,
-    chapter_id: ch1.id,
-    expires_at: expiresAt,
-    source: "trial",
-  });
+  if (!invite.grant) {
+    const trial = await grantLegacyTrial(user.id);
+    if (trial.error) {
+      await releaseInvite();
+      return NextResponse.json({ error: trial.error }, { status: trial.status });
+    }
+    return NextResponse.redirect(new URL(`/episodes`, req.url), 303);
+  }
 
-  if (entErr) return NextResponse.json({ error: entErr.message }, { status: 500 });
+  try {
+    await applyGrant(user.id, invite.grant, INVITE_GRANT_SOURCE);
+  } catch (err: unknown) {
+    await releaseInvite();
+    const message = err instanceof Error ? err.message : "Unable to claim invite";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 
-  // Mark invite used
-  await supabaseService.from("invites").update({ used_at: new Date().toISOString() }).eq("id", invite.id);
+  // A refund or dispute that landed while this claim ran only saw the invite unclaimed or without the grant.
+  if (invite.purchaseId) {
+    const { data: purchase } = await supabaseService
+      .from("purchases")
+      .select("status")
+      .eq("id", invite.purchaseId)
+      .maybeSingle();
+    if (purchase && (purchase.status === "refunded" || purchase.status === "disputed")) {
+      await revokeGrant(user.id, invite.grant, INVITE_GRANT_SOURCE).catch(() => undefined);
+      return NextResponse.json({ error: "This gift was refunded." }, { status: 400 });
+    }
+  }
 
-  return NextResponse.redirect(new URL(`/episodes`, req.url));
+  const [bookSlot] = invite.grant.kind === "book" ? await listBookSlots(invite.grant.bookId) : [];
+  return NextResponse.redirect(new URL(grantReaderPath(invite.grant, bookSlot ?? null), req.url), 303);
 }
@@ -1,28 +1,64 @@
-﻿import Link from "next/link";
+import Link from "next/link";
+import { supabaseServer } from "@/lib/supabase/server";
+import { describeGrantDuration } from "@/lib/commerce/grants";
+import { grantLabel, loadInviteByToken } from "@/lib/commerce/invites";
 
-export default function RedeemPage({
+export const dynamic = "force-dynamic";
+
+export default async function RedeemPage({
   searchParams,
 }: {
-  searchParams: { token?: string };
+  searchParams: { token?: string } | Promise<{ token?: string }>;
 }) {
-  const token = searchParams.token || "";
+  const resolvedSearchParams = await Promise.resolve(searchParams);
+  const token = resolvedSearchParams?.token || "";
+  const { invite } = token ? await loadInviteByToken(token) : { invite: null };
+
+  if (!invite?.grant) {
+    return (
+      <main className="app-shell">
+        <h1>Claim your 7-day trial (Episode 1)</h1>
+        {!token ? (
+          <p>Missing token.</p>
+        ) : (
+          <>
+            <p>Step 1: Log in (magic link). Step 2: Click &quot;Claim trial&quot;.</p>
+            <div className="page-actions">
+              <Link href="/login">Log in</Link>
+              <form action="/redeem/claim" method="post">
+                <input type="hidden" name="token" value={token} />
+                <button type="submit">Claim trial</button>
+              </form>
+            </div>
+          </>
+        )}
+      </main>
+    );
+  }
+
+  const supa = await supabaseServer();
+  const { data: authData } = await supa.auth.getUser();
+  const label = await grantLabel(invite.grant);
 
   return (
     <main className="app-shell">
-      <h1>Claim your 7-day trial (Episode 1)</h1>
-      {!token ? (
-        <p>Missing token.</p>
+      <h1>You&apos;ve been sent a gift</h1>
+      <p>
+        {label}, {describeGrantDuration(invite.grant)}.
+      </p>
+      {invite.giftMessage && <p>&ldquo;{invite.giftMessage}&rdquo;</p>}
+      {invite.usedAt ? (
+        <p>This gift has already been claimed.</p>
+      ) : new Date(invite.expiresAt) <= new Date() ? (
+        <p>This gift link has expired.</p>
       ) : (
-        <>
-          <p>Step 1: Log in (magic link). Step 2: Click &quot;Claim trial&quot;.</p>
-          <div className="page-actions">
-            <Link href="/login">Log in</Link>
-            <form action="/redeem/claim" method="post">
-              <input type="hidden" name="token" value={token} />
-              <button type="submit">Claim trial</button>
-            </form>
-          </div>
-        </>
+        <div className="page-actions">
+          {!authData.user && <Link href="/login">Log in as {invite.email}</Link>}
+          <form action="/redeem/claim" method="post">
+            <input type="hidden" name="token" value={token} />
+            <button type="submit">Claim gift</button>
+          </form>
+        </div>
       )}
     </main>
   );
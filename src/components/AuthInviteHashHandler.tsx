@@ -23,12 +23,16 @@ export default function AuthInviteHashHandler() {
     const type = params.get("type");
     const accessToken = params.get("access_token");
     const refreshToken = params.get("refresh_token");
+    // Gift emails land on /redeem?token=...; keep the reader there once signed in.
+    const isRedeemLink = window.location.pathname === "/redeem";
     const nextPath =
-      type === "recovery"
-        ? "/login?mode=reset"
-        : type === "magiclink" || type === "signup"
-          ? "/login?mode=login"
-          : "/login";
+      isRedeemLink && type !== "recovery"
+        ? `${window.location.pathname}${window.location.search}`
+        : type === "recovery"
+          ? "/login?mode=reset"
+          : type === "magiclink" || type === "signup"
+            ? "/login?mode=login"
+            : "/login";
 
     if (!accessToken || !refreshToken) return;
     if (type !== "invite" && type !== "magiclink" && type !== "recovery" && type !== "signup") return;
@@ -0,0 +1,126 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { ModeratedClubNote } from "@/lib/reader/clubNotes";
+
+type ApiResult = {
+  notes?: ModeratedClubNote[];
+  error?: string;
+};
+
+export default function ClubNotesModeration() {
+  const [notes, setNotes] = useState<ModeratedClubNote[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadNotes() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/club-notes/moderation?ts=${Date.now()}`, { cache: "no-store" });
+        const payload = (await response.json()) as ApiResult;
+        if (!response.ok) {
+          throw new Error(payload.error || "Unable to load club notes.");
+        }
+        if (!cancelled) setNotes(payload.notes ?? []);
+      } catch (error: unknown) {
+        if (cancelled) return;
+        const message = error instanceof Error ? error.message : "Unable to load club notes.";
+        setStatus(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void loadNotes();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadToken]);
+
+  async function setHidden(note: ModeratedClubNote, hidden: boolean) {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/club-notes/moderation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: note.id, hidden }),
+      });
+      const payload = (await response.json()) as ApiResult;
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to update note.");
+      }
+      setStatus(hidden ? `Hid a note by ${note.authorName}.` : `Restored a note by ${note.authorName}.`);
+      setReloadToken((current) => current + 1);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unable to update note.";
+      setStatus(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="bookcase-admin-card device-layout-editor">
+      <h1>Club Notes</h1>
+      <p>Highlights members have shared with the club. Hidden notes stay with their author but leave the club layer.</p>
+
+      <div className="bookcase-editor-actions">
+        <button type="button" onClick={() => setReloadToken((current) => current + 1)} disabled={loading}>
+          {loading ? "Loading..." : "Refresh"}
+        </button>
+        <Link href="/bookcase/admin">Back to Admin</Link>
+      </div>
+
+      {status && <p className="bookcase-editor-hint">{status}</p>}
+
+      <div className="admin-table-scroll">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Member</th>
+              <th>Item</th>
+              <th>Passage</th>
+              <th>Note</th>
+              <th>Shared</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {notes.length === 0 && (
+              <tr>
+                <td colSpan={6}>{loading ? "Loading..." : "No shared notes yet."}</td>
+              </tr>
+            )}
+            {notes.map((note) => (
+              <tr key={note.id}>
+                <td>{note.authorName}</td>
+                <td>{note.itemLabel}</td>
+                <td>{note.quote.length > 160 ? `${note.quote.slice(0, 160)}...` : note.quote}</td>
+                <td>{note.note || "-"}</td>
+                <td>{note.createdAt ? new Date(note.createdAt).toLocaleDateString() : "-"}</td>
+                <td className="bookcase-editor-actions">
+                  {note.hiddenAt ? (
+                    <button type="button" onClick={() => void setHidden(note, false)} disabled={saving}>
+                      Restore
+                    </button>
+                  ) : (
+                    <button type="button" onClick={() => void setHidden(note, true)} disabled={saving}>
+                      Hide
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
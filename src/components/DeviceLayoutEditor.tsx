@@ -6,10 +6,15 @@ import {
   DEVICE_PROFILE_LABELS,
   type DeviceProfileKey,
 } from "@/lib/login/deviceLayout";
+import type { LayoutDraftAction, LayoutDraftState } from "@/lib/bookcase/layoutDrafts";
+import { layoutRevisionVars, type LayoutRevision } from "@/lib/bookcase/layoutRevisions";
+import LayoutDraftControls from "@/components/LayoutDraftControls";
+import LayoutHistoryPanel from "@/components/LayoutHistoryPanel";
 
 type ApiResult = {
   profile: DeviceProfileKey;
   vars: Record<string, string>;
+  draft?: LayoutDraftState | null;
   source?: string;
   warning?: string;
   error?: string;
@@ -163,6 +168,8 @@ export default function DeviceLayoutEditor() {
   const [status, setStatus] = useState<string | null>(null);
   const [dragState, setDragState] = useState<DragState | null>(null);
   const [reloadToken, setReloadToken] = useState(0);
+  const [historyToken, setHistoryToken] = useState(0);
+  const [draftState, setDraftState] = useState<LayoutDraftState | null>(null);
   const [selectedTarget, setSelectedTarget] = useState<BoxTarget>("left");
   const [showGuides, setShowGuides] = useState(true);
   const [snapToGuides, setSnapToGuides] = useState(false);
@@ -190,7 +197,7 @@ export default function DeviceLayoutEditor() {
       setLoading(true);
       setStatus(null);
       try {
-        const response = await fetch(`/api/device-layout?profile=${profile}&ts=${Date.now()}`, {
+        const response = await fetch(`/api/device-layout?profile=${profile}&draft=1&ts=${Date.now()}`, {
           cache: "no-store",
         });
         const payload = (await response.json()) as ApiResult;
@@ -200,11 +207,14 @@ export default function DeviceLayoutEditor() {
         if (cancelled) return;
         const nextVars = payload.vars || {};
         setVars(nextVars);
+        setDraftState(payload.draft ?? null);
         if (profile.startsWith("iphone-")) {
           setPhoneTextScaleBase(clamp(parseUnitless(nextVars["--login-phone-text-scale"], 1), 0.6, 3));
         }
         if (payload.warning) {
           setStatus(`Loaded defaults (${payload.warning}).`);
+        } else if (payload.source === "draft") {
+          setStatus("Loaded unpublished draft.");
         } else if (payload.source === "supabase") {
           setStatus("Loaded saved values.");
         } else {
@@ -652,7 +662,7 @@ export default function DeviceLayoutEditor() {
       const response = await fetch("/api/device-layout", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ profile, vars }),
+        body: JSON.stringify({ profile, vars, draft: true }),
       });
 
       const payload = (await response.json()) as ApiResult;
@@ -661,7 +671,8 @@ export default function DeviceLayoutEditor() {
       }
 
       setVars(payload.vars || vars);
-      setStatus("Saved.");
+      setDraftState(payload.draft ?? null);
+      setStatus("Draft saved. Publish it to update the login page.");
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Unable to save profile.";
       setStatus(message);
@@ -670,6 +681,23 @@ export default function DeviceLayoutEditor() {
     }
   }
 
+  function applyRevision(revision: LayoutRevision, message: string) {
+    const nextVars = layoutRevisionVars(revision.layout);
+    setVars(nextVars);
+    if (profile.startsWith("iphone-")) {
+      setPhoneTextScaleBase(clamp(parseUnitless(nextVars["--login-phone-text-scale"], 1), 0.6, 3));
+    }
+    setStatus(message);
+  }
+
+  function onDraftChange(next: LayoutDraftState | null, action: LayoutDraftAction) {
+    setDraftState(next);
+    if (action === "publish") setHistoryToken((current) => current + 1);
+    if (action === "discard") setReloadToken((current) => current + 1);
+  }
+
+  const historyLayout = useMemo(() => ({ vars }), [vars]);
+
   const popupBoxStyle = {
     left: `${popupLeft}%`,
     top: `${popupTop}%`,
@@ -1101,7 +1129,7 @@ export default function DeviceLayoutEditor() {
 
         <div className="bookcase-editor-actions">
           <button type="button" onClick={() => void saveLayout()} disabled={loading || saving}>
-            {saving ? "Saving..." : "Save Device Layout"}
+            {saving ? "Saving..." : "Save Draft"}
           </button>
           <button type="button" onClick={() => setReloadToken((current) => current + 1)} disabled={loading || saving}>
             Reload Profile
@@ -1147,6 +1175,26 @@ export default function DeviceLayoutEditor() {
           <p className="bookcase-editor-hint">Arrow keys nudge selection. Hold Shift for faster, Alt for fine.</p>
         </div>
 
+        <LayoutDraftControls
+          key={`draft-${profile}`}
+          table="device_layout_profiles"
+          rowKey={profile}
+          draft={draftState}
+          disabled={loading || saving}
+          onChange={onDraftChange}
+        />
+
+        <LayoutHistoryPanel
+          key={profile}
+          table="device_layout_profiles"
+          rowKey={profile}
+          current={historyLayout}
+          refreshToken={historyToken}
+          disabled={loading || saving}
+          onPreview={(revision) => applyRevision(revision, "Previewing revision. Save Draft to keep it.")}
+          onRestored={(revision) => applyRevision(revision, "Revision restored to the published layout.")}
+        />
+
         {status && <p className="bookcase-editor-hint">{status}</p>}
       </div>
 
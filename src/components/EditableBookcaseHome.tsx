@@ -7,15 +7,21 @@ import { useEffect, useMemo, useRef, useState, type CSSProperties, type TouchEve
 import {
   BOOKCASE_HOME_PROFILE_KEYS,
   BOOKCASE_HOME_PROFILE_LABELS,
+  bookcaseHomeProfileRowKey,
   isBookcaseHomeProfileKey,
   type BookcaseHomeProfileKey,
 } from "@/lib/bookcase/homeDeviceLayout";
+import type { LayoutDraftAction, LayoutDraftState } from "@/lib/bookcase/layoutDrafts";
+import { layoutRevisionVars, type LayoutRevision } from "@/lib/bookcase/layoutRevisions";
+import LayoutDraftControls from "@/components/LayoutDraftControls";
+import LayoutHistoryPanel from "@/components/LayoutHistoryPanel";
 
 const caveat = Caveat({ subsets: ["latin"], weight: ["600", "700"] });
 
 type ApiResult = {
   profile?: BookcaseHomeProfileKey;
   vars?: Record<string, string>;
+  draft?: LayoutDraftState | null;
   source?: string;
   warning?: string;
   error?: string;
@@ -111,6 +117,8 @@ export default function EditableBookcaseHome() {
   const [panelPosition, setPanelPosition] = useState({ x: 12, y: 12 });
   const [panelDragState, setPanelDragState] = useState<PanelDragState | null>(null);
   const [reloadToken, setReloadToken] = useState(0);
+  const [historyToken, setHistoryToken] = useState(0);
+  const [draftState, setDraftState] = useState<LayoutDraftState | null>(null);
   const stageRef = useRef<HTMLDivElement | null>(null);
   const panelRef = useRef<HTMLElement | null>(null);
 
@@ -181,7 +189,9 @@ export default function EditableBookcaseHome() {
       setLoading(true);
       setStatus(null);
       try {
-        const response = await fetch(`/api/bookcase-home-layout?profile=${profile}&ts=${Date.now()}`, {
+        // Edit mode works on the draft, which doubles as the admin's preview.
+        const draftQuery = editMode ? "&draft=1" : "";
+        const response = await fetch(`/api/bookcase-home-layout?profile=${profile}${draftQuery}&ts=${Date.now()}`, {
           cache: "no-store",
         });
         const payload = (await response.json()) as ApiResult;
@@ -190,8 +200,11 @@ export default function EditableBookcaseHome() {
         }
         if (cancelled) return;
         setVars(payload.vars || {});
+        setDraftState(payload.draft ?? null);
         if (payload.warning) {
           setStatus(`Loaded defaults (${payload.warning}).`);
+        } else if (payload.source === "draft") {
+          setStatus("Loaded unpublished draft.");
         } else if (payload.source === "supabase") {
           setStatus("Loaded saved values.");
         } else {
@@ -210,7 +223,7 @@ export default function EditableBookcaseHome() {
     return () => {
       cancelled = true;
     };
-  }, [profile, reloadToken]);
+  }, [editMode, profile, reloadToken]);
 
   const bgSizeX = parsePercent(vars["--bookcase-bg-size-x"], isPhoneProfile(profile) ? 170 : 100);
   const bgSizeY = parsePercent(vars["--bookcase-bg-size-y"], 100);
@@ -503,14 +516,15 @@ export default function EditableBookcaseHome() {
       const response = await fetch("/api/bookcase-home-layout", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ profile, vars }),
+        body: JSON.stringify({ profile, vars, draft: true }),
       });
       const payload = (await response.json()) as ApiResult;
       if (!response.ok) {
         throw new Error(payload.error || "Unable to save layout.");
       }
       setVars(payload.vars || vars);
-      setStatus("Saved.");
+      setDraftState(payload.draft ?? null);
+      setStatus("Draft saved.");
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Unable to save layout.";
       setStatus(message);
@@ -519,6 +533,17 @@ export default function EditableBookcaseHome() {
     }
   }
 
+  function onDraftChange(next: LayoutDraftState | null, action: LayoutDraftAction) {
+    setDraftState(next);
+    if (action === "publish") setHistoryToken((current) => current + 1);
+    if (action === "discard") setReloadToken((current) => current + 1);
+  }
+
+  function applyRevision(revision: LayoutRevision, message: string) {
+    setVars(layoutRevisionVars(revision.layout));
+    setStatus(message);
+  }
+
   function onProfileChange(next: BookcaseHomeProfileKey) {
     setProfile(next);
     const params = new URLSearchParams(searchParams.toString());
@@ -530,6 +555,8 @@ export default function EditableBookcaseHome() {
     return `clamp(0.94rem, ${(3.8 * scale).toFixed(2)}vw, ${(3.6 * scale).toFixed(2)}rem)`;
   }
 
+  const historyLayout = useMemo(() => ({ vars }), [vars]);
+
   const sceneStyle: CSSProperties = useMemo(
     () => ({
       backgroundSize: `${bgSizeX}% ${bgSizeY}%`,
@@ -674,7 +701,7 @@ export default function EditableBookcaseHome() {
 
             <div className="bookcase-editor-actions">
               <button type="button" onClick={() => void saveLayout()} disabled={loading || saving}>
-                {saving ? "Saving..." : "Save"}
+                {saving ? "Saving..." : "Save Draft"}
               </button>
               <button
                 type="button"
@@ -687,6 +714,24 @@ export default function EditableBookcaseHome() {
             <p className="bookcase-editor-hint">
               Drag either text box and resize from the corner. Selected: {selectedBox}.
             </p>
+            <LayoutDraftControls
+              key={`draft-${profile}`}
+              table="device_layout_profiles"
+              rowKey={bookcaseHomeProfileRowKey(profile)}
+              draft={draftState}
+              disabled={loading || saving}
+              onChange={onDraftChange}
+            />
+            <LayoutHistoryPanel
+              key={profile}
+              table="device_layout_profiles"
+              rowKey={bookcaseHomeProfileRowKey(profile)}
+              current={historyLayout}
+              refreshToken={historyToken}
+              disabled={loading || saving}
+              onPreview={(revision) => applyRevision(revision, "Previewing revision. Save Draft to keep it.")}
+              onRestored={(revision) => applyRevision(revision, "Revision restored to the published layout.")}
+            />
             {status && <p className="bookcase-home-editor-status">{status}</p>}
           </aside>
         )}
@@ -12,15 +12,33 @@ import {
   useState,
 } from "react";
 import { bookcaseLabelForKey, normalizeBookcaseKey } from "@/lib/bookcase/pageKey";
+import {
+  BOOKS_PER_SHELF_ROW,
+  DEFAULT_SHELF_ROWS,
+  MAX_SHELF_ROWS,
+  MIN_SHELF_ROWS,
+  bookcaseContinuationKey,
+  normalizeShelfRows,
+  shelfCapacity,
+  shelfSlotPosition,
+} from "@/lib/bookcase/shelfLayout";
 import {
   BOOKCASE_SHELF_NAV_PROFILE_KEYS,
   BOOKCASE_SHELF_NAV_PROFILE_LABELS,
+  bookcaseBooksProfileRowKey,
+  bookcaseShelfNavProfileRowKey,
   isBookcaseShelfNavProfileKey,
   type BookcaseShelfNavProfileKey,
 } from "@/lib/bookcase/shelfNavDeviceLayout";
+import type { LayoutDraftAction, LayoutDraftState } from "@/lib/bookcase/layoutDrafts";
+import type { CatalogBook } from "@/lib/bookcase/bookCatalog";
+import { layoutRevisionVars, type LayoutRevision } from "@/lib/bookcase/layoutRevisions";
+import LayoutDraftControls from "@/components/LayoutDraftControls";
+import LayoutHistoryPanel from "@/components/LayoutHistoryPanel";
 
 type BookItem = {
   key: string;
+  bookId: string;
   xPercent: number;
   yPercent: number;
   widthPercent: number;
@@ -44,8 +62,10 @@ type BookItem = {
   infoPageMediaType: string;
   fullBookMediaUrl: string;
   fullBookMediaType: string;
+  fullBookMediaPath: string;
   fullBookHideFirstPages: number;
   fullBookMaxPages: number;
+  fullBookPricePence: number;
 };
 
 type TargetPathOption = {
@@ -86,6 +106,7 @@ type FrontTemplates = {
 type Layout = {
   books: BookItem[];
   frontTemplates: FrontTemplates;
+  shelfRows: number;
 };
 type ResizeCorner = "nw" | "ne" | "sw" | "se";
 type FrontActionSlot = "sample" | "info";
@@ -221,6 +242,7 @@ type Props = {
 type ShelfNavApiResult = {
   profile?: BookcaseShelfNavProfileKey;
   vars?: Record<string, string>;
+  draft?: LayoutDraftState | null;
   source?: string;
   warning?: string;
   error?: string;
@@ -231,12 +253,22 @@ type BookLayoutApiResult = {
   layout?: {
     books?: unknown;
     frontTemplates?: unknown;
+    shelfRows?: unknown;
   };
+  overflowPages?: string[];
+  updatedAt?: string | null;
+  draft?: LayoutDraftState | null;
+  conflict?: boolean;
   source?: string;
   warning?: string;
   error?: string;
 };
 
+type SaveConflict = {
+  layout: Layout;
+  updatedAt: string | null;
+};
+
 type FrontViewport = {
   aspect: number;
   stageWidthPercent: number;
@@ -250,9 +282,7 @@ const MIN_WIDTH_PERCENT = 4;
 const MIN_HEIGHT_PERCENT = 8;
 const MAX_WIDTH_PERCENT = 40;
 const MAX_HEIGHT_PERCENT = 82;
-const MAX_BOOKS = 8;
-const PRESET_BOOK_WIDTH = 14.67;
-const PRESET_BOOK_HEIGHT = 73.59;
+const MAX_BOOK_PRICE_PENCE = 100000;
 const MIN_TITLE_BOX_WIDTH = 20;
 const MIN_TITLE_BOX_HEIGHT = 6;
 const MIN_FRONT_WIDTH = 16;
@@ -295,6 +325,10 @@ const DEFAULT_ADMIN_LOGO = {
   widthPercent: 10,
   heightPercent: 10,
 } as const;
+const SHELF_ROW_OPTIONS = Array.from(
+  { length: MAX_SHELF_ROWS - MIN_SHELF_ROWS + 1 },
+  (_, index) => MIN_SHELF_ROWS + index
+);
 const EDITOR_WIDTH = 220;
 const EDITOR_HEIGHT = 360;
 const EDITOR_MARGIN = 6;
@@ -387,21 +421,11 @@ function targetPathOptions(currentPath: string, baseOptions: TargetPathOption[])
   return [{ value: currentPath, label: `Custom: ${currentPath}` }, ...baseOptions];
 }
 
-function defaultBookByIndex(pageKey: string, index: number): BookItem {
-  const slot = clamp(index, 0, MAX_BOOKS - 1);
-  const halfWidth = PRESET_BOOK_WIDTH / 2;
-  const minX = halfWidth;
-  const maxX = 100 - halfWidth;
-  const xStep = MAX_BOOKS > 1 ? (maxX - minX) / (MAX_BOOKS - 1) : 0;
-  const x = minX + slot * xStep;
-  const y = 63;
-
+function defaultBookByIndex(pageKey: string, index: number, shelfRows: number): BookItem {
   return {
     key: `book-${index + 1}`,
-    xPercent: Number(x.toFixed(2)),
-    yPercent: Number(y.toFixed(2)),
-    widthPercent: PRESET_BOOK_WIDTH,
-    heightPercent: PRESET_BOOK_HEIGHT,
+    bookId: "",
+    ...shelfSlotPosition(index, shelfRows),
     label: "",
     targetPath: defaultTargetPath(pageKey),
     spineType: index % 2 === 0 ? "gold" : "brown",
@@ -421,8 +445,10 @@ function defaultBookByIndex(pageKey: string, index: number): BookItem {
     infoPageMediaType: "",
     fullBookMediaUrl: "",
     fullBookMediaType: "",
+    fullBookMediaPath: "",
     fullBookHideFirstPages: 0,
     fullBookMaxPages: 0,
+    fullBookPricePence: 0,
   };
 }
 
@@ -550,7 +576,7 @@ function defaultFrontTemplates(): FrontTemplates {
 }
 
 function defaultLayout(pageKey: string): Layout {
-  return { books: defaultBooks(pageKey), frontTemplates: defaultFrontTemplates() };
+  return { books: defaultBooks(pageKey), frontTemplates: defaultFrontTemplates(), shelfRows: DEFAULT_SHELF_ROWS };
 }
 
 function normalizeBook(raw: unknown, fallback: BookItem): BookItem {
@@ -591,8 +617,11 @@ function normalizeBook(raw: unknown, fallback: BookItem): BookItem {
     typeof row.fullBookMediaUrl === "string" ? row.fullBookMediaUrl.trim() : fallback.fullBookMediaUrl;
   const fullBookMediaTypeRaw =
     typeof row.fullBookMediaType === "string" ? row.fullBookMediaType.trim() : fallback.fullBookMediaType;
+  const fullBookMediaPathRaw =
+    typeof row.fullBookMediaPath === "string" ? row.fullBookMediaPath.trim() : fallback.fullBookMediaPath;
   const fullBookHideFirstPagesRaw = Number(row.fullBookHideFirstPages);
   const fullBookMaxPagesRaw = Number(row.fullBookMaxPages);
+  const fullBookPricePenceRaw = Number(row.fullBookPricePence);
   const normalizedLabel = isSlotPlaceholderLabel(labelRaw, keyRaw || fallback.key) ? "" : labelRaw;
 
   const width = Number.isFinite(Number(row.widthPercent))
@@ -624,6 +653,7 @@ function normalizeBook(raw: unknown, fallback: BookItem): BookItem {
 
   return {
     key: keyRaw || fallback.key,
+    bookId: typeof row.bookId === "string" ? row.bookId.trim() : fallback.bookId,
     xPercent: Number(x.toFixed(2)),
     yPercent: Number(y.toFixed(2)),
     widthPercent: Number(width.toFixed(2)),
@@ -647,10 +677,14 @@ function normalizeBook(raw: unknown, fallback: BookItem): BookItem {
     infoPageMediaType: infoPageMediaTypeRaw,
     fullBookMediaUrl: fullBookMediaUrlRaw,
     fullBookMediaType: fullBookMediaTypeRaw,
+    fullBookMediaPath: fullBookMediaPathRaw,
     fullBookHideFirstPages: Number.isFinite(fullBookHideFirstPagesRaw)
       ? clamp(Math.round(fullBookHideFirstPagesRaw), 0, 5000)
       : fallback.fullBookHideFirstPages,
     fullBookMaxPages: Number.isFinite(fullBookMaxPagesRaw) ? clamp(Math.round(fullBookMaxPagesRaw), 0, 5000) : fallback.fullBookMaxPages,
+    fullBookPricePence: Number.isFinite(fullBookPricePenceRaw)
+      ? clamp(Math.round(fullBookPricePenceRaw), 0, MAX_BOOK_PRICE_PENCE)
+      : fallback.fullBookPricePence,
   };
 }
 
@@ -696,20 +730,38 @@ function normalizeFrontTemplates(raw: unknown): FrontTemplates {
 
 function normalizeLayout(raw: unknown, pageKey: string): Layout {
   if (!raw || typeof raw !== "object") {
-    return { books: [], frontTemplates: defaultFrontTemplates() };
+    return { books: [], frontTemplates: defaultFrontTemplates(), shelfRows: DEFAULT_SHELF_ROWS };
   }
 
   const row = raw as Record<string, unknown>;
+  const shelfRows = normalizeShelfRows(row.shelfRows);
   const rawBooks = Array.isArray(row.books) ? row.books : [];
-  if (rawBooks.length === 0) {
-    return { books: [], frontTemplates: normalizeFrontTemplates(row.frontTemplates) };
-  }
+  const normalized = rawBooks.map((item, index) => normalizeBook(item, defaultBookByIndex(pageKey, index, shelfRows)));
 
-  const normalized = rawBooks
-    .slice(0, MAX_BOOKS)
-    .map((item, index) => normalizeBook(item, defaultBookByIndex(pageKey, index)));
+  return { books: normalized, frontTemplates: normalizeFrontTemplates(row.frontTemplates), shelfRows };
+}
 
-  return { books: normalized, frontTemplates: normalizeFrontTemplates(row.frontTemplates) };
+// Three-way merge by book key: books the editor added, changed or deleted since loading win,
+// everything else comes from the newer saved layout.
+function mergeLayouts(base: Layout, mine: Layout, theirs: Layout): Layout {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const baseByKey = new Map(base.books.map((book) => [book.key, book]));
+  const mineKeys = new Set(mine.books.map((book) => book.key));
+  const books = theirs.books.filter((book) => mineKeys.has(book.key) || !baseByKey.has(book.key));
+
+  for (const book of mine.books) {
+    const original = baseByKey.get(book.key);
+    if (original && same(original, book)) continue;
+    const index = books.findIndex((item) => item.key === book.key);
+    if (index >= 0) books[index] = book;
+    else books.push(book);
+  }
+
+  return {
+    books,
+    frontTemplates: same(base.frontTemplates, mine.frontTemplates) ? theirs.frontTemplates : mine.frontTemplates,
+    shelfRows: base.shelfRows === mine.shelfRows ? theirs.shelfRows : mine.shelfRows,
+  };
 }
 
 function nextBookKey(books: BookItem[]) {
@@ -734,7 +786,7 @@ function hasReaderContent(book: BookItem, slot: ReaderSlot) {
     return Boolean(book.readerSampleText.trim() || book.readerSampleMediaUrl.trim());
   }
   if (slot === "full") {
-    return Boolean(book.fullBookMediaUrl.trim());
+    return Boolean(book.fullBookMediaPath.trim());
   }
   return Boolean(book.infoPageText.trim() || book.infoPageMediaUrl.trim());
 }
@@ -792,6 +844,11 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
 
   const [layout, setLayout] = useState<Layout>(() => defaultLayout(pageKey));
   const [draft, setDraft] = useState<Layout>(() => defaultLayout(pageKey));
+  // updated_at of the saved layout the editor started from; undefined when unknown.
+  const [layoutUpdatedAt, setLayoutUpdatedAt] = useState<string | null | undefined>(undefined);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [booksDraftState, setBooksDraftState] = useState<LayoutDraftState | null>(null);
+  const [booksReloadToken, setBooksReloadToken] = useState(0);
   const [loading, setLoading] = useState(true);
   const [status, setStatus] = useState("");
   const [activeKey, setActiveKey] = useState<string>("");
@@ -803,6 +860,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
   const [pendingBookcaseKey, setPendingBookcaseKey] = useState("");
   const [creatingBookcase, setCreatingBookcase] = useState(false);
   const [bookcasePathOptions, setBookcasePathOptions] = useState<TargetPathOption[]>([]);
+  const [catalogBooks, setCatalogBooks] = useState<CatalogBook[]>([]);
   const [selectedBookForPreview, setSelectedBookForPreview] = useState<string>("");
   const [previewAnchorRect, setPreviewAnchorRect] = useState<{
     left: number;
@@ -818,6 +876,12 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
   const [navSaving, setNavSaving] = useState(false);
   const [navStatus, setNavStatus] = useState<string | null>(null);
   const [navReloadToken, setNavReloadToken] = useState(0);
+  const [navHistoryToken, setNavHistoryToken] = useState(0);
+  const [navDraftState, setNavDraftState] = useState<LayoutDraftState | null>(null);
+  const [historyToken, setHistoryToken] = useState(0);
+  const [catalogToken, setCatalogToken] = useState(0);
+
+  const navHistoryLayout = useMemo(() => ({ vars: navVars }), [navVars]);
 
   const activeBook = useMemo(() => {
     if (draft.books.length === 0) return null;
@@ -1031,17 +1095,22 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       setNavLoading(true);
       setNavStatus(null);
       try {
-        const response = await fetch(`/api/bookcase-shelf-nav-layout?profile=${navProfile}&ts=${Date.now()}`, {
-          cache: "no-store",
-        });
+        const draftQuery = editMode ? "&draft=1" : "";
+        const response = await fetch(
+          `/api/bookcase-shelf-nav-layout?profile=${navProfile}${draftQuery}&ts=${Date.now()}`,
+          { cache: "no-store" }
+        );
         const payload = (await response.json()) as ShelfNavApiResult;
         if (!response.ok) {
           throw new Error(payload.error || "Unable to load arrow layout.");
         }
         if (cancelled) return;
         setNavVars(payload.vars || {});
+        setNavDraftState(payload.draft ?? null);
         if (payload.warning) {
           setNavStatus(`Loaded defaults (${payload.warning}).`);
+        } else if (payload.source === "draft") {
+          setNavStatus("Arrow draft loaded.");
         } else if (payload.source === "supabase") {
           setNavStatus("Arrow layout loaded.");
         } else {
@@ -1060,7 +1129,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
     return () => {
       cancelled = true;
     };
-  }, [navProfile, navReloadToken]);
+  }, [editMode, navProfile, navReloadToken]);
 
   useEffect(() => {
     const next: Record<string, string> = {};
@@ -1198,19 +1267,45 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
     };
   }, []);
 
+  // Book details go to the shared catalogue on every save, draft or not, so each save refreshes the list.
+  useEffect(() => {
+    if (!editMode || !isAdmin) return;
+    let cancelled = false;
+    async function loadCatalogBooks() {
+      try {
+        const response = await fetch(`/api/books?ts=${Date.now()}`, { cache: "no-store" });
+        const data = (await response.json()) as { books?: CatalogBook[] };
+        if (!cancelled) setCatalogBooks(response.ok && Array.isArray(data.books) ? data.books : []);
+      } catch {
+        if (!cancelled) setCatalogBooks([]);
+      }
+    }
+
+    void loadCatalogBooks();
+    return () => {
+      cancelled = true;
+    };
+  }, [editMode, isAdmin, catalogToken]);
+
   useEffect(() => {
     const fallback = defaultLayout(pageKey);
     setLayout(fallback);
     setDraft(fallback);
+    setLayoutUpdatedAt(undefined);
+    setSaveConflict(null);
+    setBooksDraftState(null);
     setActiveKey("");
     setLoading(true);
 
     let cancelled = false;
     async function load() {
       try {
-        const response = await fetch(`/api/bookcase-book-layout?page=${pageKey}&profile=${navProfile}&ts=${Date.now()}`, {
-          cache: "no-store",
-        });
+        // Edit mode works on the draft, which doubles as the admin's preview of the shelf.
+        const draftQuery = editMode ? "&draft=1" : "";
+        const response = await fetch(
+          `/api/bookcase-book-layout?page=${pageKey}&profile=${navProfile}${draftQuery}&ts=${Date.now()}`,
+          { cache: "no-store" }
+        );
         const data = (await response.json()) as BookLayoutApiResult;
         const normalized = normalizeLayout(
           data && typeof data === "object" ? (data.layout as unknown) : null,
@@ -1220,6 +1315,8 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
         if (!cancelled) {
           setLayout(normalized);
           setDraft(normalized);
+          setLayoutUpdatedAt(response.ok && data.updatedAt !== undefined ? data.updatedAt : undefined);
+          setBooksDraftState(data.draft ?? null);
           setActiveKey(normalized.books[0]?.key ?? "");
           if (data.warning) {
             setStatus(`Loaded ${BOOKCASE_SHELF_NAV_PROFILE_LABELS[navProfile]} with fallback values.`);
@@ -1236,7 +1333,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
     return () => {
       cancelled = true;
     };
-  }, [navProfile, pageKey]);
+  }, [booksReloadToken, editMode, navProfile, pageKey]);
 
   useEffect(() => {
     setEditorFormPage(1);
@@ -1346,7 +1443,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           const clampedY = clamp(y, clampedHeight / 2, 100 - clampedHeight / 2);
 
           return {
-            books: prev.books,
+            ...prev,
             frontTemplates: {
               ...prev.frontTemplates,
               adminLogo: normalizeAdminLogo(
@@ -1430,7 +1527,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           );
 
           return {
-            books: prev.books,
+            ...prev,
             frontTemplates: {
               ...prev.frontTemplates,
               [frontActionCurrent.templateType]: updatedTemplate,
@@ -1501,7 +1598,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           );
 
           return {
-            books: prev.books,
+            ...prev,
             frontTemplates: {
               ...prev.frontTemplates,
               [coverWindowCurrent.templateType]: updatedTemplate,
@@ -1573,7 +1670,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           );
 
           return {
-            books: prev.books,
+            ...prev,
             frontTemplates: {
               ...prev.frontTemplates,
               [frontCurrent.templateType]: updatedTemplate,
@@ -1642,7 +1739,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
             };
           });
 
-          return { books: updated, frontTemplates: prev.frontTemplates };
+          return { ...prev, books: updated };
         });
       }
 
@@ -1711,7 +1808,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           return normalizeBook(next, book);
         });
 
-        return { books: updated, frontTemplates: prev.frontTemplates };
+        return { ...prev, books: updated };
       });
     }
 
@@ -1838,19 +1935,20 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       const response = await fetch("/api/bookcase-shelf-nav-layout", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ profile: navProfile, vars: navVars }),
+        body: JSON.stringify({ profile: navProfile, vars: navVars, draft: true }),
       });
       const payload = (await response.json()) as ShelfNavApiResult;
       if (!response.ok) {
         throw new Error(payload.error || "Unable to save arrow layout.");
       }
       setNavVars(payload.vars || navVars);
+      setNavDraftState(payload.draft ?? null);
       if (target === "back") {
-        setNavStatus("Back arrow saved.");
+        setNavStatus("Back arrow saved to draft.");
       } else if (target === "next") {
-        setNavStatus("Next arrow saved.");
+        setNavStatus("Next arrow saved to draft.");
       } else {
-        setNavStatus("Arrow layout saved.");
+        setNavStatus("Arrow layout saved to draft.");
       }
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Unable to save arrow layout.";
@@ -1869,10 +1967,10 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
 
   function updateBook(key: string, updates: Partial<BookItem>) {
     setDraft((prev) => ({
+      ...prev,
       books: prev.books.map((book) =>
         book.key === key ? normalizeBook({ ...book, ...updates }, book) : book
       ),
-      frontTemplates: prev.frontTemplates,
     }));
   }
 
@@ -2160,7 +2258,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
 
   function updateAdminLogo(updates: Partial<AdminLogoTemplate>) {
     setDraft((prev) => ({
-      books: prev.books,
+      ...prev,
       frontTemplates: {
         ...prev.frontTemplates,
         adminLogo: normalizeAdminLogo(
@@ -2199,7 +2297,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       canvasRect: { width: rect.width, height: rect.height },
     };
     event.currentTarget.setPointerCapture(event.pointerId);
-    setStatus("Admin logo moved. Click Save Books to persist.");
+    setStatus("Admin logo moved. Click Save Draft to persist.");
   }
 
   function startAdminLogoResize(corner: ResizeCorner, event: ReactPointerEvent<HTMLButtonElement>) {
@@ -2231,7 +2329,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       canvasRect: { width: rect.width, height: rect.height },
     };
     event.currentTarget.setPointerCapture(event.pointerId);
-    setStatus("Admin logo resized. Click Save Books to persist.");
+    setStatus("Admin logo resized. Click Save Draft to persist.");
   }
 
   function applyCoverWindow(
@@ -2250,7 +2348,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       );
 
       return {
-        books: prev.books,
+        ...prev,
         frontTemplates: {
           ...prev.frontTemplates,
           [templateType]: updatedTemplate,
@@ -2261,7 +2359,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
   }
 
   function resetCoverWindow(templateType: "gold" | "brown") {
-    applyCoverWindow(templateType, { ...DEFAULT_COVER_WINDOW }, "Cover window reset. Click Save Books to persist.");
+    applyCoverWindow(templateType, { ...DEFAULT_COVER_WINDOW }, "Cover window reset. Click Save Draft to persist.");
   }
 
   function fillCoverWindow(templateType: "gold" | "brown") {
@@ -2273,7 +2371,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
         widthPercent: MAX_COVER_WINDOW_PERCENT,
         heightPercent: MAX_COVER_WINDOW_PERCENT,
       },
-      "Cover window expanded to frame. Click Save Books to persist."
+      "Cover window expanded to frame. Click Save Draft to persist."
     );
   }
 
@@ -2312,7 +2410,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       }
 
       updateBook(key, { coverImageUrl: url });
-      setStatus("Cover uploaded. Click Save Books to persist.");
+      setStatus("Cover uploaded. Click Save Draft to persist.");
     } catch {
       setStatus("Upload failed.");
     }
@@ -2347,12 +2445,17 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
         data && typeof data === "object" && typeof (data as Record<string, unknown>).url === "string"
           ? String((data as Record<string, unknown>).url)
           : "";
+      const path =
+        data && typeof data === "object" && typeof (data as Record<string, unknown>).path === "string"
+          ? String((data as Record<string, unknown>).path)
+          : "";
       const contentType =
         data && typeof data === "object" && typeof (data as Record<string, unknown>).contentType === "string"
           ? String((data as Record<string, unknown>).contentType)
           : file.type;
 
-      if (!url) {
+      // Full books upload to a private bucket, so only a storage path comes back.
+      if (slot === "full" ? !path : !url) {
         setStatus("Upload did not return a media URL.");
         return;
       }
@@ -2369,19 +2472,20 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
         });
       } else {
         updateBook(key, {
-          fullBookMediaUrl: url,
+          fullBookMediaUrl: "",
+          fullBookMediaPath: path,
           fullBookMediaType: contentType,
         });
       }
 
       const slotLabel = slot === "sample" ? "Reader sample" : slot === "info" ? "Information page" : "Full book";
-      setStatus(`${slotLabel} media uploaded. Click Save Books to persist.`);
+      setStatus(`${slotLabel} media uploaded. Click Save Draft to persist.`);
     } catch {
       setStatus("Upload failed.");
     }
   }
 
-  async function saveLayout() {
+  async function saveLayout(expectedUpdatedAt = layoutUpdatedAt) {
     setStatus("Saving...");
     try {
       const booksToSave = draft.books
@@ -2390,17 +2494,35 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
             ...book,
             label: isSlotPlaceholderLabel(book.label, book.key) ? "" : book.label,
           };
-          return normalizeBook(nextBook, defaultBookByIndex(pageKey, index));
+          return normalizeBook(nextBook, defaultBookByIndex(pageKey, index, draft.shelfRows));
         });
       const frontTemplatesToSave = normalizeFrontTemplates(draft.frontTemplates);
 
       const response = await fetch("/api/bookcase-book-layout", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ pageKey, profile: navProfile, books: booksToSave, frontTemplates: frontTemplatesToSave }),
+        body: JSON.stringify({
+          pageKey,
+          profile: navProfile,
+          books: booksToSave,
+          frontTemplates: frontTemplatesToSave,
+          shelfRows: draft.shelfRows,
+          expectedUpdatedAt,
+          draft: true,
+        }),
       });
 
       const data: unknown = await response.json();
+      const result = data && typeof data === "object" ? (data as BookLayoutApiResult) : {};
+      if (response.status === 409 && result.conflict) {
+        setSaveConflict({
+          layout: normalizeLayout(result.layout, pageKey),
+          updatedAt: typeof result.updatedAt === "string" ? result.updatedAt : null,
+        });
+        setBooksDraftState(result.draft ?? null);
+        setStatus(result.error || "This shelf changed since you loaded it.");
+        return;
+      }
       if (!response.ok) {
         const message =
           data &&
@@ -2416,10 +2538,25 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
         data && typeof data === "object" ? (data as Record<string, unknown>).layout : null,
         pageKey
       );
+      // Books that could not be moved to a continuation page come back in the layout for the next save.
+      const movedTo = (result.overflowPages ?? []).map(bookcaseLabelForKey);
       setLayout(normalized);
       setDraft(normalized);
+      setLayoutUpdatedAt(typeof result.updatedAt === "string" ? result.updatedAt : undefined);
+      setSaveConflict(null);
+      setBooksDraftState(result.draft ?? null);
       setActiveKey(normalized.books[0]?.key ?? "");
-      setStatus(`Saved for ${BOOKCASE_SHELF_NAV_PROFILE_LABELS[navProfile]}.`);
+      setStatus(
+        [
+          `Draft saved for ${BOOKCASE_SHELF_NAV_PROFILE_LABELS[navProfile]}.`,
+          movedTo.length > 0
+            ? `Books past this shelf moved to ${movedTo.join(", ")}; they go live when this draft is published.`
+            : "",
+          result.warning ?? "",
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
     } catch {
       setStatus("Unable to save books.");
     }
@@ -2456,6 +2593,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           sourcePageKey: pageKey,
           templateBooks: draft.books,
           templateFrontTemplates: normalizeFrontTemplates(draft.frontTemplates),
+          templateShelfRows: draft.shelfRows,
         }),
       });
       const data: unknown = await response.json();
@@ -2489,6 +2627,73 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
     }
   }
 
+  function onNavDraftChange(next: LayoutDraftState | null, action: LayoutDraftAction) {
+    setNavDraftState(next);
+    if (action === "publish") setNavHistoryToken((current) => current + 1);
+    if (action === "discard") setNavReloadToken((current) => current + 1);
+  }
+
+  // Scheduling touches the draft row, so the next save has to expect its new updated_at.
+  function onBooksDraftChange(next: LayoutDraftState | null, action: LayoutDraftAction) {
+    setBooksDraftState(next);
+    setLayoutUpdatedAt(next ? next.updatedAt : null);
+    if (action === "publish") {
+      setHistoryToken((current) => current + 1);
+      // Publishing writes the draft's book details to the shared catalogue.
+      setCatalogToken((current) => current + 1);
+    }
+    if (action === "discard") setBooksReloadToken((current) => current + 1);
+  }
+
+  function applyNavRevision(revision: LayoutRevision, message: string) {
+    setNavVars(layoutRevisionVars(revision.layout));
+    setNavStatus(message);
+  }
+
+  function keepActiveKey(next: Layout) {
+    setActiveKey((current) => (next.books.some((book) => book.key === current) ? current : next.books[0]?.key ?? ""));
+  }
+
+  function mergeConflict() {
+    if (!saveConflict) return;
+    const merged = mergeLayouts(layout, draft, saveConflict.layout);
+    setLayout(saveConflict.layout);
+    setDraft(merged);
+    setLayoutUpdatedAt(saveConflict.updatedAt);
+    setSaveConflict(null);
+    keepActiveKey(merged);
+    setStatus("Merged your changes into the latest layout. Review, then Save Draft.");
+  }
+
+  function overwriteConflict() {
+    if (!saveConflict) return;
+    setSaveConflict(null);
+    void saveLayout(saveConflict.updatedAt);
+  }
+
+  function reloadConflict() {
+    if (!saveConflict) return;
+    setLayout(saveConflict.layout);
+    setDraft(saveConflict.layout);
+    setLayoutUpdatedAt(saveConflict.updatedAt);
+    setSaveConflict(null);
+    keepActiveKey(saveConflict.layout);
+    setStatus("Loaded the latest saved layout.");
+  }
+
+  // Restores write the published layout, not the saved draft, so both cases only load the revision
+  // into the editor and Reset still returns to the last saved draft.
+  function applyBooksRevision(revision: LayoutRevision, restored: boolean) {
+    const normalized = normalizeLayout(revision.layout, pageKey);
+    setDraft(normalized);
+    setActiveKey(normalized.books[0]?.key ?? "");
+    setStatus(
+      restored
+        ? "Revision restored to the published layout. Save Draft to carry it into your draft."
+        : "Previewing revision. Save Draft to keep it."
+    );
+  }
+
   function resetDraft() {
     setDraft(layout);
     setActiveKey(layout.books[0]?.key ?? "");
@@ -2496,26 +2701,39 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
   }
 
   function addNextBook() {
-    if (draft.books.length >= MAX_BOOKS) {
-      setStatus(`Reached max of ${MAX_BOOKS} books.`);
-      return;
-    }
-
     setDraft((prev) => {
       const index = prev.books.length;
-      const next = defaultBookByIndex(pageKey, index);
+      const next = defaultBookByIndex(pageKey, index, prev.shelfRows);
       next.key = nextBookKey(prev.books);
       next.label = "";
-      const updated = { books: [...prev.books, next], frontTemplates: prev.frontTemplates };
+      const updated = { ...prev, books: [...prev.books, next] };
       setActiveKey(next.key);
       setPendingBookKey(next.key);
-      setStatus("Position slot added. Add a title now or later.");
+      setStatus(
+        index >= shelfCapacity(prev.shelfRows)
+          ? `Shelf is full. This book moves to ${bookcaseLabelForKey(bookcaseContinuationKey(pageKey))} when you save.`
+          : "Position slot added. Add a title now or later."
+      );
       return updated;
     });
 
     setShowAddModal(true);
   }
 
+  // Links the slot to a catalogue book; its title, cover, media and price are shared with every shelf it is on.
+  function placeCatalogBook(key: string, bookId: string) {
+    const book = catalogBooks.find((item) => item.id === bookId);
+    if (!book) return;
+    const { id, ...metadata } = book;
+    updateBook(key, { ...(metadata as Partial<BookItem>), bookId: id });
+    setStatus(`Placed ${String(book.label) || "book"} here. Click Save Draft to persist.`);
+  }
+
+  function updateShelfRows(value: number) {
+    setDraft((prev) => ({ ...prev, shelfRows: normalizeShelfRows(value) }));
+    setStatus("Shelf rows updated. Click Save Draft to persist.");
+  }
+
   function confirmAddBook() {
     if (!pendingBook) {
       setShowAddModal(false);
@@ -2523,7 +2741,7 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
       return;
     }
 
-    setStatus("Slot updated. Click Save Books to persist.");
+    setStatus("Slot updated. Click Save Draft to persist.");
     setShowAddModal(false);
     setPendingBookKey("");
   }
@@ -2531,8 +2749,8 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
   function cancelAddBook() {
     if (pendingBookKey) {
       setDraft((prev) => ({
+        ...prev,
         books: prev.books.filter((book) => book.key !== pendingBookKey),
-        frontTemplates: prev.frontTemplates,
       }));
       setActiveKey((prev) => (prev === pendingBookKey ? "" : prev));
       setStatus("Add canceled.");
@@ -2548,8 +2766,8 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
     setDraft((prev) => {
       const nextBooks = prev.books.filter((book) => book.key !== activeBook.key);
       setActiveKey(nextBooks[0]?.key ?? "");
-      setStatus("Book removed. Click Save Books to persist.");
-      return { books: nextBooks, frontTemplates: prev.frontTemplates };
+      setStatus("Book removed. Click Save Draft to persist.");
+      return { ...prev, books: nextBooks };
     });
   }
 
@@ -2589,6 +2807,19 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
                 </button>
               )}
             </div>
+            <label className="bookcase-editor-label">
+              Shelf Rows
+              <select value={draft.shelfRows} onChange={(event) => updateShelfRows(Number(event.target.value))}>
+                {SHELF_ROW_OPTIONS.map((rows) => (
+                  <option key={rows} value={rows}>
+                    {rows}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="bookcase-editor-hint">
+              {`This page holds ${shelfCapacity(draft.shelfRows)} books (${BOOKS_PER_SHELF_ROW} per row). Extra books move to ${bookcaseLabelForKey(bookcaseContinuationKey(pageKey))} when you save.`}
+            </p>
 
             <label className="bookcase-editor-label">
               Arrow Profile
@@ -2633,6 +2864,24 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
             </div>
             <p className="bookcase-editor-hint">Drag Back/Next signs on screen to place them for this profile.</p>
             {navStatus && <p className="bookcase-editor-hint">{navStatus}</p>}
+            <LayoutHistoryPanel
+              key={`nav-${navProfile}`}
+              table="device_layout_profiles"
+              rowKey={bookcaseShelfNavProfileRowKey(navProfile)}
+              current={navHistoryLayout}
+              refreshToken={navHistoryToken}
+              disabled={navLoading || navSaving}
+              onPreview={(revision) => applyNavRevision(revision, "Previewing arrow revision. Save Both to keep it.")}
+              onRestored={(revision) => applyNavRevision(revision, "Arrow revision restored to the published layout.")}
+            />
+            <LayoutDraftControls
+              key={`nav-draft-${navProfile}`}
+              table="device_layout_profiles"
+              rowKey={bookcaseShelfNavProfileRowKey(navProfile)}
+              draft={navDraftState}
+              disabled={navLoading || navSaving}
+              onChange={onNavDraftChange}
+            />
             <p className="bookcase-editor-hint">Book positions/sizes also save to this same profile.</p>
 
             {!activeBook ? (
@@ -2653,6 +2902,25 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
             </select>
           </label>
 
+          {catalogBooks.length > 0 && (
+            <label className="bookcase-editor-label">
+              Catalogue Book
+              <select
+                value={activeBook.bookId}
+                onChange={(event) => placeCatalogBook(activeBook.key, event.target.value)}
+              >
+                {!catalogBooks.some((book) => book.id === activeBook.bookId) && (
+                  <option value={activeBook.bookId}>{activeBook.bookId ? "This slot's book" : "New book"}</option>
+                )}
+                {catalogBooks.map((book) => (
+                  <option key={book.id} value={book.id}>
+                    {String(book.label) || `Untitled (${book.id.slice(0, 8)})`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
           <div className="bookcase-editor-actions">
             <button type="button" onClick={() => setEditorFormPage(1)} aria-pressed={editorFormPage === 1}>
               Page 1
@@ -2855,19 +3123,6 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
                 />
               </label>
 
-              <label className="bookcase-editor-label">
-                Full Book Media URL
-                <input
-                  value={activeBook.fullBookMediaUrl}
-                  onChange={(event) =>
-                    updateBook(activeBook.key, {
-                      fullBookMediaUrl: event.target.value,
-                    })
-                  }
-                  placeholder="https://..."
-                />
-              </label>
-
               <label className="bookcase-editor-label">
                 Upload Full Book Media
                 <input
@@ -2880,6 +3135,17 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
                   }}
                 />
               </label>
+              {activeBook.fullBookMediaPath && (
+                <p className="bookcase-editor-hint">
+                  Private file: {activeBook.fullBookMediaPath} (readers need to own this book to open it).
+                </p>
+              )}
+              {!activeBook.fullBookMediaPath && activeBook.fullBookMediaUrl && (
+                <p className="bookcase-editor-hint">
+                  This book still points at a public file and is not served. Upload it again or run the full-book
+                  migration to move it into private storage.
+                </p>
+              )}
 
               <label className="bookcase-editor-label">
                 Hide First Pages (EPUB, 0 = off)
@@ -2912,6 +3178,23 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
                   }
                 />
               </label>
+              <p className="bookcase-editor-hint">Readers without the book only get a preview when Hide After Page is set.</p>
+
+              <label className="bookcase-editor-label">
+                Full Book Price (pence, 0 = not for sale)
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_BOOK_PRICE_PENCE}
+                  step={1}
+                  value={activeBook.fullBookPricePence}
+                  onChange={(event) =>
+                    updateBook(activeBook.key, {
+                      fullBookPricePence: clamp(Math.round(Number(event.target.value) || 0), 0, MAX_BOOK_PRICE_PENCE),
+                    })
+                  }
+                />
+              </label>
 
               <label className="bookcase-editor-toggle">
                 <span>Show front cover overlay</span>
@@ -3048,8 +3331,8 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           )}
 
           <div className="bookcase-editor-actions">
-            <button type="button" onClick={saveLayout}>
-              Save Books
+            <button type="button" onClick={() => void saveLayout()}>
+              Save Draft
             </button>
             <button type="button" onClick={resetDraft}>
               Reset
@@ -3064,6 +3347,43 @@ export default function EditableBooksLayer({ pageKey, isAdmin }: Props) {
           </p>
               </>
             )}
+            {saveConflict && (
+              <div className="bookcase-coords-panel">
+                <p className="bookcase-editor-hint">
+                  Another save reached this shelf after you loaded it
+                  {saveConflict.updatedAt ? ` (${new Date(saveConflict.updatedAt).toLocaleTimeString()})` : ""}.
+                </p>
+                <div className="bookcase-editor-actions">
+                  <button type="button" onClick={mergeConflict}>
+                    Merge My Changes
+                  </button>
+                  <button type="button" onClick={overwriteConflict}>
+                    Overwrite With Mine
+                  </button>
+                  <button type="button" onClick={reloadConflict}>
+                    Reload Latest
+                  </button>
+                </div>
+              </div>
+            )}
+            <LayoutDraftControls
+              key={`books-draft-${pageKey}-${navProfile}`}
+              table="device_layout_profiles"
+              rowKey={bookcaseBooksProfileRowKey(pageKey, navProfile)}
+              draft={booksDraftState}
+              disabled={loading}
+              onChange={onBooksDraftChange}
+            />
+            <LayoutHistoryPanel
+              key={`books-${pageKey}-${navProfile}`}
+              table="device_layout_profiles"
+              rowKey={bookcaseBooksProfileRowKey(pageKey, navProfile)}
+              current={draft}
+              refreshToken={historyToken}
+              disabled={loading}
+              onPreview={(revision) => applyBooksRevision(revision, false)}
+              onRestored={(revision) => applyBooksRevision(revision, true)}
+            />
           </div>
         </aside>
       )}
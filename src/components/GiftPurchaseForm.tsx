@@ -0,0 +1,28 @@
+type GiftPurchaseFormProps = {
+  // Hidden checkout fields identifying the item, e.g. { bundle_id } or { page_key, book_key }.
+  fields: Record<string, string>;
+  label?: string;
+};
+
+export default function GiftPurchaseForm({ fields, label = "Buy as a gift" }: GiftPurchaseFormProps) {
+  return (
+    <details>
+      <summary>{label}</summary>
+      <form action="/api/checkout" method="post" className="feedback-form">
+        {Object.entries(fields).map(([name, value]) => (
+          <input key={name} type="hidden" name={name} value={value} />
+        ))}
+        <input type="hidden" name="gift" value="1" />
+        <label>
+          Recipient email
+          <input type="email" name="recipient_email" required />
+        </label>
+        <label>
+          Message (optional)
+          <textarea name="gift_message" rows={3} maxLength={400} />
+        </label>
+        <button type="submit">Pay and send gift</button>
+      </form>
+    </details>
+  );
+}
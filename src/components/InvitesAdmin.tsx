@@ -0,0 +1,340 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { describeGrantDuration, type EntitlementGrant } from "@/lib/commerce/grants";
+import type { InviteRecord } from "@/lib/commerce/invites";
+
+type Option = {
+  id: string;
+  label: string;
+};
+
+type BookOption = {
+  bookId: string;
+  label: string;
+  pageKeys: string[];
+};
+
+type ApiResult = {
+  invites?: InviteRecord[];
+  chapters?: Option[];
+  books?: BookOption[];
+  bundles?: Option[];
+  created?: number;
+  invalid?: string[];
+  sendErrors?: string[];
+  error?: string;
+};
+
+type GrantKind = "trial" | EntitlementGrant["kind"];
+
+function inviteStatus(invite: InviteRecord) {
+  if (invite.usedAt) return `Used ${new Date(invite.usedAt).toLocaleDateString()}`;
+  if (new Date(invite.expiresAt) <= new Date()) return "Expired";
+  return invite.sentAt ? "Sent" : "Not sent";
+}
+
+function isOpen(invite: InviteRecord) {
+  return !invite.usedAt && new Date(invite.expiresAt) > new Date();
+}
+
+export default function InvitesAdmin() {
+  const [invites, setInvites] = useState<InviteRecord[]>([]);
+  const [chapters, setChapters] = useState<Option[]>([]);
+  const [books, setBooks] = useState<BookOption[]>([]);
+  const [bundles, setBundles] = useState<Option[]>([]);
+  const [emails, setEmails] = useState("");
+  const [linkDays, setLinkDays] = useState("14");
+  const [grantKind, setGrantKind] = useState<GrantKind>("trial");
+  const [target, setTarget] = useState("");
+  const [accessDays, setAccessDays] = useState("");
+  const [sendNow, setSendNow] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const chapterLabels = useMemo(() => new Map(chapters.map((item) => [item.id, item.label])), [chapters]);
+  const bundleLabels = useMemo(() => new Map(bundles.map((item) => [item.id, item.label])), [bundles]);
+  const bookLabels = useMemo(
+    () =>
+      new Map(books.map((item) => [item.bookId, `${item.label} (${item.pageKeys.join(", ") || "not on a shelf"})`])),
+    [books]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadInvites() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/invites?ts=${Date.now()}`, { cache: "no-store" });
+        const payload = (await response.json()) as ApiResult;
+        if (!response.ok) {
+          throw new Error(payload.error || "Unable to load invites.");
+        }
+        if (cancelled) return;
+        setInvites(payload.invites ?? []);
+        setChapters(payload.chapters ?? []);
+        setBooks(payload.books ?? []);
+        setBundles(payload.bundles ?? []);
+      } catch (error: unknown) {
+        if (cancelled) return;
+        const message = error instanceof Error ? error.message : "Unable to load invites.";
+        setStatus(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void loadInvites();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadToken]);
+
+  function describeGrant(grant: EntitlementGrant | null) {
+    if (!grant) return "Episode 1 trial (7 days)";
+    const label =
+      grant.kind === "chapter"
+        ? chapterLabels.get(grant.chapterId) ?? "Episode"
+        : grant.kind === "bundle"
+          ? bundleLabels.get(grant.bundleId) ?? "Bundle"
+          : bookLabels.get(grant.bookId) ?? "Book";
+    return `${label}, ${describeGrantDuration(grant)}`;
+  }
+
+  function buildGrant() {
+    if (grantKind === "trial") return null;
+    const durationDays = accessDays.trim() ? Number(accessDays) : null;
+    if (grantKind === "chapter") return { kind: "chapter", chapterId: target, durationDays };
+    if (grantKind === "bundle") return { kind: "bundle", bundleId: target, durationDays };
+    return { kind: "book", bookId: target, durationDays };
+  }
+
+  function loadCsv(file: File | undefined) {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = typeof reader.result === "string" ? reader.result : "";
+      setEmails((current) => (current.trim() ? `${current.trim()}\n${text}` : text));
+    };
+    reader.readAsText(file);
+  }
+
+  async function createBatch() {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "create", emails, linkDays: Number(linkDays), grant: buildGrant(), send: sendNow }),
+      });
+      const payload = (await response.json()) as ApiResult;
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to create invites.");
+      }
+
+      const notes = [`Created ${payload.created ?? 0} invite(s).`];
+      if (payload.invalid?.length) notes.push(`Skipped invalid: ${payload.invalid.join(", ")}.`);
+      if (payload.sendErrors?.length) notes.push(`Email failed for ${payload.sendErrors.join("; ")}.`);
+      setStatus(notes.join(" "));
+      setEmails("");
+      setReloadToken((current) => current + 1);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unable to create invites.";
+      setStatus(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function resendInvite(invite: InviteRecord) {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "resend", id: invite.id }),
+      });
+      const payload = (await response.json()) as ApiResult;
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to resend invite.");
+      }
+      setStatus(`Sent to ${invite.email}.`);
+      setReloadToken((current) => current + 1);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unable to resend invite.";
+      setStatus(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function revokeInvite(invite: InviteRecord) {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch(`/api/invites?id=${encodeURIComponent(invite.id)}`, { method: "DELETE" });
+      const payload = (await response.json()) as ApiResult;
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to revoke invite.");
+      }
+      setStatus(`Revoked invite for ${invite.email}.`);
+      setReloadToken((current) => current + 1);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unable to revoke invite.";
+      setStatus(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function copyLink(invite: InviteRecord) {
+    const link = `${window.location.origin}/redeem?token=${encodeURIComponent(invite.token)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setStatus(`Copied link for ${invite.email}.`);
+    } catch {
+      setStatus(link);
+    }
+  }
+
+  return (
+    <section className="bookcase-admin-card device-layout-editor">
+      <h1>Invites</h1>
+      <p>Invites are claimed at /redeem by signing in with the invited email address.</p>
+
+      <label className="bookcase-editor-label">
+        <span>Emails (one per line, or paste/upload a CSV)</span>
+        <textarea rows={4} value={emails} onChange={(event) => setEmails(event.target.value)} disabled={saving} />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>CSV file</span>
+        <input type="file" accept=".csv,text/csv,text/plain" onChange={(event) => loadCsv(event.target.files?.[0])} disabled={saving} />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Link valid for (days)</span>
+        <input type="number" min={1} max={365} value={linkDays} onChange={(event) => setLinkDays(event.target.value)} disabled={saving} />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Unlocks</span>
+        <select
+          value={grantKind}
+          onChange={(event) => {
+            setGrantKind(event.target.value as GrantKind);
+            setTarget("");
+          }}
+          disabled={saving}
+        >
+          <option value="trial">Episode 1 trial (7 days)</option>
+          <option value="chapter">An episode</option>
+          <option value="book">A shelf book</option>
+          <option value="bundle">A bundle</option>
+        </select>
+      </label>
+
+      {grantKind !== "trial" && (
+        <>
+          <label className="bookcase-editor-label">
+            <span>Item</span>
+            <select value={target} onChange={(event) => setTarget(event.target.value)} disabled={saving}>
+              <option value="">Choose...</option>
+              {grantKind === "chapter" &&
+                chapters.map((chapter) => (
+                  <option key={chapter.id} value={chapter.id}>
+                    {chapter.label}
+                  </option>
+                ))}
+              {grantKind === "book" &&
+                books.map((book) => (
+                  <option key={book.bookId} value={book.bookId}>
+                    {bookLabels.get(book.bookId)}
+                  </option>
+                ))}
+              {grantKind === "bundle" &&
+                bundles.map((bundle) => (
+                  <option key={bundle.id} value={bundle.id}>
+                    {bundle.label}
+                  </option>
+                ))}
+            </select>
+          </label>
+
+          <label className="bookcase-editor-label">
+            <span>Access length in days (blank = permanent)</span>
+            <input type="number" min={1} value={accessDays} onChange={(event) => setAccessDays(event.target.value)} disabled={saving} />
+          </label>
+        </>
+      )}
+
+      <label className="bookcase-editor-toggle">
+        <span>Email the links now</span>
+        <input type="checkbox" checked={sendNow} onChange={(event) => setSendNow(event.target.checked)} disabled={saving} />
+      </label>
+
+      <div className="bookcase-editor-actions">
+        <button
+          type="button"
+          onClick={() => void createBatch()}
+          disabled={saving || loading || !emails.trim() || (grantKind !== "trial" && !target)}
+        >
+          {saving ? "Working..." : "Create Invites"}
+        </button>
+        <Link href="/bookcase/admin">Back to Admin</Link>
+      </div>
+
+      {status && <p className="bookcase-editor-hint">{status}</p>}
+
+      <div className="admin-table-scroll">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Email</th>
+              <th>Unlocks</th>
+              <th>Status</th>
+              <th>Link expires</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {invites.length === 0 && (
+              <tr>
+                <td colSpan={5}>{loading ? "Loading..." : "No invites yet."}</td>
+              </tr>
+            )}
+            {invites.map((invite) => (
+              <tr key={invite.id}>
+                <td>{invite.email}</td>
+                <td>{describeGrant(invite.grant)}</td>
+                <td>{inviteStatus(invite)}</td>
+                <td>{invite.expiresAt ? new Date(invite.expiresAt).toLocaleDateString() : "-"}</td>
+                <td className="bookcase-editor-actions">
+                  {isOpen(invite) && (
+                    <>
+                      <button type="button" onClick={() => void resendInvite(invite)} disabled={saving}>
+                        Resend
+                      </button>
+                      <button type="button" onClick={() => void copyLink(invite)} disabled={saving}>
+                        Copy Link
+                      </button>
+                      <button type="button" onClick={() => void revokeInvite(invite)} disabled={saving}>
+                        Revoke
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
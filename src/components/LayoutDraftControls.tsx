@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import type { LayoutDraftAction, LayoutDraftState } from "@/lib/bookcase/layoutDrafts";
+import type { LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+
+type Props = {
+  table: LayoutRevisionTable;
+  rowKey: string;
+  draft: LayoutDraftState | null;
+  disabled?: boolean;
+  // Called with the draft's new state; published and discarded drafts come back as null.
+  onChange: (draft: LayoutDraftState | null, action: LayoutDraftAction) => void;
+};
+
+function formatWhen(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+// datetime-local wants local time without a zone.
+function toLocalInput(value: string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export default function LayoutDraftControls({ table, rowKey, draft, disabled = false, onChange }: Props) {
+  // Null until the admin edits the field, so a newly loaded draft shows its own schedule.
+  const [editedPublishAt, setEditedPublishAt] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function run(action: LayoutDraftAction, scheduleAt: string | null = null) {
+    if (action === "discard" && !window.confirm("Discard the unpublished draft?")) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/layout-drafts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          table,
+          key: rowKey,
+          action,
+          publishAt: scheduleAt ? new Date(scheduleAt).toISOString() : null,
+        }),
+      });
+      const payload = (await response.json()) as { draft?: LayoutDraftState | null; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to update draft.");
+      }
+      const next = payload.draft ?? null;
+      setEditedPublishAt(null);
+      onChange(next, action);
+      if (action === "publish") setStatus("Published.");
+      else if (action === "discard") setStatus("Draft discarded.");
+      else setStatus(next?.publishAt ? `Scheduled for ${formatWhen(next.publishAt)}.` : "Schedule cleared.");
+    } catch (error: unknown) {
+      setStatus(error instanceof Error ? error.message : "Unable to update draft.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const locked = disabled || busy;
+  const publishAt = editedPublishAt ?? toLocalInput(draft?.publishAt ?? null);
+
+  return (
+    <div className="bookcase-coords-panel layout-draft-controls">
+      <p className="bookcase-editor-hint">
+        {draft
+          ? `Unpublished draft saved ${formatWhen(draft.updatedAt)}.${
+              draft.publishAt ? ` Publishes ${formatWhen(draft.publishAt)}.` : ""
+            }`
+          : "Readers see the published layout. Save Draft to stage changes."}
+      </p>
+      {draft && (
+        <>
+          <label className="bookcase-editor-label">
+            Publish at
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(event) => setEditedPublishAt(event.target.value)}
+              disabled={locked}
+            />
+          </label>
+          <div className="bookcase-editor-actions">
+            <button type="button" onClick={() => void run("publish")} disabled={locked}>
+              Publish Now
+            </button>
+            <button type="button" onClick={() => void run("schedule", publishAt)} disabled={locked || !publishAt}>
+              Schedule
+            </button>
+            {draft.publishAt && (
+              <button type="button" onClick={() => void run("schedule")} disabled={locked}>
+                Clear Schedule
+              </button>
+            )}
+            <button type="button" onClick={() => void run("discard")} disabled={locked}>
+              Discard Draft
+            </button>
+          </div>
+        </>
+      )}
+      {status && <p className="bookcase-editor-hint">{status}</p>}
+    </div>
+  );
+}
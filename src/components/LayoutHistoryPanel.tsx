@@ -0,0 +1,183 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { diffLayouts, type LayoutRevision, type LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+
+type Props = {
+  table: LayoutRevisionTable;
+  rowKey: string;
+  // The editor's layout in the same JSON shape the revisions store, used as the left side of the diff.
+  current: Record<string, unknown>;
+  // Bumped by the editor after a save so an open history list picks up the new revision.
+  refreshToken: number;
+  disabled?: boolean;
+  onPreview: (revision: LayoutRevision) => void;
+  onRestored: (revision: LayoutRevision, updatedAt: string | null) => void;
+};
+
+const MAX_DIFF_ROWS = 60;
+
+function formatWhen(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export default function LayoutHistoryPanel({
+  table,
+  rowKey,
+  current,
+  refreshToken,
+  disabled = false,
+  onPreview,
+  onRestored,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<LayoutRevision[]>([]);
+  // The live row's updated_at when the list was loaded; restores are rejected if it has changed since.
+  const [liveUpdatedAt, setLiveUpdatedAt] = useState<string | null | undefined>(undefined);
+  const [selectedId, setSelectedId] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    setStatus(null);
+    try {
+      const response = await fetch(
+        `/api/layout-revisions?table=${table}&key=${encodeURIComponent(rowKey)}&ts=${Date.now()}`,
+        { cache: "no-store" }
+      );
+      const payload = (await response.json()) as {
+        revisions?: LayoutRevision[];
+        updatedAt?: string | null;
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to load history.");
+      }
+      setRevisions(payload.revisions || []);
+      setLiveUpdatedAt(payload.updatedAt);
+      if (!payload.revisions?.length) setStatus("No saved revisions yet.");
+    } catch (error: unknown) {
+      setStatus(error instanceof Error ? error.message : "Unable to load history.");
+    } finally {
+      setLoading(false);
+    }
+  }, [rowKey, table]);
+
+  useEffect(() => {
+    if (open) void loadRevisions();
+  }, [loadRevisions, open, refreshToken]);
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? null;
+  const diff = useMemo(() => (selected ? diffLayouts(current, selected.layout) : []), [current, selected]);
+
+  async function restoreSelected() {
+    if (!selected) return;
+    if (!window.confirm(`Restore the layout saved ${formatWhen(selected.createdAt)}? It replaces the live layout.`)) {
+      return;
+    }
+    setRestoring(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/layout-revisions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: selected.id, expectedUpdatedAt: liveUpdatedAt }),
+      });
+      const payload = (await response.json()) as {
+        revision?: LayoutRevision;
+        updatedAt?: string | null;
+        warning?: string;
+        conflict?: boolean;
+        error?: string;
+      };
+      if (payload.conflict) {
+        await loadRevisions();
+        setStatus(`${payload.error || "The layout changed."} History reloaded; check the diff and restore again.`);
+        return;
+      }
+      if (!response.ok || !payload.revision) {
+        throw new Error(payload.error || "Unable to restore revision.");
+      }
+      onRestored(payload.revision, payload.updatedAt ?? null);
+      setSelectedId("");
+      await loadRevisions();
+      setStatus(payload.warning ? `Revision restored. ${payload.warning}` : "Revision restored.");
+    } catch (error: unknown) {
+      setStatus(error instanceof Error ? error.message : "Unable to restore revision.");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  const busy = disabled || loading || restoring;
+
+  return (
+    <details
+      className="bookcase-coords-panel layout-history-panel"
+      onToggle={(event) => setOpen(event.currentTarget.open)}
+    >
+      <summary>History</summary>
+
+      {revisions.length > 0 && (
+        <ul className="layout-history-list">
+          {revisions.map((revision) => (
+            <li key={revision.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId((currentId) => (currentId === revision.id ? "" : revision.id))}
+                aria-pressed={revision.id === selectedId}
+                disabled={busy}
+              >
+                <span>{formatWhen(revision.createdAt)}</span>
+                <span className="layout-history-meta">
+                  {revision.createdByEmail || "Unknown admin"}
+                  {revision.restoredFrom ? " (restore)" : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <>
+          <p className="bookcase-editor-hint">
+            {diff.length === 0
+              ? "Matches the editor."
+              : `${diff.length} value${diff.length === 1 ? "" : "s"} differ from the editor.`}
+          </p>
+          {diff.length > 0 && (
+            <ul className="layout-history-diff">
+              {diff.slice(0, MAX_DIFF_ROWS).map((entry) => (
+                <li key={entry.path}>
+                  <code>{entry.path}</code>
+                  {entry.before !== null && <del>{entry.before}</del>}
+                  {entry.after !== null && <ins>{entry.after}</ins>}
+                </li>
+              ))}
+              {diff.length > MAX_DIFF_ROWS && <li>...and {diff.length - MAX_DIFF_ROWS} more</li>}
+            </ul>
+          )}
+          <div className="bookcase-editor-actions">
+            <button type="button" onClick={() => onPreview(selected)} disabled={busy}>
+              Preview
+            </button>
+            <button type="button" onClick={() => void restoreSelected()} disabled={busy}>
+              {restoring ? "Restoring..." : "Restore"}
+            </button>
+          </div>
+        </>
+      )}
+
+      <div className="bookcase-editor-actions">
+        <button type="button" onClick={() => void loadRevisions()} disabled={busy}>
+          {loading ? "Loading..." : "Refresh History"}
+        </button>
+      </div>
+      {status && <p className="bookcase-editor-hint">{status}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useMemo, type ReactNode, type Ref } from "react";
+import { parseMarkdown, type MdBlock, type MdInline } from "@/lib/reader/markdown";
+
+type Props = {
+  source: string;
+  className?: string;
+  ref?: Ref<HTMLDivElement>;
+};
+
+function renderInline(nodes: MdInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "link": {
+        const external = /^(https?:)/i.test(node.href);
+        return (
+          <a key={index} href={node.href} {...(external ? { target: "_blank", rel: "noopener noreferrer nofollow" } : {})}>
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+      case "image":
+        return <img key={index} src={node.src} alt={node.alt} title={node.title || undefined} loading="lazy" />;
+      case "footnoteRef":
+        return (
+          <sup key={index} id={`fnref-${node.index}`}>
+            <a href={`#fn-${node.index}`}>{node.index}</a>
+          </sup>
+        );
+      case "break":
+        return <br key={index} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: MdBlock[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case "heading": {
+        const Tag = `h${block.level}` as const;
+        return <Tag key={index}>{renderInline(block.children)}</Tag>;
+      }
+      case "paragraph":
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case "figure":
+        return (
+          <figure key={index}>
+            <img src={block.image.src} alt={block.image.alt} title={block.image.title || undefined} loading="lazy" />
+            {block.image.title && <figcaption>{block.image.title}</figcaption>}
+          </figure>
+        );
+      case "blockquote":
+        return <blockquote key={index}>{renderBlocks(block.children)}</blockquote>;
+      case "list": {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderBlocks(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={index}>{items}</ul>
+        );
+      }
+      case "code":
+        return (
+          <pre key={index}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "sceneBreak":
+        return <hr key={index} className="reader-scene-break" />;
+    }
+  });
+}
+
+// The ref points at the rendered text so highlight offsets can be measured against it.
+export default function MarkdownContent({ source, className, ref }: Props) {
+  const parsed = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div ref={ref} className={className ? `reader-markdown ${className}` : "reader-markdown"}>
+      {renderBlocks(parsed.blocks)}
+      {parsed.footnotes.length > 0 && (
+        <section className="reader-footnotes" aria-label="Footnotes">
+          <ol>
+            {parsed.footnotes.map((footnote) => (
+              <li key={footnote.index} id={`fn-${footnote.index}`}>
+                {renderInline(footnote.children)}{" "}
+                <a href={`#fnref-${footnote.index}`} aria-label="Back to text">
+                  &#8617;
+                </a>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  );
+}
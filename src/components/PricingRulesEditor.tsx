@@ -0,0 +1,388 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_CURRENCY,
+  MAX_PRICE_PENCE,
+  SUPPORTED_CURRENCIES,
+  formatPrice,
+  isSaleActive,
+  type PricingRule,
+  type PricingScope,
+} from "@/lib/commerce/pricing";
+
+type ChapterOption = {
+  id: string;
+  label: string;
+};
+
+type BookOption = {
+  bookId: string;
+  label: string;
+  pageKeys: string[];
+};
+
+type ApiResult = {
+  rules?: PricingRule[];
+  chapters?: ChapterOption[];
+  books?: BookOption[];
+  rule?: PricingRule | null;
+  error?: string;
+};
+
+type RuleDraft = {
+  id: string;
+  scope: PricingScope;
+  chapterId: string;
+  bookId: string;
+  amountPence: string;
+  currency: string;
+  saleAmountPence: string;
+  saleStartsAt: string;
+  saleEndsAt: string;
+  isFree: boolean;
+};
+
+function emptyDraft(): RuleDraft {
+  return {
+    id: "",
+    scope: "chapter",
+    chapterId: "",
+    bookId: "",
+    amountPence: "79",
+    currency: DEFAULT_CURRENCY,
+    saleAmountPence: "",
+    saleStartsAt: "",
+    saleEndsAt: "",
+    isFree: false,
+  };
+}
+
+// datetime-local inputs work in local time without a zone suffix.
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (!Number.isFinite(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isFinite(date.getTime()) ? date.toISOString() : null;
+}
+
+function draftFromRule(rule: PricingRule): RuleDraft {
+  return {
+    id: rule.id,
+    scope: rule.scope,
+    chapterId: rule.chapterId ?? "",
+    bookId: rule.bookId ?? "",
+    amountPence: String(rule.amountPence),
+    currency: rule.currency,
+    saleAmountPence: rule.saleAmountPence === null ? "" : String(rule.saleAmountPence),
+    saleStartsAt: toLocalInput(rule.saleStartsAt),
+    saleEndsAt: toLocalInput(rule.saleEndsAt),
+    isFree: rule.isFree,
+  };
+}
+
+export default function PricingRulesEditor() {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [chapters, setChapters] = useState<ChapterOption[]>([]);
+  const [books, setBooks] = useState<BookOption[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(() => emptyDraft());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const chapterLabels = useMemo(() => new Map(chapters.map((item) => [item.id, item.label])), [chapters]);
+  const bookLabels = useMemo(
+    () =>
+      new Map(books.map((item) => [item.bookId, `${item.label} (${item.pageKeys.join(", ") || "not on a shelf"})`])),
+    [books]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadRules() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/pricing-rules?ts=${Date.now()}`, { cache: "no-store" });
+        const payload = (await response.json()) as ApiResult;
+        if (!response.ok) {
+          throw new Error(payload.error || "Unable to load pricing rules.");
+        }
+        if (cancelled) return;
+        setRules(payload.rules ?? []);
+        setChapters(payload.chapters ?? []);
+        setBooks(payload.books ?? []);
+      } catch (error: unknown) {
+        if (cancelled) return;
+        const message = error instanceof Error ? error.message : "Unable to load pricing rules.";
+        setStatus(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void loadRules();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadToken]);
+
+  function updateDraft(updates: Partial<RuleDraft>) {
+    setDraft((prev) => ({ ...prev, ...updates }));
+  }
+
+  function describeTarget(rule: PricingRule) {
+    if (rule.scope === "chapter") {
+      return rule.chapterId ? chapterLabels.get(rule.chapterId) ?? rule.chapterId : "Default for all chapters";
+    }
+    return rule.bookId ? bookLabels.get(rule.bookId) ?? rule.bookId : "Book";
+  }
+
+  function describePrice(rule: PricingRule) {
+    if (rule.isFree) return "Free";
+    const base = formatPrice(rule.amountPence, rule.currency);
+    if (rule.saleAmountPence === null) return base;
+    const sale = formatPrice(rule.saleAmountPence, rule.currency);
+    return isSaleActive(rule) ? `${sale} on sale (was ${base})` : `${base} (sale ${sale} scheduled)`;
+  }
+
+  async function saveRule() {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/pricing-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: draft.id || undefined,
+          rule: {
+            scope: draft.scope,
+            chapterId: draft.scope === "chapter" ? draft.chapterId : "",
+            bookId: draft.scope === "book" ? draft.bookId : "",
+            amountPence: Number(draft.amountPence) || 0,
+            currency: draft.currency,
+            saleAmountPence: draft.saleAmountPence === "" ? null : Number(draft.saleAmountPence) || 0,
+            saleStartsAt: fromLocalInput(draft.saleStartsAt),
+            saleEndsAt: fromLocalInput(draft.saleEndsAt),
+            isFree: draft.isFree,
+          },
+        }),
+      });
+      const payload = (await response.json()) as ApiResult;
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to save rule.");
+      }
+
+      setDraft(emptyDraft());
+      setStatus("Saved.");
+      setReloadToken((current) => current + 1);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unable to save rule.";
+      setStatus(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteRule(id: string) {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch(`/api/pricing-rules?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      const payload = (await response.json()) as ApiResult;
+      if (!response.ok) {
+        throw new Error(payload.error || "Unable to delete rule.");
+      }
+      if (draft.id === id) setDraft(emptyDraft());
+      setStatus("Rule deleted.");
+      setReloadToken((current) => current + 1);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unable to delete rule.";
+      setStatus(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="bookcase-admin-card device-layout-editor">
+      <h1>Pricing</h1>
+      <p>Chapter and book prices used by checkout. Book rules override the price typed into the shelf editor.</p>
+
+      <div className="admin-table-scroll">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Price</th>
+              <th>Sale window</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={4}>{loading ? "Loading..." : "No rules yet. Chapters fall back to 79p."}</td>
+              </tr>
+            )}
+            {rules.map((rule) => (
+              <tr key={rule.id} aria-selected={draft.id === rule.id}>
+                <td>{describeTarget(rule)}</td>
+                <td>{describePrice(rule)}</td>
+                <td>
+                  {rule.saleAmountPence === null
+                    ? "-"
+                    : `${rule.saleStartsAt ? new Date(rule.saleStartsAt).toLocaleString() : "now"} to ${
+                        rule.saleEndsAt ? new Date(rule.saleEndsAt).toLocaleString() : "open-ended"
+                      }`}
+                </td>
+                <td className="bookcase-editor-actions">
+                  <button type="button" onClick={() => setDraft(draftFromRule(rule))} disabled={saving}>
+                    Edit
+                  </button>
+                  <button type="button" onClick={() => void deleteRule(rule.id)} disabled={saving}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h2>{draft.id ? "Edit rule" : "Add rule"}</h2>
+
+      <label className="bookcase-editor-label">
+        <span>Applies to</span>
+        <select
+          value={draft.scope}
+          onChange={(event) => updateDraft({ scope: event.target.value === "book" ? "book" : "chapter" })}
+          disabled={saving || Boolean(draft.id)}
+        >
+          <option value="chapter">Chapter</option>
+          <option value="book">Shelf book</option>
+        </select>
+      </label>
+
+      {draft.scope === "chapter" ? (
+        <label className="bookcase-editor-label">
+          <span>Chapter</span>
+          <select
+            value={draft.chapterId}
+            onChange={(event) => updateDraft({ chapterId: event.target.value })}
+            disabled={saving}
+          >
+            <option value="">Default for all chapters</option>
+            {chapters.map((chapter) => (
+              <option key={chapter.id} value={chapter.id}>
+                {chapter.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : (
+        <label className="bookcase-editor-label">
+          <span>Book</span>
+          <select value={draft.bookId} onChange={(event) => updateDraft({ bookId: event.target.value })} disabled={saving}>
+            <option value="">Choose a book</option>
+            {books.map((book) => (
+              <option key={book.bookId} value={book.bookId}>
+                {bookLabels.get(book.bookId)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="bookcase-editor-toggle">
+        <span>Free (unlocks without payment)</span>
+        <input
+          type="checkbox"
+          checked={draft.isFree}
+          onChange={(event) => updateDraft({ isFree: event.target.checked })}
+          disabled={saving}
+        />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Price (pence)</span>
+        <input
+          type="number"
+          min={0}
+          max={MAX_PRICE_PENCE}
+          step={1}
+          value={draft.amountPence}
+          onChange={(event) => updateDraft({ amountPence: event.target.value })}
+          disabled={saving || draft.isFree}
+        />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Currency</span>
+        <select value={draft.currency} onChange={(event) => updateDraft({ currency: event.target.value })} disabled={saving}>
+          {SUPPORTED_CURRENCIES.map((code) => (
+            <option key={code} value={code}>
+              {code.toUpperCase()}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Sale price (pence, blank = no sale)</span>
+        <input
+          type="number"
+          min={0}
+          max={MAX_PRICE_PENCE}
+          step={1}
+          value={draft.saleAmountPence}
+          onChange={(event) => updateDraft({ saleAmountPence: event.target.value })}
+          disabled={saving || draft.isFree}
+        />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Sale starts (blank = now)</span>
+        <input
+          type="datetime-local"
+          value={draft.saleStartsAt}
+          onChange={(event) => updateDraft({ saleStartsAt: event.target.value })}
+          disabled={saving || draft.isFree || draft.saleAmountPence === ""}
+        />
+      </label>
+
+      <label className="bookcase-editor-label">
+        <span>Sale ends (blank = open-ended)</span>
+        <input
+          type="datetime-local"
+          value={draft.saleEndsAt}
+          onChange={(event) => updateDraft({ saleEndsAt: event.target.value })}
+          disabled={saving || draft.isFree || draft.saleAmountPence === ""}
+        />
+      </label>
+
+      <div className="bookcase-editor-actions">
+        <button type="button" onClick={() => void saveRule()} disabled={saving || loading}>
+          {saving ? "Saving..." : draft.id ? "Save Rule" : "Add Rule"}
+        </button>
+        {draft.id && (
+          <button type="button" onClick={() => setDraft(emptyDraft())} disabled={saving}>
+            Cancel Edit
+          </button>
+        )}
+        <Link href="/bookcase/admin">Back to Admin</Link>
+      </div>
+
+      {status && <p className="bookcase-editor-hint">{status}</p>}
+    </section>
+  );
+}
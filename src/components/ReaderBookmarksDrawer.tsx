@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_BOOKMARK_LABEL_LENGTH,
+  MAX_BOOKMARK_NOTE_LENGTH,
+  type NamedBookmark,
+} from "@/lib/reader/readingRecords";
+
+type Props = {
+  bookmarks: NamedBookmark[];
+  busy: boolean;
+  isDark: boolean;
+  background: string;
+  border: string;
+  onAdd: (label: string, note: string) => Promise<boolean>;
+  onGo: (bookmark: NamedBookmark) => void;
+  onDelete: (bookmark: NamedBookmark) => void;
+  onClose: () => void;
+};
+
+function savedLabel(bookmark: NamedBookmark) {
+  const saved = bookmark.createdAt ? new Date(bookmark.createdAt).toLocaleDateString() : "";
+  return saved ? `Saved ${saved}` : "";
+}
+
+export default function ReaderBookmarksDrawer({
+  bookmarks,
+  busy,
+  isDark,
+  background,
+  border,
+  onAdd,
+  onGo,
+  onDelete,
+  onClose,
+}: Props) {
+  const [label, setLabel] = useState("");
+  const [note, setNote] = useState("");
+
+  const fieldStyle = {
+    width: "100%",
+    padding: "8px 10px",
+    borderRadius: 10,
+    border: isDark ? "1px solid rgba(255,255,255,0.16)" : `1px solid ${border}`,
+    background: "transparent",
+    color: "inherit",
+    font: "inherit",
+  } as const;
+  const buttonStyle = {
+    padding: "6px 10px",
+    borderRadius: 10,
+    border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+    background: "transparent",
+    color: "inherit",
+    cursor: "pointer",
+  } as const;
+
+  return (
+    <aside
+      aria-label="Bookmarks"
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 60,
+        width: "min(360px, 92vw)",
+        overflowY: "auto",
+        padding: "16px 16px 24px",
+        background: isDark ? "rgba(18,18,18,0.97)" : background,
+        borderLeft: isDark ? "1px solid rgba(255,255,255,0.08)" : `1px solid ${border}`,
+        boxShadow: "0 0 24px rgba(0,0,0,0.18)",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+        <strong>Bookmarks</strong>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          void onAdd(label, note).then((saved) => {
+            if (!saved) return;
+            setLabel("");
+            setNote("");
+          });
+        }}
+        style={{ display: "grid", gap: 8, marginBottom: 16 }}
+      >
+        <input
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          placeholder={`Bookmark ${bookmarks.length + 1}`}
+          maxLength={MAX_BOOKMARK_LABEL_LENGTH}
+          aria-label="Bookmark name"
+          style={fieldStyle}
+        />
+        <textarea
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Note (optional)"
+          maxLength={MAX_BOOKMARK_NOTE_LENGTH}
+          rows={2}
+          aria-label="Bookmark note"
+          style={{ ...fieldStyle, resize: "vertical" }}
+        />
+        <button type="submit" disabled={busy} style={{ ...buttonStyle, opacity: busy ? 0.6 : 1 }}>
+          {busy ? "Saving..." : "Bookmark this spot"}
+        </button>
+      </form>
+
+      {bookmarks.length === 0 ? (
+        <p style={{ margin: 0, fontSize: "0.9rem", opacity: 0.75 }}>No bookmarks yet.</p>
+      ) : (
+        <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 10 }}>
+          {bookmarks.map((bookmark) => (
+            <li
+              key={bookmark.id}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 12,
+                border: isDark ? "1px solid rgba(255,255,255,0.1)" : `1px solid ${border}`,
+              }}
+            >
+              <button
+                type="button"
+                onClick={() => onGo(bookmark)}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: 0,
+                  border: 0,
+                  background: "transparent",
+                  color: "inherit",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  font: "inherit",
+                  fontWeight: 600,
+                }}
+              >
+                {bookmark.label}
+              </button>
+              {bookmark.note && (
+                <p style={{ margin: "6px 0 0", fontSize: "0.9rem", whiteSpace: "pre-wrap" }}>{bookmark.note}</p>
+              )}
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginTop: 8 }}>
+                <span style={{ fontSize: "0.78rem", opacity: 0.7 }}>{savedLabel(bookmark)}</span>
+                <button type="button" onClick={() => onDelete(bookmark)} style={buttonStyle}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
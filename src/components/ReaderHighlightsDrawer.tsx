@@ -0,0 +1,264 @@
+"use client";
+
+import { useState } from "react";
+import {
+  HIGHLIGHT_COLORS,
+  MAX_HIGHLIGHT_NOTE_LENGTH,
+  sortHighlights,
+  type ClubNote,
+  type HighlightAnchor,
+  type HighlightColor,
+  type HighlightUpdate,
+  type ReaderHighlight,
+} from "@/lib/reader/highlights";
+
+type Props = {
+  highlights: ReaderHighlight[];
+  clubNotes: ClubNote[];
+  clubVisible: boolean;
+  canModerate: boolean;
+  signedIn: boolean;
+  isDark: boolean;
+  background: string;
+  border: string;
+  onGo: (anchor: HighlightAnchor) => void;
+  onSave: (update: HighlightUpdate) => Promise<boolean>;
+  onDelete: (highlight: ReaderHighlight) => void;
+  onToggleClub: (visible: boolean) => void;
+  onHideClubNote: (note: ClubNote) => void;
+  onExport: () => void;
+  onClose: () => void;
+};
+
+export default function ReaderHighlightsDrawer({
+  highlights,
+  clubNotes,
+  clubVisible,
+  canModerate,
+  signedIn,
+  isDark,
+  background,
+  border,
+  onGo,
+  onSave,
+  onDelete,
+  onToggleClub,
+  onHideClubNote,
+  onExport,
+  onClose,
+}: Props) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const buttonStyle = {
+    padding: "6px 10px",
+    borderRadius: 10,
+    border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+    background: "transparent",
+    color: "inherit",
+    cursor: "pointer",
+  } as const;
+
+  return (
+    <aside
+      aria-label="Highlights"
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 60,
+        width: "min(380px, 92vw)",
+        overflowY: "auto",
+        padding: "16px 16px 24px",
+        background: isDark ? "rgba(18,18,18,0.97)" : background,
+        borderLeft: isDark ? "1px solid rgba(255,255,255,0.08)" : `1px solid ${border}`,
+        boxShadow: "0 0 24px rgba(0,0,0,0.18)",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+        <strong style={{ flex: 1 }}>Highlights</strong>
+        <button type="button" onClick={onExport} disabled={highlights.length === 0} style={buttonStyle}>
+          Export
+        </button>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      {!signedIn ? (
+        <p style={{ margin: 0, fontSize: "0.9rem", opacity: 0.75 }}>Sign in to save highlights and notes.</p>
+      ) : highlights.length === 0 ? (
+        <p style={{ margin: 0, fontSize: "0.9rem", opacity: 0.75 }}>
+          Select a passage while reading to highlight it.
+        </p>
+      ) : (
+        <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 10 }}>
+          {sortHighlights(highlights).map((highlight) => {
+            const draft = drafts[highlight.id] ?? highlight.note;
+            return (
+              <li
+                key={highlight.id}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 12,
+                  border: isDark ? "1px solid rgba(255,255,255,0.1)" : `1px solid ${border}`,
+                  borderLeft: `4px solid ${HIGHLIGHT_COLORS[highlight.color].fill}`,
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => onGo(highlight.anchor)}
+                  style={{
+                    display: "block",
+                    width: "100%",
+                    padding: 0,
+                    border: 0,
+                    background: "transparent",
+                    color: "inherit",
+                    textAlign: "left",
+                    cursor: "pointer",
+                    font: "inherit",
+                    fontStyle: "italic",
+                  }}
+                >
+                  {highlight.quote.length > 240 ? `${highlight.quote.slice(0, 240)}...` : highlight.quote}
+                </button>
+                <textarea
+                  value={draft}
+                  onChange={(event) => setDrafts((current) => ({ ...current, [highlight.id]: event.target.value }))}
+                  placeholder="Add a note"
+                  maxLength={MAX_HIGHLIGHT_NOTE_LENGTH}
+                  rows={2}
+                  aria-label="Highlight note"
+                  style={{
+                    width: "100%",
+                    marginTop: 8,
+                    padding: "6px 8px",
+                    borderRadius: 8,
+                    border: isDark ? "1px solid rgba(255,255,255,0.16)" : `1px solid ${border}`,
+                    background: "transparent",
+                    color: "inherit",
+                    font: "inherit",
+                    fontSize: "0.9rem",
+                    resize: "vertical",
+                  }}
+                />
+                <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 8 }}>
+                  {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      aria-label={HIGHLIGHT_COLORS[color].label}
+                      aria-pressed={highlight.color === color}
+                      onClick={() => {
+                        void onSave({ ...highlight, color });
+                      }}
+                      style={{
+                        width: 20,
+                        height: 20,
+                        borderRadius: "50%",
+                        border: highlight.color === color ? "2px solid currentColor" : "1px solid rgba(0,0,0,0.2)",
+                        background: HIGHLIGHT_COLORS[color].fill,
+                        cursor: "pointer",
+                      }}
+                    />
+                  ))}
+                  <span style={{ flex: 1 }} />
+                  {draft !== highlight.note && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void onSave({ ...highlight, note: draft }).then((saved) => {
+                          if (!saved) return;
+                          setDrafts((current) => {
+                            const next = { ...current };
+                            delete next[highlight.id];
+                            return next;
+                          });
+                        });
+                      }}
+                      style={buttonStyle}
+                    >
+                      Save note
+                    </button>
+                  )}
+                  <button type="button" onClick={() => onDelete(highlight)} style={buttonStyle}>
+                    Delete
+                  </button>
+                </div>
+                <label style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 8, fontSize: "0.84rem" }}>
+                  <input
+                    type="checkbox"
+                    checked={highlight.shared}
+                    onChange={(event) => {
+                      void onSave({ ...highlight, shared: event.target.checked });
+                    }}
+                  />
+                  Share with the club
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {signedIn && (
+        <section style={{ marginTop: 20 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: 600 }}>
+            <input type="checkbox" checked={clubVisible} onChange={(event) => onToggleClub(event.target.checked)} />
+            Show club notes
+          </label>
+          {clubVisible && clubNotes.length === 0 && (
+            <p style={{ margin: "8px 0 0", fontSize: "0.9rem", opacity: 0.75 }}>No club notes here yet.</p>
+          )}
+          {clubVisible && clubNotes.length > 0 && (
+            <ul style={{ listStyle: "none", margin: "10px 0 0", padding: 0, display: "grid", gap: 10 }}>
+              {sortHighlights(clubNotes).map((note) => (
+                <li
+                  key={note.id}
+                  style={{
+                    padding: "10px 12px",
+                    borderRadius: 12,
+                    border: isDark ? "1px dashed rgba(255,255,255,0.2)" : `1px dashed ${border}`,
+                  }}
+                >
+                  <div style={{ fontSize: "0.78rem", opacity: 0.7, marginBottom: 4 }}>{note.authorName}</div>
+                  <button
+                    type="button"
+                    onClick={() => onGo(note.anchor)}
+                    style={{
+                      display: "block",
+                      width: "100%",
+                      padding: 0,
+                      border: 0,
+                      background: "transparent",
+                      color: "inherit",
+                      textAlign: "left",
+                      cursor: "pointer",
+                      font: "inherit",
+                      fontStyle: "italic",
+                    }}
+                  >
+                    {note.quote.length > 240 ? `${note.quote.slice(0, 240)}...` : note.quote}
+                  </button>
+                  {note.note && (
+                    <p style={{ margin: "6px 0 0", fontSize: "0.9rem", whiteSpace: "pre-wrap" }}>{note.note}</p>
+                  )}
+                  {canModerate && (
+                    <button
+                      type="button"
+                      onClick={() => onHideClubNote(note)}
+                      style={{ ...buttonStyle, marginTop: 8 }}
+                    >
+                      Hide from club
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </aside>
+  );
+}
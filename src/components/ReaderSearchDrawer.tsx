@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_SEARCH_HITS, MIN_SEARCH_LENGTH, type SearchHit } from "@/lib/reader/search";
+
+type Props = {
+  hits: SearchHit[];
+  busy: boolean;
+  searched: string;
+  activeId: string;
+  isDark: boolean;
+  background: string;
+  border: string;
+  onSearch: (query: string) => void;
+  onGo: (hit: SearchHit) => void;
+  onClose: () => void;
+};
+
+export default function ReaderSearchDrawer({
+  hits,
+  busy,
+  searched,
+  activeId,
+  isDark,
+  background,
+  border,
+  onSearch,
+  onGo,
+  onClose,
+}: Props) {
+  const [query, setQuery] = useState(searched);
+
+  const buttonStyle = {
+    padding: "6px 10px",
+    borderRadius: 10,
+    border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+    background: "transparent",
+    color: "inherit",
+    cursor: "pointer",
+  } as const;
+
+  return (
+    <aside
+      aria-label="Search"
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 60,
+        width: "min(380px, 92vw)",
+        overflowY: "auto",
+        padding: "16px 16px 24px",
+        background: isDark ? "rgba(18,18,18,0.97)" : background,
+        borderLeft: isDark ? "1px solid rgba(255,255,255,0.08)" : `1px solid ${border}`,
+        boxShadow: "0 0 24px rgba(0,0,0,0.18)",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+        <strong>Search</strong>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          onSearch(query);
+        }}
+        style={{ display: "flex", gap: 8, marginBottom: 16 }}
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Find in this book"
+          aria-label="Search text"
+          autoFocus
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: "8px 10px",
+            borderRadius: 10,
+            border: isDark ? "1px solid rgba(255,255,255,0.16)" : `1px solid ${border}`,
+            background: "transparent",
+            color: "inherit",
+            font: "inherit",
+          }}
+        />
+        <button
+          type="submit"
+          disabled={busy || query.trim().length < MIN_SEARCH_LENGTH}
+          style={{ ...buttonStyle, opacity: busy ? 0.6 : 1 }}
+        >
+          {busy ? "Searching..." : "Search"}
+        </button>
+      </form>
+
+      {searched && !busy && (
+        <p style={{ margin: "0 0 10px", fontSize: "0.84rem", opacity: 0.75 }}>
+          {hits.length === 0
+            ? `No matches for "${searched}".`
+            : `${hits.length}${hits.length >= MAX_SEARCH_HITS ? "+" : ""} match${hits.length === 1 ? "" : "es"}`}
+        </p>
+      )}
+
+      {hits.length > 0 && (
+        <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 8 }}>
+          {hits.map((hit) => (
+            <li key={hit.id}>
+              <button
+                type="button"
+                onClick={() => onGo(hit)}
+                aria-current={hit.id === activeId}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: "8px 10px",
+                  borderRadius: 10,
+                  border:
+                    hit.id === activeId
+                      ? "1px solid currentColor"
+                      : isDark
+                        ? "1px solid rgba(255,255,255,0.1)"
+                        : `1px solid ${border}`,
+                  background: "transparent",
+                  color: "inherit",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  font: "inherit",
+                  fontSize: "0.9rem",
+                }}
+              >
+                {hit.before}
+                {hit.match && <mark className="reader-search-mark">{hit.match}</mark>}
+                {hit.after}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { SPEECH_RATE_MAX, SPEECH_RATE_MIN } from "@/lib/reader/speech";
+
+type Props = {
+  state: "idle" | "playing" | "paused";
+  voices: SpeechSynthesisVoice[];
+  voice: string;
+  rate: number;
+  isDark: boolean;
+  background: string;
+  border: string;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onVoiceChange: (voice: string) => void;
+  onRateChange: (rate: number) => void;
+  onClose: () => void;
+};
+
+export default function ReaderSpeechControls({
+  state,
+  voices,
+  voice,
+  rate,
+  isDark,
+  background,
+  border,
+  onPlay,
+  onPause,
+  onStop,
+  onVoiceChange,
+  onRateChange,
+  onClose,
+}: Props) {
+  const buttonStyle = {
+    padding: "6px 10px",
+    borderRadius: 10,
+    border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+    background: "transparent",
+    color: "inherit",
+    cursor: "pointer",
+  } as const;
+
+  return (
+    <div
+      role="region"
+      aria-label="Read to me"
+      style={{
+        position: "fixed",
+        left: 16,
+        bottom: 18,
+        zIndex: 55,
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: 8,
+        maxWidth: "calc(100vw - 32px)",
+        padding: "8px 12px",
+        borderRadius: 14,
+        border: isDark ? "1px solid rgba(255,255,255,0.14)" : `1px solid ${border}`,
+        background: isDark ? "rgba(24,24,24,0.96)" : background,
+        boxShadow: "0 6px 20px rgba(0,0,0,0.18)",
+        fontSize: "0.9rem",
+      }}
+    >
+      <strong>Read to me</strong>
+      {state === "playing" ? (
+        <button type="button" onClick={onPause} style={buttonStyle}>
+          Pause
+        </button>
+      ) : (
+        <button type="button" onClick={onPlay} style={buttonStyle}>
+          {state === "paused" ? "Resume" : "Play"}
+        </button>
+      )}
+      <button type="button" onClick={onStop} disabled={state === "idle"} style={buttonStyle}>
+        Stop
+      </button>
+      <select
+        value={voice}
+        onChange={(event) => onVoiceChange(event.target.value)}
+        aria-label="Voice"
+        style={{ ...buttonStyle, maxWidth: 180 }}
+      >
+        <option value="">Default voice</option>
+        {voices.map((item) => (
+          <option key={item.voiceURI} value={item.voiceURI}>
+            {item.name} ({item.lang})
+          </option>
+        ))}
+      </select>
+      <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        Speed
+        <input
+          type="range"
+          min={SPEECH_RATE_MIN}
+          max={SPEECH_RATE_MAX}
+          step={0.1}
+          value={rate}
+          onChange={(event) => onRateChange(Number(event.target.value))}
+        />
+        <span style={{ minWidth: 32 }}>{rate.toFixed(1)}x</span>
+      </label>
+      <button type="button" aria-label="Close read to me" onClick={onClose} style={{ ...buttonStyle, border: 0 }}>
+        &times;
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import type { TocEntry } from "@/lib/reader/toc";
+
+type Props = {
+  entries: TocEntry[];
+  currentId: string;
+  isDark: boolean;
+  background: string;
+  border: string;
+  onGo: (entry: TocEntry) => void;
+  onClose: () => void;
+};
+
+export default function ReaderTocDrawer({ entries, currentId, isDark, background, border, onGo, onClose }: Props) {
+  const hasHidden = entries.some((entry) => entry.hidden);
+
+  return (
+    <aside
+      aria-label="Contents"
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 60,
+        width: "min(360px, 92vw)",
+        overflowY: "auto",
+        padding: "16px 16px 24px",
+        background: isDark ? "rgba(18,18,18,0.97)" : background,
+        borderLeft: isDark ? "1px solid rgba(255,255,255,0.08)" : `1px solid ${border}`,
+        boxShadow: "0 0 24px rgba(0,0,0,0.18)",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+        <strong>Contents</strong>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            padding: "6px 10px",
+            borderRadius: 10,
+            border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+            background: "transparent",
+            color: "inherit",
+            cursor: "pointer",
+          }}
+        >
+          Close
+        </button>
+      </div>
+
+      {hasHidden && (
+        <p style={{ margin: "0 0 10px", fontSize: "0.84rem", opacity: 0.75 }}>
+          Greyed-out chapters are not available in this edition.
+        </p>
+      )}
+
+      <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 2 }}>
+        {entries.map((entry) => {
+          const current = entry.id === currentId;
+          return (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onClick={() => onGo(entry)}
+                disabled={entry.hidden}
+                aria-current={current ? "location" : undefined}
+                title={entry.hidden ? "Hidden for this book" : undefined}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: `6px 8px 6px ${8 + entry.depth * 14}px`,
+                  borderRadius: 8,
+                  border: 0,
+                  background: current ? (isDark ? "rgba(255,255,255,0.1)" : "rgba(0,0,0,0.06)") : "transparent",
+                  color: "inherit",
+                  textAlign: "left",
+                  cursor: entry.hidden ? "not-allowed" : "pointer",
+                  opacity: entry.hidden ? 0.4 : 1,
+                  font: "inherit",
+                  fontSize: entry.depth === 0 ? "0.95rem" : "0.88rem",
+                  fontWeight: current ? 700 : 400,
+                }}
+              >
+                {entry.label}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
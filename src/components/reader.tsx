@@ -1,8 +1,69 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type MouseEvent as ReactMouseEvent,
+  type TouchEvent as ReactTouchEvent,
+} from "react";
 import { supabaseBrowser } from "@/lib/supabase/browser";
+import type { BookmarkRecord, NamedBookmark, SyncedReadingRecord } from "@/lib/reader/readingRecords";
+import { fetchRemoteRecords, migrateLocalRecords, pushRecords, readLocalRecord } from "@/lib/reader/progressSync";
+import { addBookmark, loadBookmarks, removeBookmark } from "@/lib/reader/bookmarkStore";
+import {
+  HIGHLIGHT_COLORS,
+  highlightsToMarkdown,
+  type ClubNote,
+  type HighlightAnchor,
+  type HighlightColor,
+  type HighlightUpdate,
+  type ReaderHighlight,
+} from "@/lib/reader/highlights";
+import {
+  createHighlight,
+  deleteHighlight,
+  hideClubNote,
+  loadClubNotes,
+  loadHighlights,
+  updateHighlight,
+} from "@/lib/reader/highlightStore";
+import {
+  clearNamedHighlight,
+  offsetsFromRange,
+  paintNamedHighlight,
+  rangeFromOffsets,
+  startOffsetOf,
+} from "@/lib/reader/textRanges";
+import {
+  DEFAULT_SPEECH_RATE,
+  SPEECH_SENTENCE_HIGHLIGHT,
+  SPEECH_WORD_HIGHLIGHT,
+  ensureEpubSpeechStyles,
+  normalizeSpeechRate,
+  speechSegments,
+  speechSupported,
+  wordSpanAt,
+  type SpeechSegment,
+} from "@/lib/reader/speech";
+import {
+  NARRATION_HIGHLIGHT,
+  activeNarrationSpan,
+  locateNarrationCues,
+  type NarrationCue,
+  type NarrationSpan,
+} from "@/lib/reader/narration";
+import { currentTocEntryId, flattenToc, type TocEntry, type TocItemLike } from "@/lib/reader/toc";
+import { MAX_SEARCH_HITS, epubSearchHit, findTextHits, searchPattern, type SearchHit } from "@/lib/reader/search";
+import MarkdownContent from "@/components/MarkdownContent";
+import ReaderBookmarksDrawer from "@/components/ReaderBookmarksDrawer";
+import ReaderHighlightsDrawer from "@/components/ReaderHighlightsDrawer";
+import ReaderSearchDrawer from "@/components/ReaderSearchDrawer";
+import ReaderSpeechControls from "@/components/ReaderSpeechControls";
+import ReaderTocDrawer from "@/components/ReaderTocDrawer";
 
 type Props = {
   chapterId: string;
@@ -16,26 +77,37 @@ type Props = {
   sectionLabel?: string;
   mediaUrl?: string;
   mediaType?: string;
+  narrationUrl?: string;
+  narrationTimings?: NarrationCue[];
   hideFirstPages?: number;
   maxVisiblePages?: number;
 };
 
 type MediaKind = "image" | "video" | "audio" | "pdf" | "epub" | "link";
 type PaperTheme = "ivory" | "parchment" | "cream" | "stone";
-type BookmarkRecord =
-  | { type: "scroll"; y: number; at: number }
-  | { type: "epub"; cfi: string; at: number };
+type ReaderLayout = "scroll" | "paged";
 type ReaderPrefs = {
   mode: "light" | "dark";
   fontSize: number;
   paperTheme: PaperTheme;
   brightness: number;
   focusMode: boolean;
+  layout: ReaderLayout;
+  speechVoice: string;
+  speechRate: number;
 };
 
+// Positions waiting to be applied once the text is laid out; "fraction" carries the reading
+// position across a switch between scroll and paged layouts.
+type PendingPosition = BookmarkRecord | { type: "fraction"; fraction: number; at: number };
+
 type EpubRelocatedLocation = {
+  end?: {
+    cfi?: string;
+  };
   start?: {
     cfi?: string;
+    index?: number;
     percentage?: number;
     displayed?: {
       page?: number;
@@ -45,20 +117,59 @@ type EpubRelocatedLocation = {
   };
 };
 
+type EpubContentsLike = {
+  document: Document;
+  range?: (cfi: string) => Range;
+};
+
 type EpubRenditionLike = {
-  on: (event: "relocated", callback: (location: unknown) => void) => void;
+  on: (event: "relocated" | "selected", callback: (...args: unknown[]) => void) => void;
   display: (target?: string) => Promise<unknown> | unknown;
   prev?: () => Promise<unknown> | unknown;
   next?: () => Promise<unknown> | unknown;
   destroy?: () => void;
   currentLocation?: () => EpubRelocatedLocation | undefined;
+  getContents?: () => EpubContentsLike[];
   themes?: {
     default: (styles: Record<string, unknown>) => void;
     fontSize: (size: string) => void;
   };
+  annotations?: {
+    highlight: (
+      cfiRange: string,
+      data?: Record<string, unknown>,
+      callback?: () => void,
+      className?: string,
+      styles?: Record<string, string>
+    ) => unknown;
+    remove: (cfiRange: string, type: "highlight") => void;
+  };
+};
+
+type PendingSelection = { anchor: HighlightAnchor; quote: string };
+
+type SpeechQueue = { source: "text" | "epub"; segments: SpeechSegment[] };
+
+type EpubSectionLike = {
+  index: number;
+  cfiBase?: string;
+  load: (request: (path: string) => Promise<unknown>) => Promise<unknown>;
+  find: (query: string) => { cfi: string; excerpt: string }[] | Promise<{ cfi: string; excerpt: string }[]>;
+  unload: () => void;
+};
+
+type EpubLocationsLike = {
+  length: () => number;
+  generate: (chars: number) => Promise<unknown>;
+  locationFromCfi: (cfi: string) => number;
 };
 
 type EpubBookLike = {
+  load?: (path: string) => Promise<unknown>;
+  loaded?: { navigation?: Promise<unknown> };
+  navigation?: { toc?: TocItemLike[] };
+  spine?: { spineItems?: EpubSectionLike[]; get?: (target: string) => EpubSectionLike | null | undefined };
+  locations?: EpubLocationsLike;
   renderTo: (
     element: HTMLElement,
     options: {
@@ -71,6 +182,16 @@ type EpubBookLike = {
   destroy?: () => void;
 };
 
+const CLUB_NOTE_FILL = "#a0aec0";
+const NO_NARRATION_CUES: NarrationCue[] = [];
+const SEARCH_HIGHLIGHT = "reader-search";
+const SEARCH_FILL = "#fbd38d";
+// Roughly a printed page of text. Every hidden-page check numbers EPUB pages by these locations, the same
+// size the server uses to cut previews, so page turns, search and contents agree on what is hidden.
+const EPUB_LOCATION_CHARS = 1600;
+const PAGE_GAP = 48;
+const SWIPE_MIN_PX = 50;
+
 const PAPER_STYLES: Record<PaperTheme, { label: string; page: string; panel: string; border: string }> = {
   ivory: { label: "Ivory", page: "#f5f1e8", panel: "#fbf7ee", border: "rgba(58, 42, 22, 0.14)" },
   parchment: { label: "Parchment", page: "#efe3cc", panel: "#f7ecd8", border: "rgba(88, 62, 28, 0.2)" },
@@ -82,6 +203,91 @@ function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
+function positionFraction(position: PendingPosition) {
+  if (position.type === "fraction") return clamp(position.fraction, 0, 1);
+  if (position.type === "page") return position.pages > 1 ? position.page / (position.pages - 1) : 0;
+  return null;
+}
+
+function pageForPosition(position: PendingPosition, pageCount: number) {
+  const fraction = positionFraction(position);
+  return fraction === null ? 0 : clamp(Math.round(fraction * (pageCount - 1)), 0, pageCount - 1);
+}
+
+function scrollYForPosition(position: PendingPosition) {
+  if (position.type === "scroll") return position.y;
+  const fraction = positionFraction(position) ?? 0;
+  return Math.round(fraction * Math.max(0, document.documentElement.scrollHeight - window.innerHeight));
+}
+
+// Read-aloud in an EPUB covers the displayed section, starting from the top of the current page.
+function epubSpeechQueue(rendition: EpubRenditionLike) {
+  const contents = rendition.getContents?.()[0];
+  const body = contents?.document?.body;
+  if (!contents || !body) return null;
+  const segments = speechSegments(body);
+  const cfi = rendition.currentLocation?.()?.start?.cfi;
+  const range = cfi ? contents.range?.(cfi) : null;
+  const from = (range && startOffsetOf(body, range)) ?? 0;
+  const index = segments.findIndex((segment) => segment.end > from);
+  return { contents, segments, startIndex: index === -1 ? segments.length : index };
+}
+
+const epubLocationsReady = new WeakMap<EpubBookLike, Promise<EpubLocationsLike | null>>();
+
+// epub.js only numbers pages within the rendered section, so the hidden page limits are checked
+// against generated locations instead. Generated once per book and shared by page turns, search and contents.
+function ensureEpubLocations(book: EpubBookLike) {
+  let ready = epubLocationsReady.get(book);
+  if (!ready) {
+    const locations = book.locations;
+    ready = !locations
+      ? Promise.resolve(null)
+      : locations.length() > 0
+        ? Promise.resolve(locations)
+        : locations.generate(EPUB_LOCATION_CHARS).then(
+            () => locations,
+            () => null
+          );
+    epubLocationsReady.set(book, ready);
+  }
+  return ready;
+}
+
+function epubPageOf(locations: EpubLocationsLike, cfi: string) {
+  return locations.locationFromCfi(cfi) + 1;
+}
+
+function isHiddenEpubPage(page: number, hideFirstPages: number, maxVisiblePages: number) {
+  return page <= 0 || page <= hideFirstPages || (maxVisiblePages > 0 && page > maxVisiblePages);
+}
+
+// Hits inside the hidden pages are left out of the results.
+async function searchEpub(book: EpubBookLike, query: string, hideFirstPages: number, maxVisiblePages: number) {
+  const load = book.load?.bind(book);
+  const sections = book.spine?.spineItems ?? [];
+  const limited = hideFirstPages > 0 || maxVisiblePages > 0;
+  const locations = limited ? await ensureEpubLocations(book) : null;
+  if (!load || (limited && !locations)) return [];
+
+  const hits: SearchHit[] = [];
+  for (const section of sections) {
+    if (hits.length >= MAX_SEARCH_HITS) break;
+    try {
+      await section.load(load);
+      for (const item of await Promise.resolve(section.find(query))) {
+        if (locations && isHiddenEpubPage(epubPageOf(locations, item.cfi), hideFirstPages, maxVisiblePages)) {
+          continue;
+        }
+        hits.push(epubSearchHit(item.cfi, item.excerpt, query));
+      }
+    } finally {
+      section.unload();
+    }
+  }
+  return hits.slice(0, MAX_SEARCH_HITS);
+}
+
 function detectMediaKind(mediaUrl: string, mediaType?: string): MediaKind {
   const byType = (mediaType || "").toLowerCase();
   if (byType.startsWith("image/")) return "image";
@@ -111,6 +317,8 @@ export default function Reader({
   sectionLabel,
   mediaUrl = "",
   mediaType = "",
+  narrationUrl = "",
+  narrationTimings = NO_NARRATION_CUES,
   hideFirstPages = 0,
   maxVisiblePages = 0,
 }: Props) {
@@ -118,7 +326,6 @@ export default function Reader({
   const userSegment = resolvedUserId || "guest";
   const prefsKey = useMemo(() => `lr_reader_prefs_${userSegment}`, [userSegment]);
   const progressKey = useMemo(() => `lr_reader_progress_${userSegment}_${chapterId}`, [userSegment, chapterId]);
-  const bookmarkKey = useMemo(() => `lr_reader_bookmark_${userSegment}_${chapterId}`, [userSegment, chapterId]);
 
   const [mode, setMode] = useState<"light" | "dark">(() => {
     if (typeof window === "undefined") return "light";
@@ -176,6 +383,39 @@ export default function Reader({
     } catch {}
     return false;
   });
+  const [layout, setLayout] = useState<ReaderLayout>(() => {
+    if (typeof window === "undefined") return "scroll";
+    try {
+      const raw = localStorage.getItem(`lr_reader_prefs_${userId || "guest"}`);
+      if (raw) {
+        const p = JSON.parse(raw) as Partial<ReaderPrefs>;
+        if (p.layout === "paged") return "paged";
+      }
+    } catch {}
+    return "scroll";
+  });
+  const [speechVoice, setSpeechVoice] = useState<string>(() => {
+    if (typeof window === "undefined") return "";
+    try {
+      const raw = localStorage.getItem(`lr_reader_prefs_${userId || "guest"}`);
+      if (raw) {
+        const p = JSON.parse(raw) as Partial<ReaderPrefs>;
+        if (typeof p.speechVoice === "string") return p.speechVoice;
+      }
+    } catch {}
+    return "";
+  });
+  const [speechRate, setSpeechRate] = useState<number>(() => {
+    if (typeof window === "undefined") return DEFAULT_SPEECH_RATE;
+    try {
+      const raw = localStorage.getItem(`lr_reader_prefs_${userId || "guest"}`);
+      if (raw) {
+        const p = JSON.parse(raw) as Partial<ReaderPrefs>;
+        return normalizeSpeechRate(p.speechRate ?? DEFAULT_SPEECH_RATE);
+      }
+    } catch {}
+    return DEFAULT_SPEECH_RATE;
+  });
 
   const [progress, setProgress] = useState<number>(0);
   const [epubBusy, setEpubBusy] = useState(false);
@@ -183,23 +423,67 @@ export default function Reader({
   const [epubError, setEpubError] = useState("");
   const [epubLocationLabel, setEpubLocationLabel] = useState("");
   const [epubCurrentPage, setEpubCurrentPage] = useState<number | null>(null);
+  // Last page shown in the view; with limits set, both are global location pages rather than epub.js section pages.
+  const [epubEndPage, setEpubEndPage] = useState<number | null>(null);
+  const [epubSectionIndex, setEpubSectionIndex] = useState<number | null>(null);
+  const [epubToc, setEpubToc] = useState<TocEntry[]>([]);
+  const [epubTocHiddenIds, setEpubTocHiddenIds] = useState<string[]>([]);
   const [bookmarkMessage, setBookmarkMessage] = useState("");
-  const [hasBookmark, setHasBookmark] = useState(false);
-  const [progressRecord, setProgressRecord] = useState<BookmarkRecord | null>(null);
-  const [bookmarkRecord, setBookmarkRecord] = useState<BookmarkRecord | null>(null);
+  const [bookmarks, setBookmarks] = useState<NamedBookmark[]>([]);
+  const [openDrawer, setOpenDrawer] = useState<"bookmarks" | "highlights" | "search" | "contents" | null>(null);
+  const [bookmarkBusy, setBookmarkBusy] = useState(false);
+  const [highlights, setHighlights] = useState<ReaderHighlight[]>([]);
+  const [pendingSelection, setPendingSelection] = useState<PendingSelection | null>(null);
+  const [clubVisible, setClubVisible] = useState(false);
+  const [clubNotes, setClubNotes] = useState<ClubNote[]>([]);
+  const [canModerate, setCanModerate] = useState(false);
   const [remoteHydrated, setRemoteHydrated] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [pageTurnFx, setPageTurnFx] = useState<"" | "next" | "prev">("");
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageCount, setPageCount] = useState(0);
+  const [pageStride, setPageStride] = useState(0);
+  const [restoreTick, setRestoreTick] = useState(0);
+  const [speechOpen, setSpeechOpen] = useState(false);
+  const [speechState, setSpeechState] = useState<"idle" | "playing" | "paused">("idle");
+  const [speechQueue, setSpeechQueue] = useState<SpeechQueue | null>(null);
+  const [speechIndex, setSpeechIndex] = useState(0);
+  const [speechWord, setSpeechWord] = useState<{ start: number; end: number } | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [narrationSpans, setNarrationSpans] = useState<NarrationSpan[]>([]);
+  const [narrationCue, setNarrationCue] = useState(-1);
+  const [narrationPlaying, setNarrationPlaying] = useState(false);
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [searchBusy, setSearchBusy] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [activeSearchId, setActiveSearchId] = useState("");
   const readerRootRef = useRef<HTMLDivElement | null>(null);
   const epubContainerRef = useRef<HTMLDivElement | null>(null);
   const epubBookRef = useRef<EpubBookLike | null>(null);
   const epubRenditionRef = useRef<EpubRenditionLike | null>(null);
   const epubAutoSkipAttemptsRef = useRef(0);
   const pageTurnTimerRef = useRef<number | null>(null);
+  const articleTextRef = useRef<HTMLDivElement | null>(null);
+  const pagedViewportRef = useRef<HTMLDivElement | null>(null);
+  const pagedTrackRef = useRef<HTMLDivElement | null>(null);
+  const pageCountRef = useRef(0);
+  const pendingPositionRef = useRef<PendingPosition | null>(null);
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+  const epubSpeechContentsRef = useRef<EpubContentsLike | null>(null);
+  const epubSpeechAdvanceRef = useRef("");
+  const narrationAudioRef = useRef<HTMLAudioElement | null>(null);
+  const searchMarkRef = useRef("");
+  const epubHighlightsRef = useRef(new Map<string, { cfiRange: string; fill: string }>());
+  // Progress as found on load; restoring it re-stamps "at", so remote records compare against this.
+  const loadedProgressRef = useRef<BookmarkRecord | null>(null);
+  const remoteHydratedRef = useRef(false);
+  const pendingSyncRef = useRef<SyncedReadingRecord | null>(null);
+  const syncTimerRef = useRef<number | null>(null);
   const isDark = mode === "dark";
   const trimmed = content.trim();
   const mediaKind = mediaUrl ? detectMediaKind(mediaUrl, mediaType) : null;
   const isEpub = mediaKind === "epub";
+  const pagedMode = layout === "paged" && Boolean(trimmed) && !isEpub;
   const normalizedHideFirstPages = Number.isFinite(hideFirstPages)
     ? clamp(Math.round(hideFirstPages), 0, 5000)
     : 0;
@@ -207,13 +491,11 @@ export default function Reader({
   const normalizedMaxVisiblePages = Number.isFinite(maxVisiblePages)
     ? clamp(Math.round(maxVisiblePages), 0, 5000)
     : 0;
+  // Until the locations are generated the page is unknown, so both directions stay shut.
   const hitHiddenStartLimit =
-    isEpub &&
-    normalizedHideFirstPages > 0 &&
-    Number.isFinite(epubCurrentPage) &&
-    (epubCurrentPage || 0) <= firstVisiblePage;
+    isEpub && normalizedHideFirstPages > 0 && (epubCurrentPage === null || epubCurrentPage <= firstVisiblePage);
   const hitPageLimit =
-    isEpub && normalizedMaxVisiblePages > 0 && Number.isFinite(epubCurrentPage) && (epubCurrentPage || 0) >= normalizedMaxVisiblePages;
+    isEpub && normalizedMaxVisiblePages > 0 && (epubEndPage === null || epubEndPage >= normalizedMaxVisiblePages);
   const paper = PAPER_STYLES[paperTheme];
 
   useEffect(() => {
@@ -244,60 +526,310 @@ export default function Reader({
       if (p.paperTheme && p.paperTheme in PAPER_STYLES) setPaperTheme(p.paperTheme as PaperTheme);
       if (typeof p.brightness === "number") setBrightness(clamp(p.brightness, 70, 130));
       setFocusMode(Boolean(p.focusMode));
+      setLayout(p.layout === "paged" ? "paged" : "scroll");
+      setSpeechVoice(typeof p.speechVoice === "string" ? p.speechVoice : "");
+      setSpeechRate(normalizeSpeechRate(p.speechRate ?? DEFAULT_SPEECH_RATE));
+      setClubVisible(Boolean(p.clubNotes));
     } catch {}
   }, [prefsKey]);
 
   useEffect(() => {
-    try {
-      const last = localStorage.getItem(progressKey);
-      if (!last) return;
-      const parsed = JSON.parse(last) as BookmarkRecord;
-      setProgressRecord(parsed);
-      if (parsed?.type === "scroll" && Number.isFinite(parsed.y)) {
-        setTimeout(() => window.scrollTo(0, parsed.y), 0);
-      }
-    } catch {}
+    const parsed = readLocalRecord(progressKey);
+    loadedProgressRef.current = parsed;
+    if (parsed && parsed.type !== "epub") {
+      pendingPositionRef.current = parsed;
+      setRestoreTick((tick) => tick + 1);
+    }
   }, [progressKey]);
 
+  const flushSync = useCallback((keepalive = false) => {
+    if (syncTimerRef.current) {
+      window.clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = null;
+    }
+    const pending = pendingSyncRef.current;
+    pendingSyncRef.current = null;
+    if (pending) void pushRecords([pending], keepalive).catch(() => {});
+  }, []);
+
+  // Signed-in readers only, and never before remote records were merged in, otherwise a
+  // fresh device would overwrite its newer position elsewhere.
+  const queueSync = useCallback(
+    (record: BookmarkRecord) => {
+      if (!resolvedUserId || !remoteHydratedRef.current) return;
+      pendingSyncRef.current = { itemKey: chapterId, kind: "progress", record };
+      if (syncTimerRef.current) window.clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = window.setTimeout(() => flushSync(), 3000);
+    },
+    [chapterId, resolvedUserId, flushSync]
+  );
+
+  useEffect(() => {
+    remoteHydratedRef.current = false;
+    setRemoteHydrated(false);
+    if (!resolvedUserId) return;
+    let cancelled = false;
+
+    async function hydrateFromRemote(userId: string) {
+      await migrateLocalRecords(userId);
+      const remote = await fetchRemoteRecords(chapterId).catch(() => []);
+      if (cancelled) return;
+
+      for (const item of remote) {
+        if (item.kind !== "progress") continue;
+        const local = loadedProgressRef.current;
+        if (local && local.at >= item.record.at) continue;
+        loadedProgressRef.current = item.record;
+        try {
+          localStorage.setItem(progressKey, JSON.stringify(item.record));
+        } catch {}
+        if (item.record.type === "epub") {
+          void epubRenditionRef.current?.display?.(item.record.cfi);
+        } else {
+          pendingPositionRef.current = item.record;
+          setRestoreTick((tick) => tick + 1);
+        }
+      }
+
+      remoteHydratedRef.current = true;
+      setRemoteHydrated(true);
+    }
+
+    void hydrateFromRemote(resolvedUserId);
+    return () => {
+      cancelled = true;
+    };
+  }, [resolvedUserId, chapterId, progressKey]);
+
+  useEffect(() => {
+    if (!remoteHydrated) return;
+    const onPageHide = () => flushSync(true);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.removeEventListener("pagehide", onPageHide);
+      flushSync(true);
+    };
+  }, [remoteHydrated, flushSync]);
+
   useEffect(() => {
     try {
       localStorage.setItem(
         prefsKey,
-        JSON.stringify({ mode, fontSize, paperTheme, brightness, focusMode })
+        JSON.stringify({
+          mode,
+          fontSize,
+          paperTheme,
+          brightness,
+          focusMode,
+          layout,
+          speechVoice,
+          speechRate,
+          clubNotes: clubVisible,
+        })
       );
     } catch {}
-  }, [mode, fontSize, paperTheme, brightness, focusMode, prefsKey]);
+  }, [mode, fontSize, paperTheme, brightness, focusMode, layout, speechVoice, speechRate, clubVisible, prefsKey]);
 
   useEffect(() => {
-    try {
-      setHasBookmark(Boolean(localStorage.getItem(bookmarkKey)));
-    } catch {
-      setHasBookmark(false);
+    let cancelled = false;
+    loadBookmarks(chapterId, resolvedUserId)
+      .then((list) => {
+        if (!cancelled) setBookmarks(list);
+      })
+      .catch(() => {
+        if (!cancelled) setBookmarks([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterId, resolvedUserId]);
+
+  useEffect(() => {
+    setPendingSelection(null);
+    if (!resolvedUserId) {
+      setHighlights([]);
+      return;
     }
-  }, [bookmarkKey]);
+    let cancelled = false;
+    loadHighlights(chapterId)
+      .then((list) => {
+        if (!cancelled) setHighlights(list);
+      })
+      .catch(() => {
+        if (!cancelled) setHighlights([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterId, resolvedUserId]);
 
   useEffect(() => {
-    if (isEpub) return;
-    const onScroll = () => {
+    if (!resolvedUserId || !clubVisible) {
+      setClubNotes([]);
+      return;
+    }
+    let cancelled = false;
+    loadClubNotes(chapterId)
+      .then((result) => {
+        if (cancelled) return;
+        setClubNotes(result.notes);
+        setCanModerate(result.canModerate);
+      })
+      .catch(() => {
+        if (!cancelled) setClubNotes([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterId, resolvedUserId, clubVisible]);
+
+  useEffect(() => {
+    const onSelectionChange = () => {
+      const root = articleTextRef.current;
+      const selection = window.getSelection();
+      if (!root || !selection || selection.rangeCount === 0 || selection.isCollapsed) {
+        setPendingSelection((current) => (current?.anchor.type === "text" ? null : current));
+        return;
+      }
+      const range = selection.getRangeAt(0);
+      const offsets = offsetsFromRange(root, range);
+      const quote = range.toString().trim();
+      if (offsets && quote) setPendingSelection({ anchor: { type: "text", ...offsets }, quote });
+    };
+    document.addEventListener("selectionchange", onSelectionChange);
+    return () => document.removeEventListener("selectionchange", onSelectionChange);
+  }, []);
+
+  // The CSS Custom Highlight API paints ranges without touching the DOM React renders.
+  useEffect(() => {
+    const root = articleTextRef.current;
+    if (!root || typeof CSS === "undefined" || !("highlights" in CSS)) return;
+    const names: string[] = [];
+    for (const color of Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]) {
+      const ranges = highlights.flatMap((highlight) =>
+        highlight.color === color && highlight.anchor.type === "text"
+          ? rangeFromOffsets(root, highlight.anchor.start, highlight.anchor.end) ?? []
+          : []
+      );
+      if (ranges.length === 0) continue;
+      const name = `reader-hl-${color}`;
+      CSS.highlights.set(name, new Highlight(...ranges));
+      names.push(name);
+    }
+    const clubRanges = clubNotes.flatMap((note) =>
+      note.anchor.type === "text" ? rangeFromOffsets(root, note.anchor.start, note.anchor.end) ?? [] : []
+    );
+    if (clubRanges.length > 0) {
+      CSS.highlights.set("reader-hl-club", new Highlight(...clubRanges));
+      names.push("reader-hl-club");
+    }
+    return () => names.forEach((name) => CSS.highlights.delete(name));
+  }, [highlights, clubNotes, trimmed]);
+
+  useEffect(() => {
+    const rendition = epubRenditionRef.current;
+    const annotations = rendition?.annotations;
+    if (!epubReady || !annotations) return;
+    const applied = epubHighlightsRef.current;
+    const wanted = new Map([
+      ...highlights.flatMap((highlight) =>
+        highlight.anchor.type === "epub"
+          ? [[highlight.id, { cfiRange: highlight.anchor.cfiRange, fill: HIGHLIGHT_COLORS[highlight.color].fill }] as const]
+          : []
+      ),
+      ...clubNotes.flatMap((note) =>
+        note.anchor.type === "epub"
+          ? [[`club:${note.id}`, { cfiRange: note.anchor.cfiRange, fill: CLUB_NOTE_FILL }] as const]
+          : []
+      ),
+    ]);
+
+    for (const [id, mark] of applied) {
+      if (wanted.get(id)?.fill === mark.fill) continue;
+      annotations.remove(mark.cfiRange, "highlight");
+      applied.delete(id);
+    }
+    for (const [id, mark] of wanted) {
+      if (applied.has(id)) continue;
+      annotations.highlight(mark.cfiRange, { id }, undefined, "reader-hl", {
+        fill: mark.fill,
+        "fill-opacity": "0.45",
+        "mix-blend-mode": "multiply",
+      });
+      applied.set(id, mark);
+    }
+  }, [highlights, clubNotes, epubReady]);
+
+  useEffect(() => {
+    if (isEpub || pagedMode) return;
+    const measure = () => {
       const scrolled = window.scrollY;
       const height = document.documentElement.scrollHeight - window.innerHeight;
       const pct = height > 0 ? Math.round((scrolled / height) * 100) : 0;
       setProgress(clamp(pct, 0, 100));
+      return scrolled;
+    };
+    const onScroll = () => {
+      const record: BookmarkRecord = { type: "scroll", y: measure(), at: Date.now() };
       try {
-        localStorage.setItem(
-          progressKey,
-          JSON.stringify({
-            type: "scroll",
-            y: scrolled,
-            at: Date.now(),
-          } satisfies BookmarkRecord)
-        );
+        localStorage.setItem(progressKey, JSON.stringify(record));
       } catch {}
+      queueSync(record);
     };
-    onScroll();
+    // Only real scrolls are saved, so opening a page does not stamp position 0 as newest.
+    measure();
     window.addEventListener("scroll", onScroll, { passive: true });
     return () => window.removeEventListener("scroll", onScroll);
-  }, [progressKey, isEpub]);
+  }, [progressKey, isEpub, pagedMode, queueSync]);
+
+  // Paged layout: the text flows into viewport-wide CSS columns and the track is shifted one
+  // column at a time. Re-measuring keeps the reader on the same part of the chapter.
+  useEffect(() => {
+    const viewport = pagedViewportRef.current;
+    const track = pagedTrackRef.current;
+    if (!pagedMode || !viewport || !track) {
+      pageCountRef.current = 0;
+      setPageCount(0);
+      return;
+    }
+    const measure = () => {
+      const stride = viewport.clientWidth + PAGE_GAP;
+      const count = Math.max(1, Math.round((track.scrollWidth + PAGE_GAP) / stride));
+      const previous = pageCountRef.current;
+      pageCountRef.current = count;
+      setPageStride(stride);
+      setPageCount(count);
+      if (previous && previous !== count) {
+        setPageIndex((index) => clamp(Math.round((index * (count - 1)) / Math.max(1, previous - 1)), 0, count - 1));
+      } else {
+        setPageIndex((index) => clamp(index, 0, count - 1));
+      }
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    track.addEventListener("load", measure, true);
+    return () => {
+      observer.disconnect();
+      track.removeEventListener("load", measure, true);
+    };
+  }, [pagedMode, trimmed, fontSize, focusMode]);
+
+  useEffect(() => {
+    const position = pendingPositionRef.current;
+    if (!position || (pagedMode && pageCount === 0)) return;
+    pendingPositionRef.current = null;
+    if (pagedMode) {
+      setPageIndex(pageForPosition(position, pageCount));
+      return;
+    }
+    window.setTimeout(() => window.scrollTo(0, scrollYForPosition(position)), 0);
+  }, [restoreTick, pagedMode, pageCount]);
+
+  useEffect(() => {
+    if (!pagedMode || pageCount === 0) return;
+    setProgress(pageCount > 1 ? Math.round((pageIndex / (pageCount - 1)) * 100) : 100);
+  }, [pagedMode, pageIndex, pageCount]);
 
   useEffect(() => {
     if (!isEpub || !mediaUrl) {
@@ -306,15 +838,23 @@ export default function Reader({
       setEpubError("");
       setEpubLocationLabel("");
       setEpubCurrentPage(null);
+      setEpubEndPage(null);
+      setEpubSectionIndex(null);
+      setEpubToc([]);
       return;
     }
 
     let cancelled = false;
+    const appliedHighlights = epubHighlightsRef.current;
     setEpubBusy(true);
     setEpubReady(false);
     setEpubError("");
     setEpubLocationLabel("");
+    setEpubCurrentPage(null);
+    setEpubEndPage(null);
+    setEpubToc([]);
     epubAutoSkipAttemptsRef.current = 0;
+    const limited = normalizedHideFirstPages > 0 || normalizedMaxVisiblePages > 0;
 
     async function mountEpub() {
       try {
@@ -334,6 +874,40 @@ export default function Reader({
           flow: "paginated",
         });
 
+        // undefined while the locations are still being generated, null if they could not be.
+        let pageLocations: EpubLocationsLike | null | undefined;
+        const showGlobalPages = (loc: EpubRelocatedLocation) => {
+          const startCfi = loc.start?.cfi ?? "";
+          if (!pageLocations || !startCfi) {
+            setEpubCurrentPage(null);
+            setEpubEndPage(null);
+            setEpubLocationLabel(pageLocations === null ? "Page numbers unavailable" : "Preparing pages...");
+            return;
+          }
+          const page = epubPageOf(pageLocations, startCfi);
+          setEpubCurrentPage(page);
+          setEpubEndPage(loc.end?.cfi ? epubPageOf(pageLocations, loc.end.cfi) : page);
+          setEpubLocationLabel(`Page ${page} of ${pageLocations.length()}`);
+          if (page > normalizedHideFirstPages) {
+            epubAutoSkipAttemptsRef.current = 0;
+            return;
+          }
+          if (epubAutoSkipAttemptsRef.current <= normalizedHideFirstPages + 8) {
+            epubAutoSkipAttemptsRef.current += 1;
+            setBookmarkMessage(`First ${normalizedHideFirstPages} pages are hidden.`);
+            setTimeout(() => setBookmarkMessage(""), 1500);
+            void rendition.next?.();
+          }
+        };
+
+        rendition.on("selected", (cfiRange: unknown, contents: unknown) => {
+          const view = (contents as { window?: Window } | undefined)?.window;
+          const quote = view?.getSelection()?.toString().trim() || "";
+          if (typeof cfiRange === "string" && cfiRange && quote) {
+            setPendingSelection({ anchor: { type: "epub", cfiRange }, quote });
+          }
+        });
+
         rendition.on("relocated", (location: unknown) => {
           const loc = (location as EpubRelocatedLocation) ?? {};
           const start = loc.start ?? {};
@@ -341,62 +915,37 @@ export default function Reader({
           try {
             const cfi = typeof start.cfi === "string" ? start.cfi : "";
             if (cfi) {
-              localStorage.setItem(
-                progressKey,
-                JSON.stringify({
-                  type: "epub",
-                  cfi,
-                  at: Date.now(),
-                } satisfies BookmarkRecord)
-              );
+              const record: BookmarkRecord = { type: "epub", cfi, at: Date.now() };
+              localStorage.setItem(progressKey, JSON.stringify(record));
+              queueSync(record);
             }
           } catch {}
+          setEpubSectionIndex(typeof start.index === "number" ? start.index : null);
 
           const percentage = Number(start.percentage);
           if (Number.isFinite(percentage)) {
             setProgress(clamp(Math.round(percentage * 100), 0, 100));
           }
 
-          const page = Number(displayed.page);
-          const total = Number(displayed.total);
-          if (Number.isFinite(page) && normalizedHideFirstPages > 0 && page <= normalizedHideFirstPages) {
-            setEpubCurrentPage(page);
-            if (epubAutoSkipAttemptsRef.current <= normalizedHideFirstPages + 8) {
-              epubAutoSkipAttemptsRef.current += 1;
-              setBookmarkMessage(`First ${normalizedHideFirstPages} pages are hidden.`);
-              setTimeout(() => setBookmarkMessage(""), 1500);
-              void rendition.next?.();
-            }
+          if (limited) {
+            showGlobalPages(loc);
             return;
           }
+
+          const page = Number(displayed.page);
+          const total = Number(displayed.total);
           if (Number.isFinite(page) && Number.isFinite(total) && total > 0) {
-            epubAutoSkipAttemptsRef.current = 0;
             setEpubCurrentPage(page);
             setEpubLocationLabel(`Page ${page} of ${total}`);
             return;
           }
-          if (Number.isFinite(page)) {
-            epubAutoSkipAttemptsRef.current = 0;
-            setEpubCurrentPage(page);
-          } else {
-            setEpubCurrentPage(null);
-          }
-          if (!Number.isFinite(percentage) && Number.isFinite(page) && Number.isFinite(total) && total > 0) {
-            const pct = Math.round((page / total) * 100);
-            setProgress(clamp(pct, 0, 100));
-          }
+          setEpubCurrentPage(Number.isFinite(page) ? page : null);
           const href = typeof start.href === "string" ? start.href : "";
           setEpubLocationLabel(href || "");
         });
 
-        let initialCfi = "";
-        try {
-          const saved = localStorage.getItem(progressKey);
-          if (saved) {
-            const parsed = JSON.parse(saved) as BookmarkRecord;
-            if (parsed?.type === "epub" && typeof parsed.cfi === "string") initialCfi = parsed.cfi;
-          }
-        } catch {}
+        const saved = readLocalRecord(progressKey);
+        const initialCfi = saved?.type === "epub" ? saved.cfi : "";
 
         await rendition.display(initialCfi || undefined);
         if (cancelled) return;
@@ -404,6 +953,22 @@ export default function Reader({
         epubBookRef.current = book;
         epubRenditionRef.current = rendition;
         setEpubReady(true);
+
+        if (limited) {
+          void ensureEpubLocations(book).then((locations) => {
+            if (cancelled) return;
+            pageLocations = locations;
+            showGlobalPages(rendition.currentLocation?.() ?? {});
+          });
+        }
+
+        void Promise.resolve(book.loaded?.navigation)
+          .then(() => {
+            if (cancelled) return;
+            const sectionIndexOf = (href: string) => book.spine?.get?.(href.split("#")[0])?.index ?? -1;
+            setEpubToc(flattenToc(book.navigation?.toc ?? [], sectionIndexOf));
+          })
+          .catch(() => {});
       } catch {
         if (!cancelled) {
           setEpubError("Unable to render this EPUB in-app.");
@@ -424,9 +989,10 @@ export default function Reader({
         epubBookRef.current?.destroy?.();
       } catch {}
       epubRenditionRef.current = null;
+      appliedHighlights.clear();
       epubBookRef.current = null;
     };
-  }, [isEpub, mediaUrl, progressKey, normalizedHideFirstPages]);
+  }, [isEpub, mediaUrl, progressKey, normalizedHideFirstPages, normalizedMaxVisiblePages, queueSync]);
 
   useEffect(() => {
     const rendition = epubRenditionRef.current;
@@ -455,17 +1021,54 @@ export default function Reader({
     } catch {}
   }, [epubReady, fontSize, isDark, paper.panel]);
 
+  // Entries are placed by the location of their section's start, like search hits.
+  useEffect(() => {
+    const book = epubBookRef.current;
+    setEpubTocHiddenIds([]);
+    if (!epubReady || !book || epubToc.length === 0) return;
+    if (normalizedHideFirstPages === 0 && normalizedMaxVisiblePages === 0) return;
+    let cancelled = false;
+    void ensureEpubLocations(book).then((locations) => {
+      if (cancelled) return;
+      const hidden = epubToc.filter((entry) => {
+        const section = book.spine?.get?.(entry.href.split("#")[0]);
+        if (!locations || !section?.cfiBase) return true;
+        const page = epubPageOf(locations, `epubcfi(${section.cfiBase}!/4)`);
+        return isHiddenEpubPage(page, normalizedHideFirstPages, normalizedMaxVisiblePages);
+      });
+      setEpubTocHiddenIds(hidden.map((entry) => entry.id));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [epubReady, epubToc, normalizedHideFirstPages, normalizedMaxVisiblePages]);
+
+  const tocEntries = useMemo(
+    () => epubToc.map((entry) => ({ ...entry, hidden: epubTocHiddenIds.includes(entry.id) })),
+    [epubToc, epubTocHiddenIds]
+  );
+
+  const goToTocEntry = (entry: TocEntry) => {
+    if (entry.hidden) return;
+    setOpenDrawer(null);
+    void epubRenditionRef.current?.display?.(entry.href);
+  };
+
+  const triggerPageTurnFx = useCallback((direction: "next" | "prev") => {
+    setPageTurnFx(direction);
+    if (pageTurnTimerRef.current) {
+      window.clearTimeout(pageTurnTimerRef.current);
+    }
+    pageTurnTimerRef.current = window.setTimeout(() => setPageTurnFx(""), 560);
+  }, []);
+
   const goEpubPrev = () => {
     if (hitHiddenStartLimit) {
       setBookmarkMessage(`First ${normalizedHideFirstPages} pages are hidden.`);
       setTimeout(() => setBookmarkMessage(""), 1500);
       return;
     }
-    setPageTurnFx("prev");
-    if (pageTurnTimerRef.current) {
-      window.clearTimeout(pageTurnTimerRef.current);
-    }
-    pageTurnTimerRef.current = window.setTimeout(() => setPageTurnFx(""), 560);
+    triggerPageTurnFx("prev");
     try {
       void epubRenditionRef.current?.prev?.();
     } catch {}
@@ -477,71 +1080,502 @@ export default function Reader({
       setTimeout(() => setBookmarkMessage(""), 1500);
       return;
     }
-    setPageTurnFx("next");
-    if (pageTurnTimerRef.current) {
-      window.clearTimeout(pageTurnTimerRef.current);
-    }
-    pageTurnTimerRef.current = window.setTimeout(() => setPageTurnFx(""), 560);
+    triggerPageTurnFx("next");
     try {
       void epubRenditionRef.current?.next?.();
     } catch {}
   };
 
+  // Only page turns the reader makes are saved, like real scrolls in the scroll layout.
+  const showPage = useCallback(
+    (target: number) => {
+      if (pageCount === 0) return;
+      const page = clamp(target, 0, pageCount - 1);
+      if (page === pageIndex) return;
+      triggerPageTurnFx(page > pageIndex ? "next" : "prev");
+      setPageIndex(page);
+      const record: BookmarkRecord = { type: "page", page, pages: pageCount, at: Date.now() };
+      try {
+        localStorage.setItem(progressKey, JSON.stringify(record));
+      } catch {}
+      queueSync(record);
+    },
+    [pageCount, pageIndex, progressKey, queueSync, triggerPageTurnFx]
+  );
+
+  const pageForRect = useCallback(
+    (rect: DOMRect) => {
+      const track = pagedTrackRef.current;
+      if (!track || pageStride <= 0) return pageIndex;
+      return Math.floor((rect.left - track.getBoundingClientRect().left + 1) / pageStride);
+    },
+    [pageIndex, pageStride]
+  );
+
+  const revealTextRange = useCallback(
+    (range: Range) => {
+      const rect = range.getBoundingClientRect();
+      if (pagedMode) {
+        showPage(pageForRect(rect));
+      } else if (rect.top < 90 || rect.bottom > window.innerHeight - 40) {
+        window.scrollTo({ top: window.scrollY + rect.top - window.innerHeight / 3, behavior: "smooth" });
+      }
+    },
+    [pagedMode, showPage, pageForRect]
+  );
+
   useEffect(() => {
-    return () => {
-      if (pageTurnTimerRef.current) {
-        window.clearTimeout(pageTurnTimerRef.current);
+    if (!pagedMode) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey) return;
+      if (target?.closest("input, textarea, select, [contenteditable]")) return;
+      if (event.key === "ArrowRight" || event.key === "PageDown") {
+        event.preventDefault();
+        showPage(pageIndex + 1);
+      } else if (event.key === "ArrowLeft" || event.key === "PageUp") {
+        event.preventDefault();
+        showPage(pageIndex - 1);
       }
     };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [pagedMode, pageIndex, showPage]);
+
+  // Taps on the outer thirds turn the page and the middle third seeks narrated text; links, and
+  // taps that end a text selection, are left alone.
+  const onPagedClick = (event: ReactMouseEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    const link = target.closest("a");
+    if (link) {
+      const href = link.getAttribute("href") || "";
+      const anchor = href.startsWith("#") ? document.getElementById(href.slice(1)) : null;
+      if (anchor && pagedTrackRef.current?.contains(anchor)) {
+        event.preventDefault();
+        showPage(pageForRect(anchor.getBoundingClientRect()));
+      }
+      return;
+    }
+    if (window.getSelection()?.isCollapsed === false) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width;
+    if (x < 0.3) showPage(pageIndex - 1);
+    else if (x > 0.7) showPage(pageIndex + 1);
+    else seekNarrationAt(event.clientX, event.clientY);
+  };
+
+  const onPagedTouchEnd = (event: ReactTouchEvent<HTMLDivElement>) => {
+    const start = swipeStartRef.current;
+    const touch = event.changedTouches[0];
+    swipeStartRef.current = null;
+    if (!start || !touch) return;
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    if (Math.abs(dx) < SWIPE_MIN_PX || Math.abs(dx) < Math.abs(dy)) return;
+    showPage(pageIndex + (dx < 0 ? 1 : -1));
+  };
+
+  const toggleLayout = () => {
+    pendingPositionRef.current = { type: "fraction", fraction: progress / 100, at: Date.now() };
+    setRestoreTick((tick) => tick + 1);
+    setLayout((current) => (current === "paged" ? "scroll" : "paged"));
+  };
+
+  useEffect(() => {
+    if (!speechSupported()) return;
+    const synth = window.speechSynthesis;
+    const update = () => setVoices(synth.getVoices());
+    update();
+    synth.addEventListener("voiceschanged", update);
+    return () => synth.removeEventListener("voiceschanged", update);
   }, []);
 
-  const saveBookmark = () => {
-    try {
-      if (isEpub) {
-        const cfi = epubRenditionRef.current?.currentLocation?.()?.start?.cfi;
-        if (!cfi) {
-          setBookmarkMessage("Bookmark unavailable yet.");
+  useEffect(() => {
+    setSpeechState("idle");
+    setSearchHits([]);
+    setSearchQuery("");
+    setActiveSearchId("");
+  }, [chapterId]);
+
+  // One utterance per sentence; pausing cancels and resuming restarts the current sentence,
+  // which behaves the same across engines where pause() is unreliable.
+  useEffect(() => {
+    if (speechState !== "playing" || !speechQueue) return;
+    const synth = window.speechSynthesis;
+    const segment = speechQueue.segments[speechIndex];
+    let cancelled = false;
+
+    if (!segment) {
+      const rendition = epubRenditionRef.current;
+      if (speechQueue.source !== "epub" || !rendition || hitPageLimit) {
+        setSpeechState("idle");
+        return;
+      }
+      const previous = epubSpeechContentsRef.current?.document;
+      triggerPageTurnFx("next");
+      void Promise.resolve(rendition.next?.()).then(() => {
+        if (cancelled) return;
+        const next = epubSpeechQueue(rendition);
+        if (!next || (next.contents.document === previous && next.startIndex >= next.segments.length)) {
+          setSpeechState("idle");
           return;
         }
-        localStorage.setItem(
-          bookmarkKey,
-          JSON.stringify({
-            type: "epub",
-            cfi,
-            at: Date.now(),
-          } satisfies BookmarkRecord)
-        );
+        epubSpeechContentsRef.current = next.contents;
+        setSpeechQueue({ source: "epub", segments: next.segments });
+        setSpeechIndex(next.startIndex);
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const utterance = new SpeechSynthesisUtterance(segment.text);
+    utterance.rate = speechRate;
+    const voice = voices.find((item) => item.voiceURI === speechVoice);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+    utterance.onboundary = (event) => {
+      if (cancelled || event.name !== "word") return;
+      const word = wordSpanAt(segment.text, event.charIndex, event.charLength);
+      setSpeechWord(word ? { start: segment.start + word.start, end: segment.start + word.end } : null);
+    };
+    utterance.onend = () => {
+      if (cancelled) return;
+      setSpeechWord(null);
+      setSpeechIndex((index) => index + 1);
+    };
+    utterance.onerror = (event) => {
+      if (!cancelled && event.error !== "interrupted" && event.error !== "canceled") setSpeechState("idle");
+    };
+    synth.cancel();
+    synth.speak(utterance);
+    return () => {
+      cancelled = true;
+      synth.cancel();
+    };
+  }, [speechState, speechQueue, speechIndex, speechRate, speechVoice, voices, hitPageLimit, triggerPageTurnFx]);
+
+  // Marks the sentence being read and keeps it on screen: scrolling, turning the text page, or
+  // turning the EPUB page once the sentence starts past the end of the displayed one.
+  useEffect(() => {
+    const segment = speechState !== "idle" ? speechQueue?.segments[speechIndex] : undefined;
+    if (!segment || !speechQueue) return;
+
+    if (speechQueue.source === "text") {
+      const root = articleTextRef.current;
+      const range = root ? paintNamedHighlight(root, SPEECH_SENTENCE_HIGHLIGHT, segment.start, segment.end) : null;
+      if (!root || !range) return;
+      revealTextRange(range);
+      return () => clearNamedHighlight(root, SPEECH_SENTENCE_HIGHLIGHT);
+    }
+
+    const rendition = epubRenditionRef.current;
+    const contents = epubSpeechContentsRef.current;
+    const body = contents?.document?.body;
+    if (!rendition || !contents || !body) return;
+    ensureEpubSpeechStyles(contents.document);
+    paintNamedHighlight(body, SPEECH_SENTENCE_HIGHLIGHT, segment.start, segment.end);
+
+    const endCfi = rendition.currentLocation?.()?.end?.cfi || "";
+    const endRange = endCfi ? contents.range?.(endCfi) : null;
+    const pageEnd = endRange ? startOffsetOf(body, endRange) : null;
+    if (pageEnd !== null && segment.start >= pageEnd && epubSpeechAdvanceRef.current !== endCfi) {
+      epubSpeechAdvanceRef.current = endCfi;
+      if (hitPageLimit) {
+        setSpeechState("idle");
       } else {
-        localStorage.setItem(
-          bookmarkKey,
-          JSON.stringify({
-            type: "scroll",
-            y: window.scrollY,
-            at: Date.now(),
-          } satisfies BookmarkRecord)
-        );
+        triggerPageTurnFx("next");
+        void rendition.next?.();
       }
-      setHasBookmark(true);
-      setBookmarkMessage("Bookmark saved.");
-      setTimeout(() => setBookmarkMessage(""), 1500);
-    } catch {
-      setBookmarkMessage("Could not save bookmark.");
+    }
+    return () => clearNamedHighlight(body, SPEECH_SENTENCE_HIGHLIGHT);
+  }, [speechState, speechQueue, speechIndex, revealTextRange, hitPageLimit, triggerPageTurnFx, epubCurrentPage]);
+
+  useEffect(() => {
+    if (speechState === "idle" || !speechWord || !speechQueue) return;
+    const root = speechQueue.source === "text" ? articleTextRef.current : epubSpeechContentsRef.current?.document?.body;
+    if (!root) return;
+    paintNamedHighlight(root, SPEECH_WORD_HIGHLIGHT, speechWord.start, speechWord.end);
+    return () => clearNamedHighlight(root, SPEECH_WORD_HIGHLIGHT);
+  }, [speechState, speechWord, speechQueue]);
+
+  useEffect(() => {
+    const root = articleTextRef.current;
+    setNarrationCue(-1);
+    setNarrationSpans(root && narrationUrl ? locateNarrationCues(root, narrationTimings) : []);
+  }, [narrationUrl, narrationTimings, trimmed]);
+
+  // The text follows the narration only while it plays, so a paused reader can look around.
+  useEffect(() => {
+    const span = narrationSpans[narrationCue];
+    const root = articleTextRef.current;
+    if (!span || !root) return;
+    const range = paintNamedHighlight(root, NARRATION_HIGHLIGHT, span.start, span.stop);
+    if (range && narrationPlaying) revealTextRange(range);
+    return () => clearNamedHighlight(root, NARRATION_HIGHLIGHT);
+  }, [narrationSpans, narrationCue, narrationPlaying, revealTextRange]);
+
+  const seekNarrationAt = (x: number, y: number) => {
+    const root = articleTextRef.current;
+    const audio = narrationAudioRef.current;
+    if (!root || !audio || narrationSpans.length === 0) return false;
+    const range = document.createRange();
+    const caret = "caretPositionFromPoint" in document ? document.caretPositionFromPoint(x, y) : null;
+    const caretRange = caret ? null : document.caretRangeFromPoint?.(x, y);
+    if (caret) range.setStart(caret.offsetNode, caret.offset);
+    else if (caretRange) range.setStart(caretRange.startContainer, caretRange.startOffset);
+    else return false;
+    const offset = startOffsetOf(root, range);
+    const span = offset === null ? undefined : narrationSpans.find((item) => offset >= item.start && offset < item.stop);
+    if (!span) return false;
+    audio.currentTime = span.begin;
+    void audio.play().catch(() => {});
+    return true;
+  };
+
+  const clearSearchMarks = () => {
+    const root = articleTextRef.current;
+    if (root) clearNamedHighlight(root, SEARCH_HIGHLIGHT);
+    if (searchMarkRef.current) {
+      epubRenditionRef.current?.annotations?.remove(searchMarkRef.current, "highlight");
+      searchMarkRef.current = "";
     }
   };
 
-  const goToBookmark = () => {
+  const runSearch = async (query: string) => {
+    const text = query.trim();
+    clearSearchMarks();
+    setSearchQuery(text);
+    setActiveSearchId("");
+    if (!searchPattern(text)) {
+      setSearchHits([]);
+      return;
+    }
+
+    const root = articleTextRef.current;
+    const textHits = root ? findTextHits(root.textContent ?? "", text) : [];
+    const book = epubBookRef.current;
+    if (!isEpub || !book) {
+      setSearchHits(textHits);
+      return;
+    }
+
+    setSearchBusy(true);
     try {
-      const raw = localStorage.getItem(bookmarkKey);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as BookmarkRecord;
-      if (parsed.type === "scroll") {
-        window.scrollTo(0, parsed.y || 0);
+      const epubHits = await searchEpub(book, text, normalizedHideFirstPages, normalizedMaxVisiblePages);
+      setSearchHits([...epubHits, ...textHits].slice(0, MAX_SEARCH_HITS));
+    } catch {
+      setSearchHits(textHits);
+      setBookmarkMessage("Could not search this EPUB.");
+      setTimeout(() => setBookmarkMessage(""), 1500);
+    } finally {
+      setSearchBusy(false);
+    }
+  };
+
+  const goToSearchHit = (hit: SearchHit) => {
+    setOpenDrawer(null);
+    setActiveSearchId(hit.id);
+    clearSearchMarks();
+    if (hit.target.type === "epub") {
+      const rendition = epubRenditionRef.current;
+      void rendition?.display?.(hit.target.cfi);
+      rendition?.annotations?.highlight(hit.target.cfi, {}, undefined, "reader-search", {
+        fill: SEARCH_FILL,
+        "fill-opacity": "0.6",
+        "mix-blend-mode": "multiply",
+      });
+      searchMarkRef.current = hit.target.cfi;
+      return;
+    }
+    const root = articleTextRef.current;
+    const range = root ? paintNamedHighlight(root, SEARCH_HIGHLIGHT, hit.target.start, hit.target.end) : null;
+    if (range) revealTextRange(range);
+  };
+
+  // Starts from the first sentence on screen, or resumes a paused sentence.
+  const playSpeech = () => {
+    if (!speechSupported()) {
+      setBookmarkMessage("Read aloud is not available in this browser.");
+      setTimeout(() => setBookmarkMessage(""), 2000);
+      return;
+    }
+    narrationAudioRef.current?.pause();
+    if (speechState === "paused" && speechQueue) {
+      setSpeechState("playing");
+      return;
+    }
+
+    setSpeechWord(null);
+    if (isEpub) {
+      const rendition = epubRenditionRef.current;
+      const queue = rendition ? epubSpeechQueue(rendition) : null;
+      if (!queue || queue.segments.length === 0) {
+        setBookmarkMessage("Nothing to read on this page yet.");
+        setTimeout(() => setBookmarkMessage(""), 1500);
         return;
       }
-      if (parsed.type === "epub" && parsed.cfi) {
-        void epubRenditionRef.current?.display?.(parsed.cfi);
+      epubSpeechContentsRef.current = queue.contents;
+      epubSpeechAdvanceRef.current = "";
+      setSpeechQueue({ source: "epub", segments: queue.segments });
+      setSpeechIndex(queue.startIndex);
+      setSpeechState("playing");
+      return;
+    }
+
+    const root = articleTextRef.current;
+    const segments = root ? speechSegments(root) : [];
+    if (!root || segments.length === 0) {
+      setBookmarkMessage("Nothing to read on this page yet.");
+      setTimeout(() => setBookmarkMessage(""), 1500);
+      return;
+    }
+    const firstVisible = segments.findIndex((segment) => {
+      const rect = rangeFromOffsets(root, segment.start, segment.end)?.getBoundingClientRect();
+      if (!rect) return false;
+      return pagedMode ? pageForRect(rect) >= pageIndex : rect.bottom > 90;
+    });
+    setSpeechQueue({ source: "text", segments });
+    setSpeechIndex(Math.max(0, firstVisible));
+    setSpeechState("playing");
+  };
+
+  const closeSpeech = () => {
+    setSpeechState("idle");
+    setSpeechOpen(false);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (pageTurnTimerRef.current) {
+        window.clearTimeout(pageTurnTimerRef.current);
+      }
+    };
+  }, []);
+
+  const saveBookmark = async (label: string, note: string) => {
+    let position: BookmarkRecord;
+    if (isEpub) {
+      const cfi = epubRenditionRef.current?.currentLocation?.()?.start?.cfi;
+      if (!cfi) {
+        setBookmarkMessage("Bookmark unavailable yet.");
+        return false;
       }
-    } catch {}
+      position = { type: "epub", cfi, at: Date.now() };
+    } else if (pagedMode && pageCount > 0) {
+      position = { type: "page", page: pageIndex, pages: pageCount, at: Date.now() };
+    } else {
+      position = { type: "scroll", y: Math.round(window.scrollY), at: Date.now() };
+    }
+
+    setBookmarkBusy(true);
+    try {
+      const saved = await addBookmark(
+        { itemKey: chapterId, label: label.trim() || `Bookmark ${bookmarks.length + 1}`, note, position },
+        resolvedUserId
+      );
+      setBookmarks((list) => [...list, saved]);
+      setBookmarkMessage("Bookmark saved.");
+      setTimeout(() => setBookmarkMessage(""), 1500);
+      return true;
+    } catch (err: unknown) {
+      setBookmarkMessage(err instanceof Error ? err.message : "Could not save bookmark.");
+      return false;
+    } finally {
+      setBookmarkBusy(false);
+    }
+  };
+
+  const goToBookmark = (bookmark: NamedBookmark) => {
+    setOpenDrawer(null);
+    if (bookmark.position.type === "epub") {
+      void epubRenditionRef.current?.display?.(bookmark.position.cfi);
+    } else if (pagedMode) {
+      showPage(pageForPosition(bookmark.position, pageCount));
+    } else {
+      window.scrollTo(0, scrollYForPosition(bookmark.position));
+    }
+  };
+
+  const deleteBookmark = async (bookmark: NamedBookmark) => {
+    try {
+      await removeBookmark(bookmark, resolvedUserId);
+      setBookmarks((list) => list.filter((item) => item.id !== bookmark.id));
+    } catch (err: unknown) {
+      setBookmarkMessage(err instanceof Error ? err.message : "Could not delete bookmark.");
+    }
+  };
+
+  const highlightSelection = async (color: HighlightColor, withNote: boolean) => {
+    if (!pendingSelection) return;
+    if (!resolvedUserId) {
+      setBookmarkMessage("Sign in to save highlights.");
+      setTimeout(() => setBookmarkMessage(""), 1500);
+      return;
+    }
+    try {
+      const saved = await createHighlight({ itemKey: chapterId, ...pendingSelection, color, note: "", shared: false });
+      setHighlights((list) => [...list, saved]);
+      setPendingSelection(null);
+      window.getSelection()?.removeAllRanges();
+      if (withNote) setOpenDrawer("highlights");
+    } catch (err: unknown) {
+      setBookmarkMessage(err instanceof Error ? err.message : "Could not save highlight.");
+    }
+  };
+
+  const saveHighlight = async (update: HighlightUpdate) => {
+    try {
+      const saved = await updateHighlight(update);
+      setHighlights((list) => list.map((item) => (item.id === saved.id ? saved : item)));
+      return true;
+    } catch (err: unknown) {
+      setBookmarkMessage(err instanceof Error ? err.message : "Could not save highlight.");
+      return false;
+    }
+  };
+
+  const removeHighlight = async (highlight: ReaderHighlight) => {
+    try {
+      await deleteHighlight(highlight.id);
+      setHighlights((list) => list.filter((item) => item.id !== highlight.id));
+    } catch (err: unknown) {
+      setBookmarkMessage(err instanceof Error ? err.message : "Could not delete highlight.");
+    }
+  };
+
+  const hideFromClub = async (note: ClubNote) => {
+    try {
+      await hideClubNote(note.id);
+      setClubNotes((list) => list.filter((item) => item.id !== note.id));
+    } catch (err: unknown) {
+      setBookmarkMessage(err instanceof Error ? err.message : "Could not hide club note.");
+    }
+  };
+
+  const goToHighlight = (anchor: HighlightAnchor) => {
+    setOpenDrawer(null);
+    if (anchor.type === "epub") {
+      void epubRenditionRef.current?.display?.(anchor.cfiRange);
+      return;
+    }
+    const root = articleTextRef.current;
+    const range = root ? rangeFromOffsets(root, anchor.start, anchor.end) : null;
+    if (!range) return;
+    if (pagedMode) showPage(pageForRect(range.getBoundingClientRect()));
+    else window.scrollTo(0, window.scrollY + range.getBoundingClientRect().top - 120);
+  };
+
+  const exportHighlights = () => {
+    const blob = new Blob([highlightsToMarkdown(title, highlights)], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "highlights"}-highlights.md`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const enterFocusMode = async () => {
@@ -752,8 +1786,43 @@ export default function Reader({
             A+
           </button>
 
+          {trimmed && !isEpub && (
+            <button
+              onClick={toggleLayout}
+              aria-pressed={pagedMode}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 10,
+                border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+                background: "transparent",
+                color: "inherit",
+                cursor: "pointer",
+              }}
+            >
+              {pagedMode ? "Scroll" : "Pages"}
+            </button>
+          )}
+
+          {isEpub && epubToc.length > 0 && (
+            <button
+              onClick={() => setOpenDrawer((open) => (open === "contents" ? null : "contents"))}
+              aria-expanded={openDrawer === "contents"}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 10,
+                border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+                background: "transparent",
+                color: "inherit",
+                cursor: "pointer",
+              }}
+            >
+              Contents
+            </button>
+          )}
+
           <button
-            onClick={saveBookmark}
+            onClick={() => setOpenDrawer((open) => (open === "search" ? null : "search"))}
+            aria-expanded={openDrawer === "search"}
             style={{
               padding: "8px 10px",
               borderRadius: 10,
@@ -763,27 +1832,213 @@ export default function Reader({
               cursor: "pointer",
             }}
           >
-            Bookmark
+            Search
           </button>
 
           <button
-            onClick={goToBookmark}
-            disabled={!hasBookmark}
+            onClick={() => setOpenDrawer((open) => (open === "bookmarks" ? null : "bookmarks"))}
+            aria-expanded={openDrawer === "bookmarks"}
             style={{
               padding: "8px 10px",
               borderRadius: 10,
               border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
               background: "transparent",
               color: "inherit",
-              cursor: hasBookmark ? "pointer" : "not-allowed",
-              opacity: hasBookmark ? 1 : 0.5,
+              cursor: "pointer",
             }}
           >
-            Go to Mark
+            Bookmarks{bookmarks.length > 0 ? ` (${bookmarks.length})` : ""}
           </button>
+
+          <button
+            onClick={() => setOpenDrawer((open) => (open === "highlights" ? null : "highlights"))}
+            aria-expanded={openDrawer === "highlights"}
+            style={{
+              padding: "8px 10px",
+              borderRadius: 10,
+              border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+              background: "transparent",
+              color: "inherit",
+              cursor: "pointer",
+            }}
+          >
+            Highlights{highlights.length > 0 ? ` (${highlights.length})` : ""}
+          </button>
+
+          {(trimmed || isEpub) && (
+            <button
+              onClick={() => (speechOpen ? closeSpeech() : setSpeechOpen(true))}
+              aria-expanded={speechOpen}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 10,
+                border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+                background: "transparent",
+                color: "inherit",
+                cursor: "pointer",
+              }}
+            >
+              Read to me
+            </button>
+          )}
         </div>
       </header>}
 
+      {!focusMode && openDrawer === "highlights" && (
+        <ReaderHighlightsDrawer
+          highlights={highlights}
+          clubNotes={clubNotes}
+          clubVisible={clubVisible}
+          canModerate={canModerate}
+          signedIn={Boolean(resolvedUserId)}
+          isDark={isDark}
+          background={paper.panel}
+          border={paper.border}
+          onGo={goToHighlight}
+          onSave={saveHighlight}
+          onDelete={(highlight) => {
+            void removeHighlight(highlight);
+          }}
+          onToggleClub={setClubVisible}
+          onHideClubNote={(note) => {
+            void hideFromClub(note);
+          }}
+          onExport={exportHighlights}
+          onClose={() => setOpenDrawer(null)}
+        />
+      )}
+
+      {pendingSelection && (
+        <div
+          role="toolbar"
+          aria-label="Highlight selection"
+          // Keeps the text selection alive while a colour is tapped.
+          onPointerDown={(event) => event.preventDefault()}
+          style={{
+            position: "fixed",
+            left: "50%",
+            bottom: 18,
+            transform: "translateX(-50%)",
+            zIndex: 55,
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            padding: "8px 12px",
+            borderRadius: 14,
+            border: isDark ? "1px solid rgba(255,255,255,0.14)" : `1px solid ${paper.border}`,
+            background: isDark ? "rgba(24,24,24,0.96)" : paper.panel,
+            boxShadow: "0 6px 20px rgba(0,0,0,0.18)",
+          }}
+        >
+          <span style={{ fontSize: "0.86rem" }}>Highlight</span>
+          {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map((color) => (
+            <button
+              key={color}
+              type="button"
+              aria-label={`Highlight ${HIGHLIGHT_COLORS[color].label.toLowerCase()}`}
+              onClick={() => {
+                void highlightSelection(color, false);
+              }}
+              style={{
+                width: 22,
+                height: 22,
+                borderRadius: "50%",
+                border: "1px solid rgba(0,0,0,0.2)",
+                background: HIGHLIGHT_COLORS[color].fill,
+                cursor: "pointer",
+              }}
+            />
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              void highlightSelection("yellow", true);
+            }}
+            style={{
+              padding: "4px 8px",
+              borderRadius: 10,
+              border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+              background: "transparent",
+              color: "inherit",
+              cursor: "pointer",
+            }}
+          >
+            + Note
+          </button>
+          <button
+            type="button"
+            aria-label="Dismiss"
+            onClick={() => setPendingSelection(null)}
+            style={{ border: 0, background: "transparent", color: "inherit", cursor: "pointer" }}
+          >
+            &times;
+          </button>
+        </div>
+      )}
+
+      {speechOpen && (
+        <ReaderSpeechControls
+          state={speechState}
+          voices={voices}
+          voice={speechVoice}
+          rate={speechRate}
+          isDark={isDark}
+          background={paper.panel}
+          border={paper.border}
+          onPlay={playSpeech}
+          onPause={() => setSpeechState("paused")}
+          onStop={() => setSpeechState("idle")}
+          onVoiceChange={setSpeechVoice}
+          onRateChange={(rate) => setSpeechRate(normalizeSpeechRate(rate))}
+          onClose={closeSpeech}
+        />
+      )}
+
+      {!focusMode && openDrawer === "contents" && (
+        <ReaderTocDrawer
+          entries={tocEntries}
+          currentId={currentTocEntryId(tocEntries, epubSectionIndex)}
+          isDark={isDark}
+          background={paper.panel}
+          border={paper.border}
+          onGo={goToTocEntry}
+          onClose={() => setOpenDrawer(null)}
+        />
+      )}
+
+      {!focusMode && openDrawer === "search" && (
+        <ReaderSearchDrawer
+          hits={searchHits}
+          busy={searchBusy}
+          searched={searchQuery}
+          activeId={activeSearchId}
+          isDark={isDark}
+          background={paper.panel}
+          border={paper.border}
+          onSearch={(query) => {
+            void runSearch(query);
+          }}
+          onGo={goToSearchHit}
+          onClose={() => setOpenDrawer(null)}
+        />
+      )}
+
+      {!focusMode && openDrawer === "bookmarks" && (
+        <ReaderBookmarksDrawer
+          bookmarks={bookmarks}
+          busy={bookmarkBusy}
+          isDark={isDark}
+          background={paper.panel}
+          border={paper.border}
+          onAdd={saveBookmark}
+          onGo={goToBookmark}
+          onDelete={(bookmark) => {
+            void deleteBookmark(bookmark);
+          }}
+          onClose={() => setOpenDrawer(null)}
+        />
+      )}
+
       {focusMode && (
         <button
           type="button"
@@ -952,6 +2207,11 @@ export default function Reader({
 
         {(mediaKind !== "epub" || trimmed) && (
           <article
+            onClick={(event) => {
+              if (pagedMode || narrationSpans.length === 0) return;
+              if ((event.target as HTMLElement).closest("a") || window.getSelection()?.isCollapsed === false) return;
+              seekNarrationAt(event.clientX, event.clientY);
+            }}
             style={{
               maxWidth: 760,
               margin: "0 auto",
@@ -959,26 +2219,140 @@ export default function Reader({
               fontSize,
               lineHeight: 1.8,
               letterSpacing: 0.2,
-              whiteSpace: "pre-wrap",
               background: isDark ? "transparent" : paper.panel,
               border: isDark ? "none" : `1px solid ${paper.border}`,
               borderRadius: 12,
               padding: trimmed ? "18px 18px 12px" : "18px",
             }}
           >
-            {trimmed ? (
-              <p style={{ marginTop: 0 }}>
-                <span style={{ float: "left", fontSize: fontSize * 3, lineHeight: 0.9, fontWeight: 700, marginRight: 10 }}>
-                  {trimmed.slice(0, 1)}
-                </span>
-                {trimmed.slice(1)}
-              </p>
+            {pagedMode ? (
+              <>
+                <div
+                  ref={pagedViewportRef}
+                  className="reader-paged-stage"
+                  onClick={onPagedClick}
+                  onTouchStart={(event) => {
+                    const touch = event.touches[0];
+                    swipeStartRef.current = touch ? { x: touch.clientX, y: touch.clientY } : null;
+                  }}
+                  onTouchEnd={onPagedTouchEnd}
+                  onScroll={(event) => {
+                    // Focus or find-in-page can scroll the clipped columns; the transform owns the position.
+                    event.currentTarget.scrollLeft = 0;
+                  }}
+                  style={{ height: focusMode ? "calc(100dvh - 120px)" : "calc(100dvh - 240px)", minHeight: 320 }}
+                >
+                  <div
+                    ref={pagedTrackRef}
+                    className="reader-paged-columns"
+                    style={{
+                      columnGap: PAGE_GAP,
+                      transform: `translateX(${-pageIndex * pageStride}px)`,
+                    }}
+                  >
+                    <MarkdownContent ref={articleTextRef} source={trimmed} />
+                  </div>
+                  {pageTurnFx && (
+                    <div
+                      className={`reader-page-turn-overlay ${
+                        pageTurnFx === "next" ? "reader-page-turn-next" : "reader-page-turn-prev"
+                      }`}
+                    />
+                  )}
+                </div>
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    marginTop: focusMode ? 6 : 10,
+                    gap: 10,
+                    fontSize: "1rem",
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => showPage(pageIndex - 1)}
+                    disabled={pageIndex <= 0}
+                    style={{
+                      padding: "8px 10px",
+                      borderRadius: 10,
+                      border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+                      background: "transparent",
+                      color: "inherit",
+                      cursor: pageIndex > 0 ? "pointer" : "not-allowed",
+                      opacity: pageIndex > 0 ? 1 : 0.5,
+                    }}
+                  >
+                    Previous Page
+                  </button>
+                  <span style={{ fontSize: "0.9rem", opacity: 0.8 }}>
+                    {pageCount > 0 ? `Page ${pageIndex + 1} of ${pageCount}` : ""}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => showPage(pageIndex + 1)}
+                    disabled={pageIndex >= pageCount - 1}
+                    style={{
+                      padding: "8px 10px",
+                      borderRadius: 10,
+                      border: isDark ? "1px solid rgba(255,255,255,0.12)" : "1px solid rgba(0,0,0,0.12)",
+                      background: "transparent",
+                      color: "inherit",
+                      cursor: pageIndex < pageCount - 1 ? "pointer" : "not-allowed",
+                      opacity: pageIndex < pageCount - 1 ? 1 : 0.5,
+                    }}
+                  >
+                    Next Page
+                  </button>
+                </div>
+              </>
+            ) : trimmed ? (
+              <MarkdownContent ref={articleTextRef} source={trimmed} />
             ) : (
               <p style={{ marginTop: 0, opacity: 0.8 }}>No text added yet for this page.</p>
             )}
           </article>
         )}
 
+        {narrationUrl && trimmed && (
+          <div
+            style={{
+              position: "sticky",
+              bottom: 12,
+              zIndex: 30,
+              maxWidth: 760,
+              margin: "12px auto 0",
+              padding: "8px 12px",
+              borderRadius: 12,
+              border: isDark ? "1px solid rgba(255,255,255,0.14)" : `1px solid ${paper.border}`,
+              background: isDark ? "rgba(24,24,24,0.96)" : paper.panel,
+              boxShadow: "0 6px 20px rgba(0,0,0,0.12)",
+            }}
+          >
+            <audio
+              ref={narrationAudioRef}
+              src={narrationUrl}
+              controls
+              preload="metadata"
+              aria-label="Chapter narration"
+              onPlay={() => {
+                setNarrationPlaying(true);
+                setSpeechState("idle");
+              }}
+              onPause={() => setNarrationPlaying(false)}
+              onEnded={() => setNarrationPlaying(false)}
+              onTimeUpdate={(event) => setNarrationCue(activeNarrationSpan(narrationSpans, event.currentTarget.currentTime))}
+              style={{ width: "100%", display: "block" }}
+            />
+            {narrationSpans.length > 0 && (
+              <p style={{ margin: "6px 0 0", fontSize: "0.8rem", opacity: 0.75 }}>
+                Tap a sentence to play the narration from there.
+              </p>
+            )}
+          </div>
+        )}
+
         {!focusMode && (prevId || nextId) && (
           <div style={{ maxWidth: 760, margin: "36px auto 0", display: "flex", justifyContent: "space-between", gap: 12 }}>
             {prevId ? (
@@ -0,0 +1,95 @@
+// Book metadata lives in the books table. Live shelf entries and revisions keep placement and styling plus a
+// bookId. Draft entries also carry the metadata fields the draft changes, which reach the catalogue when it is
+// published; the editor carries hydrated entries with all of the metadata inline.
+export const BOOK_METADATA_COLUMNS = {
+  label: "title",
+  coverImageUrl: "cover_image_url",
+  readerSampleText: "reader_sample_text",
+  infoPageText: "info_page_text",
+  readerSampleMediaUrl: "reader_sample_media_url",
+  readerSampleMediaType: "reader_sample_media_type",
+  infoPageMediaUrl: "info_page_media_url",
+  infoPageMediaType: "info_page_media_type",
+  fullBookMediaUrl: "full_book_media_url",
+  fullBookMediaType: "full_book_media_type",
+  fullBookMediaPath: "full_book_media_path",
+  fullBookHideFirstPages: "full_book_hide_first_pages",
+  fullBookMaxPages: "full_book_max_pages",
+  fullBookPricePence: "full_book_price_pence",
+} as const;
+
+export type BookMetadataField = keyof typeof BOOK_METADATA_COLUMNS;
+
+const NUMERIC_FIELDS = new Set<BookMetadataField>(["fullBookHideFirstPages", "fullBookMaxPages", "fullBookPricePence"]);
+const METADATA_FIELDS = Object.keys(BOOK_METADATA_COLUMNS) as BookMetadataField[];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const BOOK_CATALOG_COLUMNS = ["id", ...Object.values(BOOK_METADATA_COLUMNS)].join(", ");
+
+export type CatalogBook = { id: string } & Record<BookMetadataField, string | number>;
+
+function metadataValue(field: BookMetadataField, value: unknown) {
+  if (!NUMERIC_FIELDS.has(field)) return typeof value === "string" ? value : "";
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, Math.round(n)) : 0;
+}
+
+export function catalogBookFromRow(raw: unknown): CatalogBook | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  if (typeof row.id !== "string") return null;
+
+  const book: Record<string, string | number> = { id: row.id };
+  for (const field of METADATA_FIELDS) {
+    book[field] = metadataValue(field, row[BOOK_METADATA_COLUMNS[field]]);
+  }
+  return book as CatalogBook;
+}
+
+export function hasBookMetadata(entry: Record<string, unknown>) {
+  return METADATA_FIELDS.some((field) => field in entry);
+}
+
+// The books columns for whichever metadata fields a hydrated shelf entry carries.
+export function catalogRowFromShelfBook(entry: Record<string, unknown>) {
+  const row: Record<string, string | number> = {};
+  for (const field of METADATA_FIELDS) {
+    if (!(field in entry)) continue;
+    row[BOOK_METADATA_COLUMNS[field]] = metadataValue(field, entry[field]);
+  }
+  return row;
+}
+
+export function shelfPlacement(entry: Record<string, unknown>) {
+  const placement = { ...entry };
+  for (const field of METADATA_FIELDS) {
+    delete placement[field];
+  }
+  return placement;
+}
+
+// Anything that is not a uuid is treated as unlinked rather than breaking the id lookup.
+export function shelfBookId(entry: Record<string, unknown>) {
+  const id = typeof entry.bookId === "string" ? entry.bookId.trim().toLowerCase() : "";
+  return UUID_PATTERN.test(id) ? id : "";
+}
+
+// The catalogue wins over metadata an older revision still carries inline; a draft's pending changes win
+// over the catalogue.
+export function hydrateShelfBook(entry: Record<string, unknown>, book: CatalogBook | undefined, pending = false) {
+  if (!book) return entry;
+  const { id, ...metadata } = book;
+  return pending ? { ...metadata, ...entry, bookId: id } : { ...entry, ...metadata, bookId: id };
+}
+
+// A draft entry: the placement plus only the metadata fields that differ from the catalogue, so publishing
+// the draft does not write back values edited elsewhere since. A book not in the catalogue keeps them all.
+export function draftShelfBook(entry: Record<string, unknown>, book: CatalogBook | undefined) {
+  const draft = shelfPlacement(entry);
+  for (const field of METADATA_FIELDS) {
+    if (!(field in entry)) continue;
+    const value = metadataValue(field, entry[field]);
+    if (!book || book[field] !== value) draft[field] = value;
+  }
+  return draft;
+}
@@ -0,0 +1,152 @@
+import { supabaseService } from "@/lib/supabase/service";
+import {
+  BOOK_CATALOG_COLUMNS,
+  catalogBookFromRow,
+  catalogRowFromShelfBook,
+  draftShelfBook,
+  hasBookMetadata,
+  hydrateShelfBook,
+  shelfBookId,
+  shelfPlacement,
+  type CatalogBook,
+} from "@/lib/bookcase/bookCatalog";
+
+export const BOOKS_TABLE_NAME = "books";
+
+function asEntries(raw: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((item) => (item && typeof item === "object" ? (item as Record<string, unknown>) : {}));
+}
+
+export async function loadCatalogBooks(ids: string[]) {
+  const books = new Map<string, CatalogBook>();
+  const unique = Array.from(new Set(ids.filter(Boolean)));
+  if (unique.length === 0) return { books, error: null };
+
+  const { data, error } = await supabaseService.from(BOOKS_TABLE_NAME).select(BOOK_CATALOG_COLUMNS).in("id", unique);
+  if (error) return { books, error: error.message };
+  for (const row of data ?? []) {
+    const book = catalogBookFromRow(row);
+    if (book) books.set(book.id, book);
+  }
+  return { books, error: null };
+}
+
+export async function listCatalogBooks() {
+  const { data, error } = await supabaseService.from(BOOKS_TABLE_NAME).select(BOOK_CATALOG_COLUMNS).order("title");
+  if (error) return { books: [] as CatalogBook[], error: error.message };
+  const books = (data ?? []).map(catalogBookFromRow).filter((book): book is CatalogBook => book !== null);
+  return { books, error: null };
+}
+
+// Entries written before shelves carried a bookId have no bookId field at all; they are linked to the book
+// the books.sql migration created from their slot. Editor slots always carry the field, empty until saved,
+// so a new slot never takes over a deleted book that happened to use the same key.
+function isLegacyEntry(entry: Record<string, unknown>) {
+  return !("bookId" in entry) && typeof entry.key === "string" && entry.key !== "";
+}
+
+async function linkLegacyEntries(pageKey: string, entries: Record<string, unknown>[]) {
+  const legacyKeys = entries.filter(isLegacyEntry).map((entry) => entry.key as string);
+  if (legacyKeys.length === 0) return { entries, error: null };
+
+  const { data, error } = await supabaseService
+    .from(BOOKS_TABLE_NAME)
+    .select("id, origin_book_key")
+    .eq("origin_page_key", pageKey)
+    .in("origin_book_key", legacyKeys);
+  if (error) return { entries, error: error.message };
+
+  const origins = new Map<string, string>();
+  for (const row of data ?? []) {
+    if (typeof row.origin_book_key === "string" && typeof row.id === "string") origins.set(row.origin_book_key, row.id);
+  }
+  const linked = entries.map((entry) => {
+    const id = isLegacyEntry(entry) ? origins.get(entry.key as string) : undefined;
+    return id ? { ...entry, bookId: id } : entry;
+  });
+  return { entries: linked, error: null };
+}
+
+// Shelf entries with their catalogue metadata filled in. Entries without a bookId pass through unchanged.
+// pending is set for drafts, whose inline metadata is an unpublished edit; with pageKey, legacy entries are
+// linked first.
+export async function hydrateShelfBooks(raw: unknown, pending = false, pageKey = "") {
+  const legacy = pageKey ? await linkLegacyEntries(pageKey, asEntries(raw)) : { entries: asEntries(raw), error: null };
+  const entries = legacy.entries;
+  const { books, error } = await loadCatalogBooks(entries.map(shelfBookId));
+  return {
+    books: entries.map((entry) => hydrateShelfBook(entry, books.get(shelfBookId(entry)), pending)),
+    error: legacy.error ?? error,
+  };
+}
+
+// Linked editor entries as a draft stores them; see draftShelfBook.
+export async function draftShelfBooks(raw: unknown) {
+  const entries = asEntries(raw);
+  const { books, error } = await loadCatalogBooks(entries.map(shelfBookId));
+  if (error) return { books: null, error };
+  return { books: entries.map((entry) => draftShelfBook(entry, books.get(shelfBookId(entry)))), error: null };
+}
+
+export type PreparedShelfBooks = {
+  placements: Record<string, unknown>[];
+  inserts: Record<string, unknown>[];
+  updates: Record<string, unknown>[];
+};
+
+// Links every entry on pageKey to a book and splits off its metadata. Legacy entries find the book the
+// migration created from their slot; any other entry without a bookId is a new book with a fresh id. A bookId
+// whose row is missing (its insert failed after the shelf write) is inserted again. Nothing is written here, so a rejected shelf write leaves the
+// catalogue alone. Editor saves and draft publishes pass withMetadata; revisions being restored link their
+// books but never write metadata an older entry carries over the shared row.
+export async function prepareShelfBooks(pageKey: string, raw: unknown, updatedBy: string | null, withMetadata: boolean) {
+  const legacy = await linkLegacyEntries(pageKey, asEntries(raw));
+  if (legacy.error) return { prepared: null, error: legacy.error };
+  const entries = legacy.entries;
+  const linkedIds = Array.from(new Set(entries.map(shelfBookId).filter(Boolean)));
+
+  const existing = new Set<string>();
+  if (linkedIds.length > 0) {
+    const { data, error } = await supabaseService.from(BOOKS_TABLE_NAME).select("id").in("id", linkedIds);
+    if (error) return { prepared: null, error: error.message };
+    for (const row of data ?? []) {
+      if (typeof row.id === "string") existing.add(row.id);
+    }
+  }
+
+  const placements: Record<string, unknown>[] = [];
+  // A book placed twice on one shelf is written once.
+  const inserts = new Map<string, Record<string, unknown>>();
+  const updates = new Map<string, Record<string, unknown>>();
+  for (const entry of entries) {
+    const entryId = shelfBookId(entry);
+    const id = entryId || crypto.randomUUID();
+    if (!existing.has(id)) {
+      inserts.set(id, { id, ...catalogRowFromShelfBook(entry), updated_by: updatedBy });
+    } else if (withMetadata && hasBookMetadata(entry)) {
+      updates.set(id, { id, ...catalogRowFromShelfBook(entry), updated_by: updatedBy });
+    }
+    placements.push({ ...shelfPlacement(entry), bookId: id });
+  }
+
+  const prepared: PreparedShelfBooks = {
+    placements,
+    inserts: Array.from(inserts.values()),
+    updates: Array.from(updates.values()),
+  };
+  return { prepared, error: null };
+}
+
+// Runs after the shelf write succeeds.
+export async function saveCatalogBooks(prepared: PreparedShelfBooks) {
+  if (prepared.inserts.length > 0) {
+    const { error } = await supabaseService.from(BOOKS_TABLE_NAME).insert(prepared.inserts, { defaultToNull: false });
+    if (error) return error.message;
+  }
+  if (prepared.updates.length === 0) return null;
+  const { error } = await supabaseService
+    .from(BOOKS_TABLE_NAME)
+    .upsert(prepared.updates, { onConflict: "id", defaultToNull: false });
+  return error ? error.message : null;
+}
@@ -0,0 +1,195 @@
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import { supabaseService } from "@/lib/supabase/service";
+import { FULL_BOOK_BUCKET_NAME, FULL_BOOK_SIGNED_URL_TTL_SECONDS } from "@/lib/bookcase/fullBookAccess";
+
+// Readers without an entitlement get a copy of the full-book EPUB cut down to the spine items
+// inside the admin's page window, so the rest of the book never leaves the server. Pages are
+// counted the way the reader's epub.js locations count them. Spine items wholly inside the window
+// are kept as they are; an item crossing either edge is cut down to the plain text of its
+// paragraphs inside the window. Built copies are cached next to the original.
+const PREVIEW_VERSION = "v2";
+const CHARS_PER_PAGE = 1600;
+const PREVIEW_PREFIX = "previews";
+
+const PLACEHOLDER_XHTML = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>Not in preview</title></head>
+<body><p>This part of the book is not included in the preview.</p></body></html>
+`;
+
+const TRUNCATED_NOTE = "<p>The rest of this part of the book is not included in the preview.</p>";
+// One decoded character of text: an entity or a single character.
+const TEXT_CHAR = /&(?:#\d+|#x[0-9a-f]+|\w+);|[\s\S]/gi;
+const BLOCK_END = /<\/(?:p|h[1-6]|div|li|blockquote|pre|td)\s*>|<br\b[^>]*>/i;
+
+type PreviewLimits = { hideFirstPages: number; maxVisiblePages: number };
+
+function attributes(tag: string) {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = match[2] ?? match[3] ?? "";
+  }
+  return attrs;
+}
+
+function resolvePath(baseDir: string, href: string) {
+  const parts = `${baseDir}${decodeURIComponent(href.split("#")[0])}`.split("/");
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (!part || part === ".") continue;
+    if (part === "..") resolved.pop();
+    else resolved.push(part);
+  }
+  return resolved.join("/");
+}
+
+// Mirrors locations.generate in epub.js: the body's text nodes that are not only whitespace, counted
+// as written, with a part-filled page closing each spine item. An item without text has no pages.
+function estimatePages(markup: string) {
+  const body = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(markup)?.[1] ?? markup;
+  let length = 0;
+  for (const text of body.split(/<[^>]*>/)) {
+    if (!text.trim()) continue;
+    length += text.replace(/&(?:#\d+|#x[0-9a-f]+|\w+);/gi, "&").length;
+  }
+  return Math.ceil(length / CHARS_PER_PAGE);
+}
+
+function textChars(text: string) {
+  return text.match(TEXT_CHAR) ?? [];
+}
+
+// The item with its body replaced by the text between characters from and to, counted like estimatePages.
+// Cuts move inwards to whitespace so no hidden word is revealed. Returns null when nothing is left.
+function truncateItem(markup: string, from: number, to: number) {
+  const body = /(<body\b[^>]*>)([\s\S]*)(<\/body>)/i.exec(markup);
+  if (!body) return null;
+
+  const paragraphs: string[] = [];
+  let offset = 0;
+  for (const block of body[2].split(BLOCK_END)) {
+    const chars = textChars(
+      block
+        .split(/<[^>]*>/)
+        .filter((text) => text.trim())
+        .join("")
+    );
+    const blockStart = offset;
+    offset += chars.length;
+    if (offset <= from || blockStart >= to) continue;
+
+    let start = Math.max(0, from - blockStart);
+    let end = Math.min(chars.length, to - blockStart);
+    if (start > 0) while (start < end && !/\s/.test(chars[start - 1])) start += 1;
+    if (end < chars.length) while (end > start && !/\s/.test(chars[end])) end -= 1;
+    const text = chars.slice(start, end).join("").trim();
+    if (text) paragraphs.push(`<p>${text}</p>`);
+  }
+  if (paragraphs.length === 0) return null;
+
+  return markup.replace(body[0], `${body[1]}\n${paragraphs.join("\n")}\n${TRUNCATED_NOTE}\n${body[3]}`);
+}
+
+// Only a window with a last page is a preview; hiding the first pages alone would hand out the rest of the book.
+export function hasPreviewLimits(limits: PreviewLimits) {
+  return limits.maxVisiblePages > 0;
+}
+
+export function isEpubMedia(storagePath: string, mediaType: string) {
+  return mediaType === "application/epub+zip" || /\.epub$/i.test(storagePath);
+}
+
+export function previewStoragePath(storagePath: string, limits: PreviewLimits) {
+  const hash = createHash("sha256")
+    .update(`${PREVIEW_VERSION}:${storagePath}:${limits.hideFirstPages}:${limits.maxVisiblePages}`)
+    .digest("hex")
+    .slice(0, 32);
+  return `${PREVIEW_PREFIX}/${hash}.epub`;
+}
+
+// Returns null when the window has no last page or holds no text at all.
+export async function buildPreviewEpub(source: ArrayBuffer, limits: PreviewLimits) {
+  if (!hasPreviewLimits(limits)) return null;
+  const zip = await JSZip.loadAsync(source);
+  const container = (await zip.file("META-INF/container.xml")?.async("string")) ?? "";
+  const rootfileTag = /<rootfile\b[^>]*>/i.exec(container)?.[0] ?? "";
+  const opfPath = attributes(rootfileTag)["full-path"] ?? "";
+  let opf = opfPath ? ((await zip.file(opfPath)?.async("string")) ?? "") : "";
+  if (!opf) throw new Error("EPUB package document not found");
+
+  const baseDir = opfPath.includes("/") ? opfPath.slice(0, opfPath.lastIndexOf("/") + 1) : "";
+  const manifest = new Map<string, string>();
+  for (const match of opf.matchAll(/<item\b[^>]*>/gi)) {
+    const attrs = attributes(match[0]);
+    if (attrs.id && attrs.href) manifest.set(attrs.id, resolvePath(baseDir, attrs.href));
+  }
+
+  const lastPage = limits.maxVisiblePages;
+  const removed: { tag: string; path: string }[] = [];
+  let kept = 0;
+  let pageBefore = 0;
+
+  for (const match of opf.matchAll(/<itemref\b[^>]*>/gi)) {
+    const path = manifest.get(attributes(match[0]).idref ?? "") ?? "";
+    const markup = path ? ((await zip.file(path)?.async("string")) ?? "") : "";
+    const firstPage = pageBefore + 1;
+    pageBefore += estimatePages(markup);
+    if (path && firstPage > limits.hideFirstPages && pageBefore <= lastPage) {
+      kept += 1;
+      continue;
+    }
+
+    // Characters of this item inside the window.
+    const from = Math.max(0, limits.hideFirstPages - (firstPage - 1)) * CHARS_PER_PAGE;
+    const to = (Math.min(pageBefore, lastPage) - (firstPage - 1)) * CHARS_PER_PAGE;
+    const truncated = path && from < to ? truncateItem(markup, from, to) : null;
+    if (truncated) {
+      zip.file(path, truncated);
+      kept += 1;
+    } else {
+      removed.push({ tag: match[0], path });
+    }
+  }
+  if (kept === 0) return null;
+
+  for (const item of removed) {
+    opf = opf.replace(item.tag, "");
+    if (item.path && zip.file(item.path)) zip.file(item.path, PLACEHOLDER_XHTML);
+  }
+  zip.file(opfPath, opf);
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE", mimeType: "application/epub+zip" });
+}
+
+async function signPreview(path: string) {
+  const { data, error } = await supabaseService.storage
+    .from(FULL_BOOK_BUCKET_NAME)
+    .createSignedUrl(path, FULL_BOOK_SIGNED_URL_TTL_SECONDS);
+  return error || !data?.signedUrl ? "" : data.signedUrl;
+}
+
+// Signed URL for the cached preview of a full-book upload, building it on first use.
+// Returns "" when the book has no preview to offer.
+export async function signedPreviewUrl(storagePath: string, limits: PreviewLimits) {
+  const path = storagePath.trim();
+  if (!path || !hasPreviewLimits(limits)) return "";
+
+  const previewPath = previewStoragePath(path, limits);
+  const cached = await signPreview(previewPath);
+  if (cached) return cached;
+
+  const { data: original, error: downloadError } = await supabaseService.storage.from(FULL_BOOK_BUCKET_NAME).download(path);
+  if (downloadError || !original) return "";
+
+  const preview = await buildPreviewEpub(await original.arrayBuffer(), limits).catch(() => null);
+  if (!preview) return "";
+
+  const { error: uploadError } = await supabaseService.storage.from(FULL_BOOK_BUCKET_NAME).upload(previewPath, preview, {
+    contentType: "application/epub+zip",
+    upsert: true,
+  });
+  if (uploadError) return "";
+
+  return signPreview(previewPath);
+}
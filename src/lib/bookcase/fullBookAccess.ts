@@ -0,0 +1,92 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { BOOKS_TABLE_NAME } from "@/lib/bookcase/bookCatalogStore";
+import { READER_MEDIA_BUCKET_NAME } from "@/lib/bookcase/readerMedia";
+
+export const FULL_BOOK_BUCKET_NAME = "book-full-media";
+export const FULL_BOOK_SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+const TABLE_NAME = "book_entitlements";
+
+function isActive(expiresAt: unknown) {
+  if (expiresAt === null || expiresAt === undefined) return true;
+  const time = new Date(String(expiresAt)).getTime();
+  return Number.isFinite(time) && time > Date.now();
+}
+
+// Keyed on the catalogue book, so access follows the book to every shelf it is on.
+export async function hasBookEntitlement(userId: string, bookId: string) {
+  if (!userId || !bookId) return false;
+
+  const { data, error } = await supabaseService
+    .from(TABLE_NAME)
+    .select("expires_at")
+    .eq("user_id", userId)
+    .eq("book_id", bookId)
+    .maybeSingle();
+
+  if (error || !data) return false;
+  return isActive((data as Record<string, unknown>).expires_at);
+}
+
+export async function signedFullBookUrl(storagePath: string) {
+  const path = storagePath.trim();
+  if (!path) return "";
+
+  const { data, error } = await supabaseService.storage
+    .from(FULL_BOOK_BUCKET_NAME)
+    .createSignedUrl(path, FULL_BOOK_SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data?.signedUrl) return "";
+  return data.signedUrl;
+}
+
+const PUBLIC_READER_MEDIA_MARKER = `/storage/v1/object/public/${READER_MEDIA_BUCKET_NAME}/`;
+
+// The storage path of a full book uploaded before uploads went to the private bucket, or "" for any other URL.
+export function publicFullBookPath(url: string) {
+  const index = url.indexOf(PUBLIC_READER_MEDIA_MARKER);
+  if (index < 0) return "";
+  const path = url.slice(index + PUBLIC_READER_MEDIA_MARKER.length).split(/[?#]/)[0];
+  try {
+    return path.split("/").filter(Boolean).map(decodeURIComponent).join("/");
+  } catch {
+    return "";
+  }
+}
+
+// Moves full books still sitting in the public reader-media bucket into the private bucket and points their
+// catalogue rows at the private path. URLs hosted elsewhere cannot be moved; they are reported and no longer served.
+export async function migratePublicFullBooks() {
+  const { data, error } = await supabaseService
+    .from(BOOKS_TABLE_NAME)
+    .select("id, title, full_book_media_url")
+    .eq("full_book_media_path", "")
+    .neq("full_book_media_url", "");
+  if (error) return { moved: [] as string[], skipped: [] as string[], error: error.message };
+
+  const moved: string[] = [];
+  const skipped: string[] = [];
+  for (const row of data ?? []) {
+    const label = typeof row.title === "string" && row.title ? row.title : row.id;
+    const url = typeof row.full_book_media_url === "string" ? row.full_book_media_url : "";
+    const path = publicFullBookPath(url);
+    if (!path) {
+      skipped.push(label);
+      continue;
+    }
+
+    const { error: moveError } = await supabaseService.storage
+      .from(READER_MEDIA_BUCKET_NAME)
+      .move(path, path, { destinationBucket: FULL_BOOK_BUCKET_NAME });
+    if (moveError) return { moved, skipped, error: `Moving '${path}' failed: ${moveError.message}` };
+
+    const { error: updateError } = await supabaseService
+      .from(BOOKS_TABLE_NAME)
+      .update({ full_book_media_path: path, full_book_media_url: "" })
+      .eq("id", row.id);
+    if (updateError) return { moved, skipped, error: updateError.message };
+    moved.push(label);
+  }
+
+  return { moved, skipped, error: null };
+}
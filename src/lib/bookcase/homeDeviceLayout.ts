@@ -214,6 +214,11 @@ export function isBookcaseHomeProfileKey(value: string): value is BookcaseHomePr
   return BOOKCASE_HOME_PROFILE_KEYS.includes(value as BookcaseHomeProfileKey);
 }
 
+// Home layouts share device_layout_profiles with the login layouts.
+export function bookcaseHomeProfileRowKey(profile: BookcaseHomeProfileKey) {
+  return `bookcase-home:${profile}`;
+}
+
 export function defaultBookcaseHomeLayout(profile: BookcaseHomeProfileKey) {
   return { ...DEFAULT_BOOKCASE_HOME_LAYOUTS[profile] };
 }
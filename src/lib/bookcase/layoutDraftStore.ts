@@ -0,0 +1,171 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { layoutDraftFromRow, type LayoutDraft } from "@/lib/bookcase/layoutDrafts";
+import type { LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+import { recordLayoutRevision, writeLiveLayout, type LayoutAuthor } from "@/lib/bookcase/layoutRevisionStore";
+
+export const LAYOUT_DRAFTS_TABLE_NAME = "layout_drafts";
+
+const DRAFT_COLUMNS = "table_name, row_key, layout, publish_at, publish_with_key, updated_by, updated_at";
+// Drafts published per request; any left over go live on the next one.
+const MAX_DUE_DRAFTS = 20;
+
+export async function loadLayoutDraft(table: LayoutRevisionTable, key: string) {
+  const { data, error } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .select(DRAFT_COLUMNS)
+    .match({ table_name: table, row_key: key })
+    .maybeSingle();
+  if (error) return { draft: null, error: error.message };
+  return { draft: layoutDraftFromRow(data), error: null };
+}
+
+// Same contract as live book layout saves: undefined skips the stale-write check, null expects
+// no draft yet, and a timestamp must match the draft's current updated_at. publishWithKey links the draft to
+// another row's draft in the same table, which publishes it first; saves without it keep an existing link.
+export async function saveLayoutDraft(
+  table: LayoutRevisionTable,
+  key: string,
+  layout: Record<string, unknown>,
+  author: LayoutAuthor,
+  expectedUpdatedAt?: string | null,
+  publishWithKey?: string
+) {
+  const match = { table_name: table, row_key: key };
+  const row = {
+    ...match,
+    layout,
+    updated_by: author.id,
+    ...(publishWithKey ? { publish_with_key: publishWithKey } : {}),
+  };
+  const result =
+    expectedUpdatedAt === undefined
+      ? await supabaseService
+          .from(LAYOUT_DRAFTS_TABLE_NAME)
+          .upsert(row, { onConflict: "table_name,row_key" })
+          .select(DRAFT_COLUMNS)
+          .maybeSingle()
+      : expectedUpdatedAt === null
+        ? await supabaseService.from(LAYOUT_DRAFTS_TABLE_NAME).insert(row).select(DRAFT_COLUMNS).maybeSingle()
+        : await supabaseService
+            .from(LAYOUT_DRAFTS_TABLE_NAME)
+            .update(row)
+            .match({ ...match, updated_at: expectedUpdatedAt })
+            .select(DRAFT_COLUMNS)
+            .maybeSingle();
+
+  const conflict = expectedUpdatedAt !== undefined && (result.error ? result.error.code === "23505" : !result.data);
+  if (conflict) return { draft: null, conflict: true, error: null };
+  if (result.error) return { draft: null, conflict: false, error: result.error.message };
+  return { draft: layoutDraftFromRow(result.data), conflict: false, error: null };
+}
+
+export async function scheduleLayoutDraft(table: LayoutRevisionTable, key: string, publishAt: string | null) {
+  const { data, error } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .update({ publish_at: publishAt })
+    .match({ table_name: table, row_key: key })
+    .select(DRAFT_COLUMNS)
+    .maybeSingle();
+  if (error) return { draft: null, error: error.message, status: 500 };
+  if (!data) return { draft: null, error: "No draft to schedule", status: 404 };
+  return { draft: layoutDraftFromRow(data), error: null, status: 200 };
+}
+
+// With expectedUpdatedAt, only a draft still at that version is discarded.
+export async function discardLayoutDraft(table: LayoutRevisionTable, key: string, expectedUpdatedAt?: string) {
+  const { error } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .delete()
+    .match({ table_name: table, row_key: key, ...(expectedUpdatedAt ? { updated_at: expectedUpdatedAt } : {}) });
+  return error ? error.message : null;
+}
+
+// Puts a draft back as it was before a write that is being rolled back, schedule and link included, unless
+// the draft has changed again since that write.
+export async function revertLayoutDraft(previous: LayoutDraft, expectedUpdatedAt: string) {
+  const { error } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .update({
+      layout: previous.layout,
+      publish_at: previous.publishAt,
+      publish_with_key: previous.publishWithKey,
+      updated_by: previous.updatedBy,
+    })
+    .match({ table_name: previous.table, row_key: previous.key, updated_at: expectedUpdatedAt });
+  return error ? error.message : null;
+}
+
+// The draft row is deleted before the live write so two requests cannot both publish it.
+// If the live write fails the draft is put back. Book metadata the draft changed reaches the catalogue here
+// and not before. Drafts linked to this one (continuation pages its books
+// overflowed onto) are published first, so a failure leaves those books on two pages rather than on none.
+async function publishClaimedDraft(
+  draft: LayoutDraft,
+  author: LayoutAuthor | null
+): Promise<{ published: boolean; updatedAt: string | null; error: string | null; status: number }> {
+  const { data: linkedRows, error: linkedError } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .select(DRAFT_COLUMNS)
+    .match({ table_name: draft.table, publish_with_key: draft.key });
+  if (linkedError) return { published: false, updatedAt: null, error: linkedError.message, status: 500 };
+  for (const row of linkedRows ?? []) {
+    const linked = layoutDraftFromRow(row);
+    if (!linked) continue;
+    const result = await publishClaimedDraft(linked, author);
+    if (!result.published) {
+      return { ...result, error: `Continuation page ${linked.key}: ${result.error ?? "not published"}` };
+    }
+  }
+
+  const { data: claimed, error: claimError } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .delete()
+    .match({ table_name: draft.table, row_key: draft.key, updated_at: draft.updatedAt })
+    .select("row_key");
+  if (claimError) return { published: false, updatedAt: null, error: claimError.message, status: 500 };
+  if (!claimed?.length) {
+    return { published: false, updatedAt: null, error: "Draft changed while publishing", status: 409 };
+  }
+
+  const { data, layout, error } = await writeLiveLayout(draft.table, draft.key, draft.layout, author?.id ?? null, {
+    withMetadata: true,
+  });
+  if (error) {
+    await supabaseService.from(LAYOUT_DRAFTS_TABLE_NAME).insert({
+      table_name: draft.table,
+      row_key: draft.key,
+      layout: draft.layout,
+      publish_at: draft.publishAt,
+      publish_with_key: draft.publishWithKey,
+      updated_by: draft.updatedBy,
+    });
+    return { published: false, updatedAt: null, error: `Publish failed: ${error.message}`, status: 500 };
+  }
+
+  await recordLayoutRevision(draft.table, draft.key, layout, author);
+  const updatedAt = typeof data?.updated_at === "string" ? data.updated_at : null;
+  return { published: true, updatedAt, error: null, status: 200 };
+}
+
+export async function publishLayoutDraft(table: LayoutRevisionTable, key: string, author: LayoutAuthor) {
+  const { draft, error } = await loadLayoutDraft(table, key);
+  if (error) return { published: false, updatedAt: null, error, status: 500 };
+  if (!draft) return { published: false, updatedAt: null, error: "No draft to publish", status: 404 };
+  return publishClaimedDraft(draft, author);
+}
+
+// There is no scheduler; every read of live layout data (layout APIs, shelf pages and navigation, the
+// reader, checkout and bundle grants) publishes the drafts that are due first, so they go live on the
+// next request of any kind.
+export async function publishDueLayoutDrafts() {
+  const { data } = await supabaseService
+    .from(LAYOUT_DRAFTS_TABLE_NAME)
+    .select(DRAFT_COLUMNS)
+    .lte("publish_at", new Date().toISOString())
+    .order("publish_at")
+    .limit(MAX_DUE_DRAFTS);
+  for (const row of data ?? []) {
+    const draft = layoutDraftFromRow(row);
+    if (draft) await publishClaimedDraft(draft, draft.updatedBy ? { id: draft.updatedBy } : null);
+  }
+}
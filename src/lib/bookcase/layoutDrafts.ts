@@ -0,0 +1,50 @@
+import { isLayoutRevisionTable, type LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+
+// Editors save into a draft per layout row; readers keep seeing the published row until the draft
+// is published, either by hand or once its publish time has passed.
+export type LayoutDraft = {
+  table: LayoutRevisionTable;
+  key: string;
+  layout: Record<string, unknown>;
+  publishAt: string | null;
+  // Set on continuation drafts: the row key of the draft they are published with.
+  publishWithKey: string | null;
+  updatedBy: string | null;
+  updatedAt: string;
+};
+
+// What editors need to show the draft's state without its layout.
+export type LayoutDraftState = {
+  updatedAt: string;
+  publishAt: string | null;
+};
+
+export const LAYOUT_DRAFT_ACTIONS = ["publish", "schedule", "discard"] as const;
+export type LayoutDraftAction = (typeof LAYOUT_DRAFT_ACTIONS)[number];
+
+export function isLayoutDraftAction(value: string): value is LayoutDraftAction {
+  return (LAYOUT_DRAFT_ACTIONS as readonly string[]).includes(value);
+}
+
+export function layoutDraftFromRow(raw: unknown): LayoutDraft | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const table = typeof row.table_name === "string" ? row.table_name : "";
+  if (!isLayoutRevisionTable(table) || typeof row.row_key !== "string" || typeof row.updated_at !== "string") {
+    return null;
+  }
+
+  return {
+    table,
+    key: row.row_key,
+    layout: row.layout && typeof row.layout === "object" ? (row.layout as Record<string, unknown>) : {},
+    publishAt: typeof row.publish_at === "string" ? row.publish_at : null,
+    publishWithKey: typeof row.publish_with_key === "string" ? row.publish_with_key : null,
+    updatedBy: typeof row.updated_by === "string" ? row.updated_by : null,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function layoutDraftState(draft: LayoutDraft | null): LayoutDraftState | null {
+  return draft ? { updatedAt: draft.updatedAt, publishAt: draft.publishAt } : null;
+}
@@ -0,0 +1,82 @@
+import { loadLayoutRevision, recordLayoutRevision, writeLiveLayout, type LayoutAuthor } from "@/lib/bookcase/layoutRevisionStore";
+import { normalizeShelfRows, splitShelfOverflow } from "@/lib/bookcase/shelfLayout";
+import { flowShelfOverflow } from "@/lib/bookcase/shelfOverflowStore";
+import {
+  bookcasePageKeyFromBooksProfileRowKey,
+  bookcaseProfileFromBooksProfileRowKey,
+} from "@/lib/bookcase/shelfNavDeviceLayout";
+
+function rowUpdatedAt(data: { updated_at?: unknown } | null) {
+  return typeof data?.updated_at === "string" ? data.updated_at : null;
+}
+
+// Writes a revision back as the current layout and records the rollback as a revision of its own.
+// expectedUpdatedAt is the live row's updated_at the admin chose the revision against (undefined skips the
+// check). A book shelf revision holding more books than its rows goes through the same overflow flow as
+// an editor save: the books past its rows move to the continuation pages.
+export async function restoreLayoutRevision(id: string, user: LayoutAuthor, expectedUpdatedAt?: string | null) {
+  const { revision, error } = await loadLayoutRevision(id);
+  if (error) return { revision: null, updatedAt: null, warning: null, error, status: 500 };
+  if (!revision) return { revision: null, updatedAt: null, warning: null, error: "Revision not found", status: 404 };
+
+  const conflict = {
+    revision: null,
+    updatedAt: null,
+    warning: null,
+    error: "This layout was saved by someone else after you opened its history.",
+    status: 409,
+  };
+  const first = await writeLiveLayout(revision.table, revision.key, revision.layout, user.id, { expectedUpdatedAt });
+  if (first.conflict) return conflict;
+  if (first.error) {
+    return { revision: null, updatedAt: null, warning: null, error: `Restore failed: ${first.error.message}`, status: 500 };
+  }
+
+  const isPageRow = revision.table === "bookcase_book_layouts";
+  const profile = isPageRow ? null : bookcaseProfileFromBooksProfileRowKey(revision.key);
+  const pageKey = isPageRow ? revision.key : profile ? bookcasePageKeyFromBooksProfileRowKey(revision.key) : null;
+  const shelfRows = normalizeShelfRows(first.layout.shelfRows);
+  const books = Array.isArray(first.layout.books) ? (first.layout.books as Record<string, unknown>[]) : [];
+  const { kept, overflow } = splitShelfOverflow(books, shelfRows);
+  // Editors keep this for their next save's concurrency check.
+  const firstUpdatedAt = rowUpdatedAt(first.data);
+  if (!pageKey || overflow.length === 0) {
+    await recordLayoutRevision(revision.table, revision.key, first.layout, user, revision.id);
+    return { revision, updatedAt: firstUpdatedAt, warning: null, error: null, status: 200 };
+  }
+
+  const trimmedLayout = { ...first.layout, books: kept };
+  const frontTemplates =
+    first.layout.frontTemplates && typeof first.layout.frontTemplates === "object"
+      ? (first.layout.frontTemplates as Record<string, unknown>)
+      : {};
+  const moved = await flowShelfOverflow(
+    pageKey,
+    profile,
+    overflow,
+    { frontTemplates, shelfRows },
+    user,
+    false,
+    async () => {
+      const trimmed = await writeLiveLayout(revision.table, revision.key, trimmedLayout, user.id, {
+        expectedUpdatedAt: firstUpdatedAt,
+      });
+      return {
+        conflict: trimmed.conflict,
+        updatedAt: rowUpdatedAt(trimmed.data),
+        error: trimmed.error?.message ?? null,
+      };
+    }
+  );
+
+  const dropped = !moved.conflict && !moved.error;
+  await recordLayoutRevision(revision.table, revision.key, dropped ? trimmedLayout : first.layout, user, revision.id);
+  if (moved.conflict) return conflict;
+  return {
+    revision,
+    updatedAt: moved.updatedAt ?? firstUpdatedAt,
+    warning: moved.error ? `Could not move ${overflow.length} book(s) to the next page: ${moved.error}` : null,
+    error: null,
+    status: 200,
+  };
+}
@@ -0,0 +1,192 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { layoutRevisionFromRow, type LayoutRevision, type LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+import { normalizeShelfRows } from "@/lib/bookcase/shelfLayout";
+import { bookcasePageKeyFromBooksProfileRowKey } from "@/lib/bookcase/shelfNavDeviceLayout";
+import { prepareShelfBooks, saveCatalogBooks, type PreparedShelfBooks } from "@/lib/bookcase/bookCatalogStore";
+
+export const LAYOUT_REVISIONS_TABLE_NAME = "layout_revisions";
+
+const REVISION_COLUMNS = "id, table_name, row_key, layout, created_by, created_by_email, created_at, restored_from";
+const MAX_LISTED_REVISIONS = 50;
+
+// The admin behind a write; scheduled publishes only know the draft's last editor id.
+export type LayoutAuthor = { id: string; email?: string };
+
+// History is best effort: a save that reached the layout table is never failed because the revision insert did not.
+export async function recordLayoutRevision(
+  table: LayoutRevisionTable,
+  key: string,
+  layout: Record<string, unknown>,
+  author: LayoutAuthor | null,
+  restoredFrom: string | null = null
+) {
+  const { error } = await supabaseService.from(LAYOUT_REVISIONS_TABLE_NAME).insert({
+    table_name: table,
+    row_key: key,
+    layout,
+    created_by: author?.id ?? null,
+    created_by_email: author?.email ?? "",
+    restored_from: restoredFrom,
+  });
+  return error ? error.message : null;
+}
+
+export async function loadLayoutRevision(id: string) {
+  const { data, error } = await supabaseService
+    .from(LAYOUT_REVISIONS_TABLE_NAME)
+    .select(REVISION_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) return { revision: null, error: error.message };
+  return { revision: layoutRevisionFromRow(data), error: null };
+}
+
+export async function listLayoutRevisions(table: LayoutRevisionTable, key: string) {
+  const { data, error } = await supabaseService
+    .from(LAYOUT_REVISIONS_TABLE_NAME)
+    .select(REVISION_COLUMNS)
+    .eq("table_name", table)
+    .eq("row_key", key)
+    .order("created_at", { ascending: false })
+    .limit(MAX_LISTED_REVISIONS);
+
+  if (error) return { revisions: [] as LayoutRevision[], error: error.message };
+
+  const revisions = (data ?? [])
+    .map(layoutRevisionFromRow)
+    .filter((revision): revision is LayoutRevision => revision !== null);
+  return { revisions, error: null };
+}
+
+// Reads the stored layout readers currently see and its updated_at, or nulls when the row does not exist.
+// Shelf entries come back as placements; hydrateShelfBooks fills in their metadata.
+export async function readLiveLayout(table: LayoutRevisionTable, key: string) {
+  if (table === "bookcase_book_layouts") {
+    const { data, error } = await supabaseService
+      .from("bookcase_book_layouts")
+      .select("books, front_templates, shelf_rows, updated_at")
+      .eq("page_key", key)
+      .maybeSingle();
+    const row = data && typeof data === "object" ? (data as Record<string, unknown>) : null;
+    return {
+      layout: row
+        ? {
+            books: Array.isArray(row.books) ? row.books : [],
+            frontTemplates: row.front_templates && typeof row.front_templates === "object" ? row.front_templates : {},
+            shelfRows: normalizeShelfRows(row.shelf_rows),
+          }
+        : null,
+      updatedAt: typeof row?.updated_at === "string" ? row.updated_at : null,
+      error: error ? error.message : null,
+    };
+  }
+
+  const { data, error } = await supabaseService
+    .from("device_layout_profiles")
+    .select("layout, updated_at")
+    .eq("profile_key", key)
+    .maybeSingle();
+  const layout = data && typeof data.layout === "object" ? (data.layout as Record<string, unknown> | null) : null;
+  const updatedAt = typeof data?.updated_at === "string" ? data.updated_at : null;
+  return { layout, updatedAt, error: error ? error.message : null };
+}
+
+function liveKeyColumn(table: LayoutRevisionTable) {
+  return table === "bookcase_book_layouts" ? "page_key" : "profile_key";
+}
+
+// Same contract as the editor's saves: undefined skips the stale-write check, null expects no row yet, and
+// a timestamp must match the row's current updated_at.
+async function writeLiveRow(
+  table: LayoutRevisionTable,
+  key: string,
+  layout: Record<string, unknown>,
+  updatedBy: string | null,
+  expectedUpdatedAt: string | null | undefined
+) {
+  const keyColumn = liveKeyColumn(table);
+  let row: Record<string, unknown>;
+  if (table === "bookcase_book_layouts") {
+    const books = Array.isArray(layout.books) ? layout.books : [];
+    const frontTemplates =
+      layout.frontTemplates && typeof layout.frontTemplates === "object" ? layout.frontTemplates : {};
+    row = {
+      page_key: key,
+      books,
+      front_templates: frontTemplates,
+      shelf_rows: normalizeShelfRows(layout.shelfRows),
+      updated_by: updatedBy,
+    };
+  } else {
+    row = { profile_key: key, layout, updated_by: updatedBy };
+  }
+
+  const result =
+    expectedUpdatedAt === undefined
+      ? await supabaseService.from(table).upsert(row, { onConflict: keyColumn }).select("updated_at").maybeSingle()
+      : expectedUpdatedAt === null
+        ? await supabaseService.from(table).insert(row).select("updated_at").maybeSingle()
+        : await supabaseService
+            .from(table)
+            .update(row)
+            .eq(keyColumn, key)
+            .eq("updated_at", expectedUpdatedAt)
+            .select("updated_at")
+            .maybeSingle();
+  const conflict = expectedUpdatedAt !== undefined && (result.error ? result.error.code === "23505" : !result.data);
+  return { data: result.data, conflict, error: conflict ? null : result.error };
+}
+
+export type LiveLayoutWriteOptions = {
+  // Set when publishing a draft: the metadata its entries carry is written to the books catalogue.
+  withMetadata?: boolean;
+  // The row's updated_at the caller based the write on; see writeLiveRow.
+  expectedUpdatedAt?: string | null;
+};
+
+type LiveLayoutWrite = {
+  data: { updated_at?: unknown } | null;
+  layout: Record<string, unknown>;
+  conflict: boolean;
+  error: { message: string } | null;
+};
+
+// Writes a revision-shaped layout to the table readers load from and returns the layout as stored. Book
+// shelves store placements linked to the books catalogue; metadata a revision carries is never written over
+// the shared book.
+export async function writeLiveLayout(
+  table: LayoutRevisionTable,
+  key: string,
+  layout: Record<string, unknown>,
+  updatedBy: string | null,
+  options: LiveLayoutWriteOptions = {}
+): Promise<LiveLayoutWrite> {
+  const shelfPageKey = table === "bookcase_book_layouts" ? key : bookcasePageKeyFromBooksProfileRowKey(key);
+  let prepared: PreparedShelfBooks | null = null;
+  if (shelfPageKey) {
+    const result = await prepareShelfBooks(shelfPageKey, layout.books, updatedBy, Boolean(options.withMetadata));
+    if (!result.prepared) {
+      return { data: null, layout, conflict: false, error: { message: result.error ?? "Unable to save books" } };
+    }
+    prepared = result.prepared;
+  }
+
+  const stored = prepared ? { ...layout, books: prepared.placements } : layout;
+  const written = await writeLiveRow(table, key, stored, updatedBy, options.expectedUpdatedAt);
+  if (written.conflict || written.error || !prepared) {
+    return { data: written.data, layout: stored, conflict: written.conflict, error: written.error };
+  }
+  const catalogError = await saveCatalogBooks(prepared);
+  return { data: written.data, layout: stored, conflict: false, error: catalogError ? { message: catalogError } : null };
+}
+
+// Removes a live row, only while it is still the write the caller made.
+export async function deleteLiveLayout(table: LayoutRevisionTable, key: string, expectedUpdatedAt: string) {
+  const keyColumn = liveKeyColumn(table);
+  const { error } = await supabaseService
+    .from(table)
+    .delete()
+    .eq(keyColumn, key)
+    .eq("updated_at", expectedUpdatedAt);
+  return error ? error.message : null;
+}
@@ -0,0 +1,92 @@
+// Every layout save is kept as a revision so admins can compare and roll back.
+export const LAYOUT_REVISION_TABLES = ["device_layout_profiles", "bookcase_book_layouts"] as const;
+export type LayoutRevisionTable = (typeof LAYOUT_REVISION_TABLES)[number];
+
+export type LayoutRevision = {
+  id: string;
+  table: LayoutRevisionTable;
+  key: string;
+  layout: Record<string, unknown>;
+  createdBy: string | null;
+  createdByEmail: string;
+  createdAt: string;
+  restoredFrom: string | null;
+};
+
+export type LayoutDiffEntry = {
+  path: string;
+  before: string | null;
+  after: string | null;
+};
+
+export function isLayoutRevisionTable(value: string): value is LayoutRevisionTable {
+  return (LAYOUT_REVISION_TABLES as readonly string[]).includes(value);
+}
+
+export function layoutRevisionFromRow(raw: unknown): LayoutRevision | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const table = typeof row.table_name === "string" ? row.table_name : "";
+  if (typeof row.id !== "string" || !isLayoutRevisionTable(table) || typeof row.row_key !== "string") return null;
+
+  return {
+    id: row.id,
+    table,
+    key: row.row_key,
+    layout: row.layout && typeof row.layout === "object" ? (row.layout as Record<string, unknown>) : {},
+    createdBy: typeof row.created_by === "string" ? row.created_by : null,
+    createdByEmail: typeof row.created_by_email === "string" ? row.created_by_email : "",
+    createdAt: typeof row.created_at === "string" ? row.created_at : "",
+    restoredFrom: typeof row.restored_from === "string" ? row.restored_from : null,
+  };
+}
+
+// CSS variable layouts are stored as { vars }.
+export function layoutRevisionVars(layout: Record<string, unknown>) {
+  const raw = layout.vars && typeof layout.vars === "object" ? (layout.vars as Record<string, unknown>) : {};
+  const vars: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === "string") vars[key] = value;
+  }
+  return vars;
+}
+
+// Array items with a string `key` (books) are addressed by it so reordering reads as a move, not a rewrite.
+function flattenLayout(value: unknown, path: string, out: Map<string, string>) {
+  if (Array.isArray(value)) {
+    if (value.length === 0) out.set(path, "[]");
+    value.forEach((item, index) => {
+      const itemKey =
+        item && typeof item === "object" && typeof (item as Record<string, unknown>).key === "string"
+          ? String((item as Record<string, unknown>).key)
+          : String(index);
+      flattenLayout(item, `${path}[${itemKey}]`, out);
+    });
+    return;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && path) out.set(path, "{}");
+    for (const [key, child] of entries) {
+      flattenLayout(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  out.set(path, value === undefined ? "undefined" : JSON.stringify(value));
+}
+
+export function diffLayouts(before: unknown, after: unknown): LayoutDiffEntry[] {
+  const beforeValues = new Map<string, string>();
+  const afterValues = new Map<string, string>();
+  flattenLayout(before, "", beforeValues);
+  flattenLayout(after, "", afterValues);
+
+  const paths = new Set([...beforeValues.keys(), ...afterValues.keys()]);
+  const entries: LayoutDiffEntry[] = [];
+  for (const path of paths) {
+    const previous = beforeValues.get(path) ?? null;
+    const next = afterValues.get(path) ?? null;
+    if (previous !== next) entries.push({ path, before: previous, after: next });
+  }
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -1,5 +1,6 @@
 import { supabaseService } from "@/lib/supabase/service";
 import { STATIC_BOOKCASE_KEYS, bookcasePathForKey, normalizeBookcaseKey } from "@/lib/bookcase/pageKey";
+import { publishDueLayoutDrafts } from "@/lib/bookcase/layoutDraftStore";
 
 type KeySortRank = {
   bucket: number;
@@ -43,6 +44,7 @@ export async function getBookcaseNav(pageKeyInput: string) {
   const startsWithBase = `${base}-`;
 
   const keys = new Set<string>(STATIC_BOOKCASE_KEYS);
+  await publishDueLayoutDrafts();
   const { data } = await supabaseService.from("bookcase_book_layouts").select("page_key");
   if (Array.isArray(data)) {
     for (const row of data) {
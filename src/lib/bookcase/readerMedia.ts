@@ -0,0 +1,12 @@
+// Public bucket for reader sample/info media and images embedded in chapter Markdown.
+export const READER_MEDIA_BUCKET_NAME = "book-reader-media";
+
+export function readerMediaPublicUrl(storagePath: string) {
+  const base = (process.env.NEXT_PUBLIC_SUPABASE_URL || "").replace(/\/+$/, "");
+  const path = storagePath
+    .split("/")
+    .filter(Boolean)
+    .map((part) => encodeURIComponent(part))
+    .join("/");
+  return `${base}/storage/v1/object/public/${READER_MEDIA_BUCKET_NAME}/${path}`;
+}
@@ -0,0 +1,125 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { hydrateShelfBooks, listCatalogBooks } from "@/lib/bookcase/bookCatalogStore";
+import { publishDueLayoutDrafts } from "@/lib/bookcase/layoutDraftStore";
+
+const TABLE_NAME = "bookcase_book_layouts";
+
+export type ShelfBookRecord = {
+  key?: string;
+  bookId?: string;
+  label?: string;
+  readerSampleText?: string;
+  infoPageText?: string;
+  readerSampleMediaUrl?: string;
+  readerSampleMediaType?: string;
+  infoPageMediaUrl?: string;
+  infoPageMediaType?: string;
+  fullBookMediaUrl?: string;
+  fullBookMediaType?: string;
+  fullBookMediaPath?: string;
+  fullBookHideFirstPages?: number;
+  fullBookMaxPages?: number;
+  fullBookPricePence?: number;
+};
+
+export function safeString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+export function fullBookPricePence(book: ShelfBookRecord) {
+  const n = Number(book.fullBookPricePence);
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.round(n));
+}
+
+export function hasFullBookMedia(book: ShelfBookRecord) {
+  return Boolean(safeString(book.fullBookMediaPath).trim());
+}
+
+// Resolves a shelf slot to its catalogue book. Access, prices and bundles are keyed on the returned bookId,
+// so the same book on two shelves is one purchase.
+export async function loadShelfBook(pageKey: string, bookKey: string) {
+  await publishDueLayoutDrafts();
+  const { data, error } = await supabaseService
+    .from(TABLE_NAME)
+    .select("books")
+    .eq("page_key", pageKey)
+    .maybeSingle();
+
+  if (error) {
+    return { book: null, error: error.message };
+  }
+
+  const books = Array.isArray(data?.books) ? (data.books as ShelfBookRecord[]) : [];
+  const entry = books.find((item) => safeString(item?.key) === bookKey);
+  if (!entry) return { book: null, error: null };
+
+  const hydrated = await hydrateShelfBooks([entry]);
+  if (hydrated.error) return { book: null, error: hydrated.error };
+  return { book: hydrated.books[0] as ShelfBookRecord, error: null };
+}
+
+export type ShelfSlot = {
+  pageKey: string;
+  bookKey: string;
+};
+
+// Every live slot holding the book, in page order.
+export async function listBookSlots(bookId: string) {
+  if (!bookId) return [] as ShelfSlot[];
+  await publishDueLayoutDrafts();
+  const { data } = await supabaseService
+    .from(TABLE_NAME)
+    .select("page_key, books")
+    .contains("books", [{ bookId }])
+    .order("page_key");
+
+  const slots: ShelfSlot[] = [];
+  for (const row of data ?? []) {
+    const record = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+    const pageKey = typeof record.page_key === "string" ? record.page_key : "";
+    const books = Array.isArray(record.books) ? (record.books as ShelfBookRecord[]) : [];
+    for (const entry of books) {
+      const bookKey = safeString(entry?.key);
+      if (pageKey && bookKey && entry?.bookId === bookId) slots.push({ pageKey, bookKey });
+    }
+  }
+  return slots;
+}
+
+export type BookOption = {
+  bookId: string;
+  label: string;
+  pageKeys: string[];
+};
+
+// Every catalogue book with the shelves it is on, for admin pickers.
+export async function listBookOptions() {
+  await publishDueLayoutDrafts();
+  const [{ books }, { data }] = await Promise.all([
+    listCatalogBooks(),
+    supabaseService.from(TABLE_NAME).select("page_key, books").order("page_key"),
+  ]);
+
+  const shelves = new Map<string, string[]>();
+  for (const row of data ?? []) {
+    const record = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+    const pageKey = typeof record.page_key === "string" ? record.page_key : "";
+    const entries = Array.isArray(record.books) ? (record.books as ShelfBookRecord[]) : [];
+    for (const entry of entries) {
+      const bookId = safeString(entry?.bookId);
+      if (!pageKey || !bookId) continue;
+      const pageKeys = shelves.get(bookId) ?? [];
+      if (!pageKeys.includes(pageKey)) pageKeys.push(pageKey);
+      shelves.set(bookId, pageKeys);
+    }
+  }
+
+  return books.map(
+    (book): BookOption => ({
+      bookId: book.id,
+      label: String(book.label).trim() || `Untitled (${book.id.slice(0, 8)})`,
+      pageKeys: shelves.get(book.id) ?? [],
+    })
+  );
+}
@@ -0,0 +1,71 @@
+import { normalizeBookcaseKey } from "@/lib/bookcase/pageKey";
+
+// A bookcase page holds up to shelfRows rows of BOOKS_PER_SHELF_ROW books. Saving more than that moves
+// the extra books onto the page's continuation (creating -> creating-2 -> creating-3), where they are
+// added after the books already placed there.
+export const BOOKS_PER_SHELF_ROW = 8;
+export const MIN_SHELF_ROWS = 1;
+export const MAX_SHELF_ROWS = 3;
+export const DEFAULT_SHELF_ROWS = 1;
+
+const PRESET_BOOK_WIDTH = 14.67;
+const PRESET_BOOK_HEIGHT = 73.59;
+const SHELF_CENTER_Y = 63;
+
+function round(value: number) {
+  return Number(value.toFixed(2));
+}
+
+export function normalizeShelfRows(value: unknown) {
+  const rows = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(rows)) return DEFAULT_SHELF_ROWS;
+  return Math.min(MAX_SHELF_ROWS, Math.max(MIN_SHELF_ROWS, Math.round(rows)));
+}
+
+export function shelfCapacity(shelfRows: number) {
+  return normalizeShelfRows(shelfRows) * BOOKS_PER_SHELF_ROW;
+}
+
+// Default spot for the book at index; rows split the single-row shelf height evenly.
+export function shelfSlotPosition(index: number, shelfRows: number) {
+  const rows = normalizeShelfRows(shelfRows);
+  const slot = Math.max(0, index);
+  const column = slot % BOOKS_PER_SHELF_ROW;
+  const row = Math.min(Math.floor(slot / BOOKS_PER_SHELF_ROW), rows - 1);
+  const xStep = (100 - PRESET_BOOK_WIDTH) / (BOOKS_PER_SHELF_ROW - 1);
+  const height = PRESET_BOOK_HEIGHT / rows;
+  const top = SHELF_CENTER_Y - PRESET_BOOK_HEIGHT / 2;
+
+  return {
+    xPercent: round(PRESET_BOOK_WIDTH / 2 + column * xStep),
+    yPercent: round(top + (row + 0.5) * height),
+    widthPercent: PRESET_BOOK_WIDTH,
+    heightPercent: round(height),
+  };
+}
+
+export function splitShelfOverflow<T>(books: T[], shelfRows: number) {
+  const capacity = shelfCapacity(shelfRows);
+  return { kept: books.slice(0, capacity), overflow: books.slice(capacity) };
+}
+
+export function bookcaseContinuationKey(pageKey: string) {
+  const key = normalizeBookcaseKey(pageKey);
+  const match = key.match(/^(.+)-(\d+)$/);
+  return match ? `${match[1]}-${Number(match[2]) + 1}` : `${key}-2`;
+}
+
+function shelfBoxEdges(book: Record<string, unknown>) {
+  const values = [book.xPercent, book.yPercent, book.widthPercent, book.heightPercent].map(Number);
+  if (!values.every(Number.isFinite)) return null;
+  const [x, y, width, height] = values;
+  return { left: x - width / 2, right: x + width / 2, top: y - height / 2, bottom: y + height / 2 };
+}
+
+// Positions are book centres. A book without a usable position overlaps everything, so it is never kept as is.
+export function shelfBooksOverlap(a: Record<string, unknown>, b: Record<string, unknown>) {
+  const first = shelfBoxEdges(a);
+  const second = shelfBoxEdges(b);
+  if (!first || !second) return true;
+  return first.left < second.right && second.left < first.right && first.top < second.bottom && second.top < first.bottom;
+}
@@ -131,6 +131,25 @@ export function isBookcaseShelfNavProfileKey(value: string): value is BookcaseSh
   return BOOKCASE_SHELF_NAV_PROFILE_KEYS.includes(value as BookcaseShelfNavProfileKey);
 }
 
+// Arrow layouts and per-profile book layouts share device_layout_profiles with the login layouts.
+export function bookcaseShelfNavProfileRowKey(profile: BookcaseShelfNavProfileKey) {
+  return `bookcase-shelf-nav:${profile}`;
+}
+
+export function bookcaseBooksProfileRowKey(pageKey: string, profile: BookcaseShelfNavProfileKey) {
+  return `bookcase-books:${pageKey}:${profile}`;
+}
+
+export function bookcasePageKeyFromBooksProfileRowKey(rowKey: string) {
+  const [prefix, pageKey] = rowKey.split(":");
+  return prefix === "bookcase-books" && pageKey ? pageKey : null;
+}
+
+export function bookcaseProfileFromBooksProfileRowKey(rowKey: string) {
+  const [prefix, , profile] = rowKey.split(":");
+  return prefix === "bookcase-books" && profile && isBookcaseShelfNavProfileKey(profile) ? profile : null;
+}
+
 export function defaultBookcaseShelfNavLayout(profile: BookcaseShelfNavProfileKey) {
   return { ...DEFAULT_BOOKCASE_SHELF_NAV_LAYOUTS[profile] };
 }
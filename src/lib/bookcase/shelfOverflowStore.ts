@@ -0,0 +1,213 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { isValidBookcaseKey } from "@/lib/bookcase/pageKey";
+import type { LayoutRevisionTable } from "@/lib/bookcase/layoutRevisions";
+import type { LayoutDraft } from "@/lib/bookcase/layoutDrafts";
+import {
+  discardLayoutDraft,
+  loadLayoutDraft,
+  revertLayoutDraft,
+  saveLayoutDraft,
+} from "@/lib/bookcase/layoutDraftStore";
+import {
+  deleteLiveLayout,
+  readLiveLayout,
+  recordLayoutRevision,
+  writeLiveLayout,
+  type LayoutAuthor,
+} from "@/lib/bookcase/layoutRevisionStore";
+import {
+  bookcaseContinuationKey,
+  normalizeShelfRows,
+  shelfBooksOverlap,
+  shelfSlotPosition,
+  splitShelfOverflow,
+} from "@/lib/bookcase/shelfLayout";
+import { bookcaseBooksProfileRowKey, type BookcaseShelfNavProfileKey } from "@/lib/bookcase/shelfNavDeviceLayout";
+import { shelfBookId } from "@/lib/bookcase/bookCatalog";
+
+const MAX_CONTINUATION_PAGES = 20;
+
+type ShelfTemplate = {
+  frontTemplates: Record<string, unknown>;
+  shelfRows: number;
+};
+
+// Moved books keep their bookId, which access, prices and bundles are keyed on; only the slot key changes,
+// and only when the continuation page already uses it.
+function uniqueBookKey(key: unknown, taken: Set<unknown>) {
+  const base = typeof key === "string" && key ? key : "book";
+  let candidate = base;
+  for (let n = 2; taken.has(candidate); n += 1) {
+    candidate = `${base}-${n}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+type PageTarget = { table: LayoutRevisionTable; key: string };
+
+// The outcome of dropping the moved books from the source page.
+export type SourceTrim = { conflict: boolean; updatedAt: string | null; error: string | null };
+
+// The layout new books are added to, plus what the target row itself held before: its draft, or its own live
+// row (a profile row may not exist yet and falls back to the page row).
+async function loadContinuationLayout(target: PageTarget, pageKey: string, asDraft: boolean) {
+  if (asDraft) {
+    const { draft, error } = await loadLayoutDraft(target.table, target.key);
+    if (error) return { layout: null, draft: null, own: null, error };
+    if (draft) return { layout: draft.layout, draft, own: null, error: null };
+  }
+  const saved = await readLiveLayout(target.table, target.key);
+  if (saved.error) return { layout: null, draft: null, own: null, error: saved.error };
+  if (saved.layout || target.table === "bookcase_book_layouts") {
+    return { layout: saved.layout, draft: null, own: saved.layout, error: null };
+  }
+  const page = await readLiveLayout("bookcase_book_layouts", pageKey);
+  return { layout: page.layout, draft: null, own: null, error: page.error };
+}
+
+type PlannedPage = {
+  key: string;
+  target: PageTarget;
+  layout: Record<string, unknown>;
+  previousDraft: LayoutDraft | null;
+  previousLive: Record<string, unknown> | null;
+  // updated_at of this save's write, once made.
+  writtenAt: string | null;
+  stored: Record<string, unknown> | null;
+};
+
+// Best effort: each page goes back to what it held unless someone has written it since.
+async function rollBackPages(pages: PlannedPage[], author: LayoutAuthor, asDraft: boolean) {
+  for (const page of pages) {
+    if (!page.writtenAt) continue;
+    const { table, key } = page.target;
+    if (asDraft) {
+      await (page.previousDraft
+        ? revertLayoutDraft(page.previousDraft, page.writtenAt)
+        : discardLayoutDraft(table, key, page.writtenAt));
+    } else if (page.previousLive) {
+      await writeLiveLayout(table, key, page.previousLive, author.id, { expectedUpdatedAt: page.writtenAt });
+    } else {
+      await deleteLiveLayout(table, key, page.writtenAt);
+    }
+  }
+}
+
+// Appends books that did not fit on pageKey to its continuation pages, in the same profile and the same
+// draft/live state as the save that pushed them out, then calls trimSource to drop them from the source page.
+// Every page is planned before any is written, and books a continuation page already holds are not added
+// again. If a page write or the trim fails, the pages written are rolled back, so the books stay on the
+// source page only. Missing continuation pages are created empty so they show up in the shelf navigation; a
+// draft only fills them in once it is published, and it is linked to the source page's draft so they are
+// published together.
+export async function flowShelfOverflow(
+  pageKey: string,
+  profile: BookcaseShelfNavProfileKey | null,
+  overflow: Record<string, unknown>[],
+  template: ShelfTemplate,
+  author: LayoutAuthor,
+  asDraft: boolean,
+  trimSource: () => Promise<SourceTrim>
+) {
+  const failed = (error: string | null, conflict = false) => ({
+    pages: [] as string[],
+    updatedAt: null,
+    conflict,
+    error,
+  });
+  const sourceKey = profile ? bookcaseBooksProfileRowKey(pageKey, profile) : pageKey;
+  const planned: PlannedPage[] = [];
+  let pending = overflow;
+  let key = pageKey;
+
+  while (pending.length > 0) {
+    key = bookcaseContinuationKey(key);
+    if (!isValidBookcaseKey(key) || planned.length >= MAX_CONTINUATION_PAGES) {
+      return failed(`No continuation page available after '${planned[planned.length - 1]?.key ?? pageKey}'`);
+    }
+
+    const { error: pageError } = await supabaseService.from("bookcase_book_layouts").upsert(
+      {
+        page_key: key,
+        books: [],
+        front_templates: template.frontTemplates,
+        shelf_rows: template.shelfRows,
+        updated_by: author.id,
+      },
+      { onConflict: "page_key", ignoreDuplicates: true }
+    );
+    if (pageError) return failed(pageError.message);
+
+    const target: PageTarget = profile
+      ? { table: "device_layout_profiles", key: bookcaseBooksProfileRowKey(key, profile) }
+      : { table: "bookcase_book_layouts", key };
+    const current = await loadContinuationLayout(target, key, asDraft);
+    if (current.error) return failed(current.error);
+
+    const base = current.layout ?? {};
+    const rows = normalizeShelfRows(base.shelfRows ?? template.shelfRows);
+    const existing = Array.isArray(base.books) ? (base.books as Record<string, unknown>[]) : [];
+    const keys = new Set(existing.map((book) => book.key));
+    // A retried save whose earlier attempt already reached this page finds its books here.
+    const present = new Set(existing.map(shelfBookId).filter(Boolean));
+    // The admin's position is kept unless it would cover a book already on the page.
+    const placed: Record<string, unknown>[] = [];
+    for (const book of pending) {
+      if (present.has(shelfBookId(book))) continue;
+      const occupied = [...existing, ...placed];
+      const moved: Record<string, unknown> = { ...book, key: uniqueBookKey(book.key, keys) };
+      placed.push(
+        occupied.some((other) => shelfBooksOverlap(moved, other))
+          ? { ...moved, ...shelfSlotPosition(occupied.length, rows) }
+          : moved
+      );
+    }
+    const { kept, overflow: rest } = splitShelfOverflow([...existing, ...placed], rows);
+    planned.push({
+      key,
+      target,
+      layout: {
+        books: kept,
+        frontTemplates:
+          base.frontTemplates && typeof base.frontTemplates === "object" ? base.frontTemplates : template.frontTemplates,
+        shelfRows: rows,
+      },
+      previousDraft: current.draft,
+      previousLive: current.own,
+      writtenAt: null,
+      stored: null,
+    });
+    pending = rest;
+  }
+
+  for (const page of planned) {
+    const { table, key: rowKey } = page.target;
+    let error: string | null = null;
+    if (asDraft) {
+      const saved = await saveLayoutDraft(table, rowKey, page.layout, author, undefined, sourceKey);
+      page.writtenAt = saved.draft?.updatedAt ?? null;
+      error = saved.error;
+    } else {
+      const written = await writeLiveLayout(table, rowKey, page.layout, author.id);
+      page.writtenAt = typeof written.data?.updated_at === "string" ? written.data.updated_at : null;
+      page.stored = written.layout;
+      error = written.error?.message ?? null;
+    }
+    if (error) {
+      await rollBackPages(planned, author, asDraft);
+      return failed(error);
+    }
+  }
+
+  const trimmed = await trimSource();
+  if (trimmed.conflict || trimmed.error) {
+    await rollBackPages(planned, author, asDraft);
+    return failed(trimmed.error, trimmed.conflict);
+  }
+
+  for (const page of planned) {
+    if (page.stored) await recordLayoutRevision(page.target.table, page.target.key, page.stored, author);
+  }
+  return { pages: planned.map((page) => page.key), updatedAt: trimmed.updatedAt, conflict: false, error: null };
+}
@@ -0,0 +1,112 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { normalizeCurrency } from "@/lib/commerce/pricing";
+import { publishDueLayoutDrafts } from "@/lib/bookcase/layoutDraftStore";
+
+export const BUNDLES_TABLE_NAME = "bundles";
+
+const BUNDLE_COLUMNS = "id, slug, title, description, amount_pence, currency, status, bundle_items(item_type, chapter_id, page_key, book_id)";
+
+export type BundleItem = {
+  itemType: "chapter" | "book" | "shelf";
+  chapterId: string | null;
+  pageKey: string | null;
+  bookId: string | null;
+};
+
+export type BundleRecord = {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  amountPence: number;
+  currency: string;
+  published: boolean;
+  items: BundleItem[];
+};
+
+function itemFromRow(raw: unknown): BundleItem | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const itemType = row.item_type === "chapter" || row.item_type === "book" || row.item_type === "shelf" ? row.item_type : null;
+  if (!itemType) return null;
+  return {
+    itemType,
+    chapterId: typeof row.chapter_id === "string" ? row.chapter_id : null,
+    pageKey: typeof row.page_key === "string" ? row.page_key : null,
+    bookId: typeof row.book_id === "string" ? row.book_id : null,
+  };
+}
+
+function bundleFromRow(raw: unknown): BundleRecord | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  if (typeof row.id !== "string") return null;
+
+  const amount = Number(row.amount_pence);
+  const items = Array.isArray(row.bundle_items) ? row.bundle_items : [];
+  return {
+    id: row.id,
+    slug: typeof row.slug === "string" ? row.slug : row.id,
+    title: typeof row.title === "string" && row.title.trim() ? row.title.trim() : "Bundle",
+    description: typeof row.description === "string" ? row.description : "",
+    amountPence: Number.isFinite(amount) ? Math.max(0, Math.round(amount)) : 0,
+    currency: normalizeCurrency(row.currency),
+    published: row.status === "published",
+    items: items.map(itemFromRow).filter((item): item is BundleItem => item !== null),
+  };
+}
+
+// Shelf items cover whatever is on the shelf, so the caller passes every page the book is on.
+export function bundleIncludesBook(bundle: BundleRecord, bookId: string, pageKeys: string[]) {
+  return bundle.items.some(
+    (item) =>
+      (item.itemType === "shelf" && item.pageKey !== null && pageKeys.includes(item.pageKey)) ||
+      (item.itemType === "book" && item.bookId === bookId)
+  );
+}
+
+export async function listPublishedBundles() {
+  const { data, error } = await supabaseService
+    .from(BUNDLES_TABLE_NAME)
+    .select(BUNDLE_COLUMNS)
+    .eq("status", "published")
+    .order("title");
+
+  if (error) return { bundles: [] as BundleRecord[], error: error.message };
+
+  const bundles = (data ?? []).map(bundleFromRow).filter((bundle): bundle is BundleRecord => bundle !== null);
+  return { bundles, error: null };
+}
+
+export async function loadPublishedBundle(bundleId: string) {
+  const { data, error } = await supabaseService
+    .from(BUNDLES_TABLE_NAME)
+    .select(BUNDLE_COLUMNS)
+    .eq("id", bundleId)
+    .eq("status", "published")
+    .maybeSingle();
+
+  if (error) return { bundle: null, error: error.message };
+  return { bundle: bundleFromRow(data), error: null };
+}
+
+// Expansion runs inside one SQL function so a bundle is granted all-or-nothing.
+export async function grantBundle(userId: string, bundleId: string, source = "bundle", expiresAt: string | null = null) {
+  // Shelf items expand to the books live on the shelf, so a shelf due to be published goes live first.
+  await publishDueLayoutDrafts();
+  const { error } = await supabaseService.rpc("grant_bundle", {
+    p_user_id: userId,
+    p_bundle_id: bundleId,
+    p_source: source,
+    p_expires_at: expiresAt,
+  });
+  if (error) throw new Error(`Bundle grant failed: ${error.message}`);
+}
+
+export async function revokeBundle(userId: string, bundleId: string, source = "bundle") {
+  const { error } = await supabaseService.rpc("revoke_bundle", {
+    p_user_id: userId,
+    p_bundle_id: bundleId,
+    p_source: source,
+  });
+  if (error) throw new Error(`Bundle revoke failed: ${error.message}`);
+}
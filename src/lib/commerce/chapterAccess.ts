@@ -0,0 +1,39 @@
+import { supabaseService } from "@/lib/supabase/service";
+
+export type ChapterAccess =
+  | { state: "owned" }
+  | { state: "trial"; expiresAt: string }
+  | { state: "expired"; expiresAt: string }
+  | { state: "locked" };
+
+type ChapterEntitlement = {
+  expiresAt: string | null;
+  source: string;
+};
+
+export async function loadChapterEntitlements(userId: string) {
+  const { data } = await supabaseService
+    .from("entitlements")
+    .select("chapter_id, expires_at, source")
+    .eq("user_id", userId);
+
+  const entitlements = new Map<string, ChapterEntitlement>();
+  for (const row of data ?? []) {
+    if (typeof row.chapter_id !== "string") continue;
+    entitlements.set(row.chapter_id, {
+      expiresAt: typeof row.expires_at === "string" ? row.expires_at : null,
+      source: typeof row.source === "string" ? row.source : "",
+    });
+  }
+  return entitlements;
+}
+
+// Anything time-limited (trials, gifted passes) shows as a trial with a countdown.
+export function chapterAccess(entitlement: ChapterEntitlement | undefined, isMember: boolean, now = Date.now()): ChapterAccess {
+  if (isMember) return { state: "owned" };
+  if (!entitlement) return { state: "locked" };
+  if (!entitlement.expiresAt) return { state: "owned" };
+  return new Date(entitlement.expiresAt).getTime() > now
+    ? { state: "trial", expiresAt: entitlement.expiresAt }
+    : { state: "expired", expiresAt: entitlement.expiresAt };
+}
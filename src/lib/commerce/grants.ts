@@ -0,0 +1,57 @@
+export const MAX_GRANT_DAYS = 3650;
+
+// What an invite unlocks when claimed. durationDays null means permanent access.
+export type EntitlementGrant =
+  | { kind: "chapter"; chapterId: string; durationDays: number | null }
+  | { kind: "book"; bookId: string; durationDays: number | null }
+  | { kind: "bundle"; bundleId: string; durationDays: number | null };
+
+function trimmed(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function sanitizeDays(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.min(MAX_GRANT_DAYS, Math.round(n));
+}
+
+export function sanitizeGrant(raw: unknown): EntitlementGrant | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const durationDays = sanitizeDays(row.durationDays);
+
+  if (row.kind === "chapter") {
+    const chapterId = trimmed(row.chapterId);
+    return chapterId ? { kind: "chapter", chapterId, durationDays } : null;
+  }
+  if (row.kind === "book") {
+    const bookId = trimmed(row.bookId);
+    return bookId ? { kind: "book", bookId, durationDays } : null;
+  }
+  if (row.kind === "bundle") {
+    const bundleId = trimmed(row.bundleId);
+    return bundleId ? { kind: "bundle", bundleId, durationDays } : null;
+  }
+  return null;
+}
+
+export function grantExpiresAt(grant: EntitlementGrant, now = Date.now()) {
+  if (grant.durationDays === null) return null;
+  return new Date(now + grant.durationDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function describeGrantDuration(grant: EntitlementGrant) {
+  if (grant.durationDays === null) return "to keep";
+  return `for ${grant.durationDays} day${grant.durationDays === 1 ? "" : "s"}`;
+}
+
+// Book grants open the book from a shelf slot it is on now (see listBookSlots), or the bookcase if none.
+export function grantReaderPath(grant: EntitlementGrant, bookSlot: { pageKey: string; bookKey: string } | null = null) {
+  if (grant.kind === "chapter") return `/reader/${encodeURIComponent(grant.chapterId)}`;
+  if (grant.kind === "book") {
+    if (!bookSlot) return "/bookcase";
+    return `/reader/book/${encodeURIComponent(bookSlot.pageKey)}/${encodeURIComponent(bookSlot.bookKey)}?slot=full`;
+  }
+  return "/bundles";
+}
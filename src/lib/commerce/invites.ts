@@ -0,0 +1,262 @@
+import { randomBytes } from "crypto";
+import { supabaseService } from "@/lib/supabase/service";
+import { grantBundle, revokeBundle } from "@/lib/commerce/bundles";
+import { loadCatalogBooks } from "@/lib/bookcase/bookCatalogStore";
+import { grantExpiresAt, sanitizeGrant, type EntitlementGrant } from "@/lib/commerce/grants";
+
+export const INVITES_TABLE_NAME = "invites";
+export const GIFT_INVITE_TTL_DAYS = 90;
+export const MAX_BULK_INVITES = 500;
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Entitlement source for every claimed invite; refunds and disputes of a gift only remove rows with it.
+export const INVITE_GRANT_SOURCE = "gift";
+
+export type InviteRecord = {
+  id: string;
+  token: string;
+  email: string;
+  expiresAt: string;
+  usedAt: string | null;
+  sentAt: string | null;
+  createdAt: string | null;
+  grant: EntitlementGrant | null;
+  giftMessage: string;
+  // Set on gift invites: the purchase that paid for it.
+  purchaseId: string | null;
+  claimedBy: string | null;
+};
+
+export function inviteFromRow(raw: unknown): InviteRecord | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  if (typeof row.id !== "string" || typeof row.token !== "string") return null;
+
+  return {
+    id: row.id,
+    token: row.token,
+    email: typeof row.email === "string" ? row.email : "",
+    expiresAt: typeof row.expires_at === "string" ? row.expires_at : "",
+    usedAt: typeof row.used_at === "string" ? row.used_at : null,
+    sentAt: typeof row.sent_at === "string" ? row.sent_at : null,
+    createdAt: typeof row.created_at === "string" ? row.created_at : null,
+    grant: sanitizeGrant(row.grant_payload),
+    giftMessage: typeof row.gift_message === "string" ? row.gift_message : "",
+    purchaseId: typeof row.purchase_id === "string" ? row.purchase_id : null,
+    claimedBy: typeof row.claimed_by === "string" ? row.claimed_by : null,
+  };
+}
+
+export function newInviteToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+// Accepts pasted text or a CSV export: any commas, semicolons or whitespace separate addresses.
+export function parseEmailList(raw: string) {
+  const valid = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const part of raw.split(/[\s,;]+/)) {
+    const email = part.trim().replace(/^"|"$/g, "").toLowerCase();
+    if (!email) continue;
+    if (EMAIL_PATTERN.test(email)) valid.add(email);
+    else if (email.includes("@")) invalid.push(email);
+  }
+
+  return { emails: Array.from(valid), invalid };
+}
+
+export async function listInvites(limit = MAX_BULK_INVITES) {
+  const { data, error } = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) return { invites: [] as InviteRecord[], error: error.message };
+  const invites = (data ?? []).map(inviteFromRow).filter((invite): invite is InviteRecord => invite !== null);
+  return { invites, error: null };
+}
+
+export async function createInvites(input: {
+  emails: string[];
+  expiresAt: string;
+  grant: EntitlementGrant | null;
+  createdBy: string;
+}) {
+  const rows = input.emails.map((email) => ({
+    token: newInviteToken(),
+    email,
+    expires_at: input.expiresAt,
+    grant_payload: input.grant,
+    created_by: input.createdBy,
+  }));
+
+  const { data, error } = await supabaseService.from(INVITES_TABLE_NAME).insert(rows).select("*");
+  if (error) return { invites: [] as InviteRecord[], error: error.message };
+  const invites = (data ?? []).map(inviteFromRow).filter((invite): invite is InviteRecord => invite !== null);
+  return { invites, error: null };
+}
+
+export async function loadInviteByToken(token: string) {
+  const { data, error } = await supabaseService.from(INVITES_TABLE_NAME).select("*").eq("token", token).maybeSingle();
+  if (error) return { invite: null, error: error.message };
+  return { invite: inviteFromRow(data), error: null };
+}
+
+export async function grantLabel(grant: EntitlementGrant) {
+  if (grant.kind === "chapter") {
+    const { data } = await supabaseService
+      .from("chapters")
+      .select("episode_number, title")
+      .eq("id", grant.chapterId)
+      .maybeSingle();
+    return data ? `Episode ${data.episode_number}: ${data.title}` : "an episode";
+  }
+  if (grant.kind === "bundle") {
+    const { data } = await supabaseService.from("bundles").select("title").eq("id", grant.bundleId).maybeSingle();
+    return typeof data?.title === "string" ? data.title : "a bundle";
+  }
+
+  const { books } = await loadCatalogBooks([grant.bookId]);
+  const label = String(books.get(grant.bookId)?.label ?? "").trim();
+  return label || "a book";
+}
+
+// Never shortens access the reader already has (e.g. a gifted trial of a book they bought).
+async function keepsLongerAccess(table: "entitlements" | "book_entitlements", match: Record<string, string>, expiresAt: string | null) {
+  const { data } = await supabaseService.from(table).select("expires_at").match(match).maybeSingle();
+  if (!data) return false;
+  if (data.expires_at === null) return true;
+  return expiresAt !== null && new Date(data.expires_at).getTime() >= new Date(expiresAt).getTime();
+}
+
+export async function applyGrant(userId: string, grant: EntitlementGrant, source: string) {
+  const expiresAt = grantExpiresAt(grant);
+
+  if (grant.kind === "bundle") {
+    await grantBundle(userId, grant.bundleId, source, expiresAt);
+    return;
+  }
+
+  if (grant.kind === "chapter") {
+    const match = { user_id: userId, chapter_id: grant.chapterId };
+    if (await keepsLongerAccess("entitlements", match, expiresAt)) return;
+    const { error } = await supabaseService
+      .from("entitlements")
+      .upsert({ ...match, expires_at: expiresAt, source }, { onConflict: "user_id,chapter_id" });
+    if (error) throw new Error(`Entitlement grant failed: ${error.message}`);
+    return;
+  }
+
+  const match = { user_id: userId, book_id: grant.bookId };
+  if (await keepsLongerAccess("book_entitlements", match, expiresAt)) return;
+  const { error } = await supabaseService
+    .from("book_entitlements")
+    .upsert({ ...match, expires_at: expiresAt, source }, { onConflict: "user_id,book_id" });
+  if (error) throw new Error(`Entitlement grant failed: ${error.message}`);
+}
+
+// Undoes applyGrant: only rows granted with source go, so access the reader bought or was given otherwise stays.
+export async function revokeGrant(userId: string, grant: EntitlementGrant, source: string) {
+  if (grant.kind === "bundle") {
+    await revokeBundle(userId, grant.bundleId, source);
+    return;
+  }
+
+  const { error } =
+    grant.kind === "chapter"
+      ? await supabaseService
+          .from("entitlements")
+          .delete()
+          .match({ user_id: userId, chapter_id: grant.chapterId, source })
+      : await supabaseService
+          .from("book_entitlements")
+          .delete()
+          .match({ user_id: userId, book_id: grant.bookId, source });
+  if (error) throw new Error(`Entitlement revoke failed: ${error.message}`);
+}
+
+// For a refunded or disputed gift: an unclaimed invite is voided, and a claimed one loses what it granted.
+export async function revokeGiftInvites(purchaseId: string) {
+  const { error: voidError } = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .update({ expires_at: new Date().toISOString() })
+    .eq("purchase_id", purchaseId)
+    .is("used_at", null);
+  if (voidError) throw new Error(`Invite void failed: ${voidError.message}`);
+
+  const { data, error } = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .select("*")
+    .eq("purchase_id", purchaseId)
+    .not("used_at", "is", null);
+  if (error) throw new Error(`Invite lookup failed: ${error.message}`);
+
+  for (const invite of (data ?? []).map(inviteFromRow)) {
+    if (invite?.claimedBy && invite.grant) await revokeGrant(invite.claimedBy, invite.grant, INVITE_GRANT_SOURCE);
+  }
+}
+
+// Re-running for the same purchase returns the invite already minted for it.
+export async function createGiftInvite(input: {
+  purchaseId: string;
+  email: string;
+  grant: EntitlementGrant;
+  giftedBy: string;
+  giftMessage: string;
+}) {
+  const existing = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .select("*")
+    .eq("purchase_id", input.purchaseId)
+    .maybeSingle();
+  if (existing.data) return inviteFromRow(existing.data);
+
+  const { data, error } = await supabaseService
+    .from(INVITES_TABLE_NAME)
+    .insert({
+      token: newInviteToken(),
+      email: input.email.toLowerCase(),
+      expires_at: new Date(Date.now() + GIFT_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      grant_payload: input.grant,
+      purchase_id: input.purchaseId,
+      gifted_by: input.giftedBy,
+      gift_message: input.giftMessage || null,
+    })
+    .select("*")
+    .single();
+
+  if (error?.code === "23505") {
+    const { data: raced } = await supabaseService
+      .from(INVITES_TABLE_NAME)
+      .select("*")
+      .eq("purchase_id", input.purchaseId)
+      .maybeSingle();
+    return inviteFromRow(raced);
+  }
+  if (error) throw new Error(`Invite create failed: ${error.message}`);
+  return inviteFromRow(data);
+}
+
+// Supabase sends the email: an invite for new addresses, otherwise a magic link. Both land on /redeem.
+export async function sendInviteEmail(invite: InviteRecord) {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  if (!siteUrl) return "Missing NEXT_PUBLIC_SITE_URL";
+
+  const redirectTo = `${siteUrl}/redeem?token=${encodeURIComponent(invite.token)}`;
+  const invited = await supabaseService.auth.admin.inviteUserByEmail(invite.email, {
+    redirectTo,
+    data: { gift_message: invite.giftMessage },
+  });
+
+  if (invited.error) {
+    const otp = await supabaseService.auth.signInWithOtp({
+      email: invite.email,
+      options: { emailRedirectTo: redirectTo, shouldCreateUser: false },
+    });
+    if (otp.error) return otp.error.message;
+  }
+
+  await supabaseService.from(INVITES_TABLE_NAME).update({ sent_at: new Date().toISOString() }).eq("id", invite.id);
+  return null;
+}
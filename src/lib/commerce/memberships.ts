@@ -0,0 +1,124 @@
+import type Stripe from "stripe";
+import { supabaseService } from "@/lib/supabase/service";
+import { stripeId } from "@/lib/commerce/stripe";
+
+export const MEMBERSHIPS_TABLE_NAME = "memberships";
+
+export type MembershipPlan = "monthly" | "annual";
+
+// past_due keeps access while Stripe retries the card.
+const ACTIVE_STATUSES = new Set(["active", "trialing", "past_due"]);
+
+export type MembershipRecord = {
+  plan: MembershipPlan | null;
+  status: string;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  stripeCustomerId: string | null;
+};
+
+export function normalizePlan(value: unknown): MembershipPlan | null {
+  return value === "monthly" || value === "annual" ? value : null;
+}
+
+// Prices are created in the Stripe dashboard and referenced by id.
+export function membershipPriceId(plan: MembershipPlan) {
+  return plan === "annual"
+    ? process.env.STRIPE_MEMBERSHIP_ANNUAL_PRICE_ID || ""
+    : process.env.STRIPE_MEMBERSHIP_MONTHLY_PRICE_ID || "";
+}
+
+export function isMembershipActive(membership: MembershipRecord | null, now = Date.now()) {
+  if (!membership || !ACTIVE_STATUSES.has(membership.status)) return false;
+  if (!membership.currentPeriodEnd) return true;
+  return new Date(membership.currentPeriodEnd).getTime() > now;
+}
+
+export async function loadMembership(userId: string): Promise<MembershipRecord | null> {
+  const { data } = await supabaseService
+    .from(MEMBERSHIPS_TABLE_NAME)
+    .select("plan, status, current_period_end, cancel_at_period_end, stripe_customer_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!data) return null;
+  return {
+    plan: normalizePlan(data.plan),
+    status: typeof data.status === "string" ? data.status : "incomplete",
+    currentPeriodEnd: typeof data.current_period_end === "string" ? data.current_period_end : null,
+    cancelAtPeriodEnd: Boolean(data.cancel_at_period_end),
+    stripeCustomerId: typeof data.stripe_customer_id === "string" ? data.stripe_customer_id : null,
+  };
+}
+
+export async function hasActiveMembership(userId: string) {
+  return isMembershipActive(await loadMembership(userId));
+}
+
+// Links the Stripe customer to the reader as soon as subscription checkout finishes.
+export async function linkMembershipCustomer(session: Stripe.Checkout.Session) {
+  const userId = session.metadata?.user_id;
+  const customerId = stripeId(session.customer);
+  if (!userId || !customerId) throw new Error("Missing membership metadata");
+
+  const { error } = await supabaseService.from(MEMBERSHIPS_TABLE_NAME).upsert(
+    {
+      user_id: userId,
+      stripe_customer_id: customerId,
+      stripe_subscription_id: stripeId(session.subscription),
+      plan: normalizePlan(session.metadata?.plan),
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw new Error(`Membership update failed: ${error.message}`);
+}
+
+export async function syncSubscription(subscription: Stripe.Subscription) {
+  const customerId = stripeId(subscription.customer);
+  let userId = subscription.metadata?.user_id || "";
+
+  if (!userId && customerId) {
+    const { data } = await supabaseService
+      .from(MEMBERSHIPS_TABLE_NAME)
+      .select("user_id")
+      .eq("stripe_customer_id", customerId)
+      .maybeSingle();
+    userId = typeof data?.user_id === "string" ? data.user_id : "";
+  }
+  if (!userId) throw new Error(`No reader for subscription ${subscription.id}`);
+
+  // A late event for an old, ended subscription must not override a newer active one.
+  const { data: current } = await supabaseService
+    .from(MEMBERSHIPS_TABLE_NAME)
+    .select("stripe_subscription_id, status")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (
+    current?.stripe_subscription_id &&
+    current.stripe_subscription_id !== subscription.id &&
+    ACTIVE_STATUSES.has(current.status) &&
+    !ACTIVE_STATUSES.has(subscription.status)
+  ) {
+    return;
+  }
+
+  // Billing periods live on subscription items in current API versions.
+  const periodEnd = subscription.items.data.reduce(
+    (latest, item) => Math.max(latest, item.current_period_end || 0),
+    0
+  );
+
+  const { error } = await supabaseService.from(MEMBERSHIPS_TABLE_NAME).upsert(
+    {
+      user_id: userId,
+      stripe_customer_id: customerId,
+      stripe_subscription_id: subscription.id,
+      plan: normalizePlan(subscription.metadata?.plan),
+      status: subscription.status,
+      current_period_end: periodEnd ? new Date(periodEnd * 1000).toISOString() : null,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw new Error(`Membership update failed: ${error.message}`);
+}
@@ -0,0 +1,134 @@
+export const DEFAULT_CURRENCY = "gbp";
+export const DEFAULT_CHAPTER_PRICE_PENCE = 79;
+export const MAX_PRICE_PENCE = 100000;
+export const SUPPORTED_CURRENCIES = ["gbp", "eur", "usd"] as const;
+
+export type PricingScope = "chapter" | "book";
+
+export type PricingRule = {
+  id: string;
+  scope: PricingScope;
+  chapterId: string | null;
+  bookId: string | null;
+  amountPence: number;
+  currency: string;
+  saleAmountPence: number | null;
+  saleStartsAt: string | null;
+  saleEndsAt: string | null;
+  isFree: boolean;
+};
+
+export type PriceQuote = {
+  amountPence: number;
+  currency: string;
+  isFree: boolean;
+  onSale: boolean;
+  ruleId: string | null;
+};
+
+function clampPence(value: unknown, fallback: number) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(MAX_PRICE_PENCE, Math.max(0, Math.round(n)));
+}
+
+function optionalTimestamp(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+export function normalizeCurrency(value: unknown) {
+  const raw = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(raw) ? raw : DEFAULT_CURRENCY;
+}
+
+export function formatPrice(amountPence: number, currency: string) {
+  const code = normalizeCurrency(currency).toUpperCase();
+  try {
+    return new Intl.NumberFormat("en-GB", { style: "currency", currency: code }).format(amountPence / 100);
+  } catch {
+    return `${(amountPence / 100).toFixed(2)} ${code}`;
+  }
+}
+
+export function ruleFromRow(raw: unknown): PricingRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const scope = row.scope === "book" ? "book" : row.scope === "chapter" ? "chapter" : null;
+  if (!scope || typeof row.id !== "string") return null;
+
+  return {
+    id: row.id,
+    scope,
+    chapterId: typeof row.chapter_id === "string" ? row.chapter_id : null,
+    bookId: typeof row.book_id === "string" ? row.book_id : null,
+    amountPence: clampPence(row.amount_pence, 0),
+    currency: normalizeCurrency(row.currency),
+    saleAmountPence: row.sale_amount_pence === null ? null : clampPence(row.sale_amount_pence, 0),
+    saleStartsAt: optionalTimestamp(row.sale_starts_at),
+    saleEndsAt: optionalTimestamp(row.sale_ends_at),
+    isFree: Boolean(row.is_free),
+  };
+}
+
+export function ruleToRow(rule: Omit<PricingRule, "id">) {
+  return {
+    scope: rule.scope,
+    chapter_id: rule.scope === "chapter" ? rule.chapterId : null,
+    book_id: rule.scope === "book" ? rule.bookId : null,
+    amount_pence: rule.amountPence,
+    currency: rule.currency,
+    sale_amount_pence: rule.saleAmountPence,
+    sale_starts_at: rule.saleStartsAt,
+    sale_ends_at: rule.saleEndsAt,
+    is_free: rule.isFree,
+  };
+}
+
+export function sanitizePricingRule(raw: unknown): Omit<PricingRule, "id"> | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const scope = row.scope === "book" ? "book" : row.scope === "chapter" ? "chapter" : null;
+  if (!scope) return null;
+
+  const chapterId = typeof row.chapterId === "string" && row.chapterId.trim() ? row.chapterId.trim() : null;
+  const bookId = typeof row.bookId === "string" && row.bookId.trim() ? row.bookId.trim() : null;
+  if (scope === "book" && !bookId) return null;
+
+  const saleRaw = row.saleAmountPence;
+  const hasSale = saleRaw !== null && saleRaw !== undefined && saleRaw !== "";
+
+  return {
+    scope,
+    chapterId: scope === "chapter" ? chapterId : null,
+    bookId: scope === "book" ? bookId : null,
+    amountPence: clampPence(row.amountPence, 0),
+    currency: normalizeCurrency(row.currency),
+    saleAmountPence: hasSale ? clampPence(saleRaw, 0) : null,
+    saleStartsAt: optionalTimestamp(row.saleStartsAt),
+    saleEndsAt: optionalTimestamp(row.saleEndsAt),
+    isFree: Boolean(row.isFree),
+  };
+}
+
+export function isSaleActive(rule: PricingRule, now = Date.now()) {
+  if (rule.saleAmountPence === null) return false;
+  const starts = rule.saleStartsAt ? new Date(rule.saleStartsAt).getTime() : Number.NEGATIVE_INFINITY;
+  const ends = rule.saleEndsAt ? new Date(rule.saleEndsAt).getTime() : Number.POSITIVE_INFINITY;
+  return now >= starts && now < ends;
+}
+
+export function quoteFromRule(rule: PricingRule, now = Date.now()): PriceQuote {
+  if (rule.isFree) {
+    return { amountPence: 0, currency: rule.currency, isFree: true, onSale: false, ruleId: rule.id };
+  }
+
+  const onSale = isSaleActive(rule, now);
+  return {
+    amountPence: onSale ? (rule.saleAmountPence ?? rule.amountPence) : rule.amountPence,
+    currency: rule.currency,
+    isFree: false,
+    onSale,
+    ruleId: rule.id,
+  };
+}
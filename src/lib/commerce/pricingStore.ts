@@ -0,0 +1,93 @@
+import { supabaseService } from "@/lib/supabase/service";
+import {
+  DEFAULT_CHAPTER_PRICE_PENCE,
+  DEFAULT_CURRENCY,
+  quoteFromRule,
+  ruleFromRow,
+  type PriceQuote,
+  type PricingRule,
+} from "@/lib/commerce/pricing";
+
+export const PRICING_TABLE_NAME = "pricing_rules";
+
+const RULE_COLUMNS =
+  "id, scope, chapter_id, book_id, amount_pence, currency, sale_amount_pence, sale_starts_at, sale_ends_at, is_free";
+
+export async function listPricingRules() {
+  const { data, error } = await supabaseService
+    .from(PRICING_TABLE_NAME)
+    .select(RULE_COLUMNS)
+    .order("scope")
+    .order("updated_at", { ascending: false });
+
+  if (error) return { rules: [] as PricingRule[], error: error.message };
+
+  const rules = (data ?? []).map(ruleFromRow).filter((rule): rule is PricingRule => rule !== null);
+  return { rules, error: null };
+}
+
+async function loadChapterRule(chapterId: string | null) {
+  const query = supabaseService.from(PRICING_TABLE_NAME).select(RULE_COLUMNS).eq("scope", "chapter");
+  const { data } = await (chapterId ? query.eq("chapter_id", chapterId) : query.is("chapter_id", null)).maybeSingle();
+  return ruleFromRow(data);
+}
+
+export async function quoteChapterPrice(chapterId: string): Promise<PriceQuote> {
+  const rule = (await loadChapterRule(chapterId)) ?? (await loadChapterRule(null));
+
+  if (!rule) {
+    return {
+      amountPence: DEFAULT_CHAPTER_PRICE_PENCE,
+      currency: DEFAULT_CURRENCY,
+      isFree: false,
+      onSale: false,
+      ruleId: null,
+    };
+  }
+  return quoteFromRule(rule);
+}
+
+// One query for list pages; chapters without their own rule share the default quote.
+export async function quoteChapterPrices(chapterIds: string[]) {
+  const { data } = await supabaseService.from(PRICING_TABLE_NAME).select(RULE_COLUMNS).eq("scope", "chapter");
+  const rules = (data ?? []).map(ruleFromRow).filter((rule): rule is PricingRule => rule !== null);
+  const defaultRule = rules.find((rule) => rule.chapterId === null) ?? null;
+  const defaultQuote: PriceQuote = defaultRule
+    ? quoteFromRule(defaultRule)
+    : {
+        amountPence: DEFAULT_CHAPTER_PRICE_PENCE,
+        currency: DEFAULT_CURRENCY,
+        isFree: false,
+        onSale: false,
+        ruleId: null,
+      };
+
+  const quotes = new Map<string, PriceQuote>();
+  for (const chapterId of chapterIds) {
+    const rule = rules.find((item) => item.chapterId === chapterId);
+    quotes.set(chapterId, rule ? quoteFromRule(rule) : defaultQuote);
+  }
+  return quotes;
+}
+
+// Book rules win over the price typed into the shelf editor; with neither, the book is not for sale.
+export async function quoteBookPrice(bookId: string, shelfPricePence: number): Promise<PriceQuote | null> {
+  const { data } = await supabaseService
+    .from(PRICING_TABLE_NAME)
+    .select(RULE_COLUMNS)
+    .eq("scope", "book")
+    .eq("book_id", bookId)
+    .maybeSingle();
+
+  const rule = ruleFromRow(data);
+  if (rule) return quoteFromRule(rule);
+  if (shelfPricePence <= 0) return null;
+
+  return {
+    amountPence: shelfPricePence,
+    currency: DEFAULT_CURRENCY,
+    isFree: false,
+    onSale: false,
+    ruleId: null,
+  };
+}
@@ -0,0 +1,20 @@
+import Stripe from "stripe";
+
+let stripeClient: Stripe | null = null;
+
+export function getStripeClient() {
+  const key = process.env.STRIPE_SECRET_KEY;
+  if (!key) {
+    throw new Error("Missing STRIPE_SECRET_KEY");
+  }
+  if (!stripeClient) {
+    stripeClient = new Stripe(key, { apiVersion: "2026-01-28.clover" });
+  }
+  return stripeClient;
+}
+
+// Expandable Stripe fields arrive as either an id or the expanded object.
+export function stripeId(value: string | { id: string } | null | undefined) {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
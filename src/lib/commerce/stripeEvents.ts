@@ -0,0 +1,280 @@
+import type Stripe from "stripe";
+import { supabaseService } from "@/lib/supabase/service";
+import { stripeId } from "@/lib/commerce/stripe";
+import { grantBundle, revokeBundle } from "@/lib/commerce/bundles";
+import { sanitizeGrant } from "@/lib/commerce/grants";
+import { createGiftInvite, revokeGiftInvites, sendInviteEmail } from "@/lib/commerce/invites";
+import { linkMembershipCustomer, syncSubscription } from "@/lib/commerce/memberships";
+
+export const STRIPE_EVENTS_TABLE_NAME = "stripe_events";
+
+// A claim older than this is treated as a crashed delivery and may be retried.
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const PURCHASE_COLUMNS = "id, user_id, chapter_id, book_id, bundle_id, is_gift, status";
+
+// Purchases in these states must never be re-granted by a late or replayed event.
+const REVERSED_STATUSES = new Set(["refunded", "disputed"]);
+
+type PurchaseRow = {
+  id: string;
+  user_id: string;
+  chapter_id: string | null;
+  book_id: string | null;
+  bundle_id: string | null;
+  is_gift: boolean | null;
+  status: string;
+};
+
+function eventObjectId(event: Stripe.Event) {
+  const object = event.data.object as { id?: unknown };
+  return typeof object.id === "string" ? object.id : null;
+}
+
+async function claimEvent(event: Stripe.Event) {
+  const { error } = await supabaseService.from(STRIPE_EVENTS_TABLE_NAME).insert({
+    id: event.id,
+    type: event.type,
+    object_id: eventObjectId(event),
+  });
+  if (!error) return true;
+  if (error.code !== "23505") {
+    throw new Error(`Event ledger insert failed: ${error.message}`);
+  }
+
+  const { data: existing } = await supabaseService
+    .from(STRIPE_EVENTS_TABLE_NAME)
+    .select("status, attempts, claimed_at")
+    .eq("id", event.id)
+    .maybeSingle();
+  if (!existing || existing.status === "processed") return false;
+
+  const stale = Date.now() - new Date(existing.claimed_at).getTime() > STALE_CLAIM_MS;
+  if (existing.status === "processing" && !stale) return false;
+
+  // Matching on attempts means only one concurrent retry wins the claim.
+  const { data: claimed } = await supabaseService
+    .from(STRIPE_EVENTS_TABLE_NAME)
+    .update({
+      status: "processing",
+      attempts: existing.attempts + 1,
+      claimed_at: new Date().toISOString(),
+      error: null,
+    })
+    .eq("id", event.id)
+    .eq("attempts", existing.attempts)
+    .select("id");
+  return Boolean(claimed && claimed.length > 0);
+}
+
+async function finishEvent(eventId: string, errorMessage: string | null) {
+  await supabaseService
+    .from(STRIPE_EVENTS_TABLE_NAME)
+    .update({
+      status: errorMessage ? "failed" : "processed",
+      error: errorMessage,
+      processed_at: errorMessage ? null : new Date().toISOString(),
+    })
+    .eq("id", eventId);
+}
+
+async function grantEntitlement(userId: string, target: { chapterId?: string; bookId?: string }) {
+  const { error } =
+    target.bookId
+      ? await supabaseService.from("book_entitlements").upsert(
+          {
+            user_id: userId,
+            book_id: target.bookId,
+            expires_at: null,
+            source: "purchase",
+          },
+          { onConflict: "user_id,book_id" }
+        )
+      : await supabaseService.from("entitlements").upsert(
+          {
+            user_id: userId,
+            chapter_id: target.chapterId,
+            expires_at: null,
+            source: "purchase",
+          },
+          { onConflict: "user_id,chapter_id" }
+        );
+  if (error) throw new Error(`Entitlement grant failed: ${error.message}`);
+}
+
+// Only purchase entitlements are revoked; free and admin grants stay.
+async function revokeEntitlement(purchase: PurchaseRow) {
+  // A gift's buyer holds no access from it; the recipient loses what the invite granted, or the invite is
+  // voided if it has not been claimed yet.
+  if (purchase.is_gift) {
+    await revokeGiftInvites(purchase.id);
+    return;
+  }
+
+  if (purchase.bundle_id) {
+    await revokeBundle(purchase.user_id, purchase.bundle_id);
+    return;
+  }
+
+  const { error } =
+    purchase.book_id
+      ? await supabaseService
+          .from("book_entitlements")
+          .delete()
+          .eq("user_id", purchase.user_id)
+          .eq("book_id", purchase.book_id)
+          .eq("source", "purchase")
+      : await supabaseService
+          .from("entitlements")
+          .delete()
+          .eq("user_id", purchase.user_id)
+          .eq("chapter_id", purchase.chapter_id)
+          .eq("source", "purchase");
+  if (error) throw new Error(`Entitlement revoke failed: ${error.message}`);
+}
+
+async function completeCheckout(session: Stripe.Checkout.Session) {
+  const userId = session.metadata?.user_id;
+  const chapterId = session.metadata?.chapter_id;
+  const bundleId = session.metadata?.bundle_id;
+  const purchaseId = session.metadata?.purchase_id;
+  const paymentIntent = stripeId(session.payment_intent);
+
+  const { data: purchase } = purchaseId
+    ? await supabaseService.from("purchases").select(PURCHASE_COLUMNS).eq("id", purchaseId).maybeSingle()
+    : { data: null };
+  // Sessions opened before books were keyed on books.id carry page_key/book_key; their purchase row was backfilled.
+  const bookId = session.metadata?.book_id || (purchase as PurchaseRow | null)?.book_id || undefined;
+
+  if (!userId || (!chapterId && !bookId && !bundleId)) {
+    throw new Error("Missing metadata");
+  }
+
+  if (purchaseId) {
+    if (purchase && REVERSED_STATUSES.has(purchase.status)) return;
+
+    const { error } = await supabaseService
+      .from("purchases")
+      .update({
+        status: "paid",
+        stripe_session_id: session.id,
+        stripe_payment_intent_id: paymentIntent,
+      })
+      .eq("id", purchaseId);
+    if (error) throw new Error(`Purchase update failed: ${error.message}`);
+  }
+
+  if (session.metadata?.gift === "1") {
+    const grant = sanitizeGrant(
+      bundleId
+        ? { kind: "bundle", bundleId }
+        : bookId
+          ? { kind: "book", bookId }
+          : { kind: "chapter", chapterId }
+    );
+    const email = session.metadata?.recipient_email;
+    if (!grant || !email || !purchaseId) throw new Error("Missing gift metadata");
+
+    const invite = await createGiftInvite({
+      purchaseId,
+      email,
+      grant,
+      giftedBy: userId,
+      giftMessage: session.metadata?.gift_message ?? "",
+    });
+    // A failed email leaves sent_at empty so the invite can be re-sent by an admin.
+    if (invite && !invite.sentAt) await sendInviteEmail(invite);
+    return;
+  }
+
+  if (bundleId) {
+    await grantBundle(userId, bundleId);
+    return;
+  }
+
+  await grantEntitlement(userId, { chapterId, bookId });
+}
+
+async function failCheckout(session: Stripe.Checkout.Session) {
+  const purchaseId = session.metadata?.purchase_id;
+  if (!purchaseId) return;
+
+  const { error } = await supabaseService
+    .from("purchases")
+    .update({ status: "failed", stripe_session_id: session.id })
+    .eq("id", purchaseId)
+    .eq("status", "pending");
+  if (error) throw new Error(`Purchase update failed: ${error.message}`);
+}
+
+async function reversePayment(paymentIntentId: string | null, status: "refunded" | "disputed") {
+  if (!paymentIntentId) return;
+
+  const { data, error } = await supabaseService
+    .from("purchases")
+    .select(PURCHASE_COLUMNS)
+    .eq("stripe_payment_intent_id", paymentIntentId);
+  if (error) throw new Error(`Purchase lookup failed: ${error.message}`);
+
+  for (const purchase of (data ?? []) as PurchaseRow[]) {
+    const { error: updateError } = await supabaseService.from("purchases").update({ status }).eq("id", purchase.id);
+    if (updateError) throw new Error(`Purchase update failed: ${updateError.message}`);
+    await revokeEntitlement(purchase);
+  }
+}
+
+async function handleEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "checkout.session.completed":
+      // Subscription access follows the customer.subscription.* events below.
+      if (event.data.object.mode === "subscription") {
+        await linkMembershipCustomer(event.data.object);
+        return;
+      }
+      // Delayed payment methods finish later via async_payment_succeeded.
+      if (event.data.object.payment_status === "unpaid") return;
+      await completeCheckout(event.data.object);
+      return;
+    case "checkout.session.async_payment_succeeded":
+      await completeCheckout(event.data.object);
+      return;
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+    case "customer.subscription.paused":
+    case "customer.subscription.resumed":
+      await syncSubscription(event.data.object);
+      return;
+    case "checkout.session.expired":
+    case "checkout.session.async_payment_failed":
+      await failCheckout(event.data.object);
+      return;
+    case "charge.refunded":
+      // Partial refunds keep access.
+      if (!event.data.object.refunded) return;
+      await reversePayment(stripeId(event.data.object.payment_intent), "refunded");
+      return;
+    case "charge.dispute.created":
+      await reversePayment(stripeId(event.data.object.payment_intent), "disputed");
+      return;
+    default:
+      return;
+  }
+}
+
+// Each Stripe event id is handled at most once; failed deliveries are recorded and retried by Stripe.
+export async function processStripeEvent(event: Stripe.Event) {
+  const claimed = await claimEvent(event);
+  if (!claimed) return { duplicate: true };
+
+  try {
+    await handleEvent(event);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown event error";
+    await finishEvent(event.id, message);
+    throw err;
+  }
+
+  await finishEvent(event.id, null);
+  return { duplicate: false };
+}
@@ -0,0 +1,129 @@
+import {
+  MAX_BOOKMARKS_PER_ITEM,
+  samePosition,
+  sanitizeNamedBookmarkInput,
+  type NamedBookmark,
+  type NamedBookmarkInput,
+} from "@/lib/reader/readingRecords";
+import { readLocalRecord, readingStorageKey } from "@/lib/reader/progressSync";
+
+const BOOKMARKS_ENDPOINT = "/api/reader-bookmarks";
+const LEGACY_LABEL = "Saved bookmark";
+
+function guestListKey(itemKey: string) {
+  return `lr_reader_bookmarks_guest_${itemKey}`;
+}
+
+function readGuestBookmarks(itemKey: string): NamedBookmark[] {
+  try {
+    const raw = localStorage.getItem(guestListKey(itemKey));
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(list)) return [];
+    return list.flatMap((entry) => {
+      const row = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+      const input = sanitizeNamedBookmarkInput({ ...row, itemKey });
+      if (!input || typeof row.id !== "string") return [];
+      return [{ ...input, id: row.id, createdAt: typeof row.createdAt === "string" ? row.createdAt : "" }];
+    });
+  } catch {
+    return [];
+  }
+}
+
+function writeGuestBookmarks(itemKey: string, bookmarks: NamedBookmark[]) {
+  try {
+    if (bookmarks.length === 0) localStorage.removeItem(guestListKey(itemKey));
+    else localStorage.setItem(guestListKey(itemKey), JSON.stringify(bookmarks));
+  } catch {}
+}
+
+function newGuestBookmark(input: NamedBookmarkInput): NamedBookmark {
+  return { ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+}
+
+// Before named bookmarks, each chapter kept one bookmark under the old single-entry key.
+function readLegacyBookmarks(itemKey: string, userSegments: string[]): NamedBookmarkInput[] {
+  return userSegments.flatMap((segment) => {
+    const position = readLocalRecord(readingStorageKey("bookmark", segment, itemKey));
+    return position ? [{ itemKey, label: LEGACY_LABEL, note: "", position }] : [];
+  });
+}
+
+function clearLegacyBookmarks(itemKey: string, userSegments: string[]) {
+  for (const segment of userSegments) {
+    try {
+      localStorage.removeItem(readingStorageKey("bookmark", segment, itemKey));
+    } catch {}
+  }
+}
+
+async function postBookmark(input: NamedBookmarkInput) {
+  const response = await fetch(BOOKMARKS_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ bookmark: input }),
+  });
+  const payload = (await response.json().catch(() => ({}))) as { bookmark?: NamedBookmark; error?: string };
+  if (!response.ok || !payload.bookmark) throw new Error(payload.error || "Unable to save bookmark.");
+  return payload.bookmark;
+}
+
+// Signed-in readers keep bookmarks on their account; anything saved while signed out on this
+// device is uploaded the first time they open the same chapter or book signed in.
+export async function loadBookmarks(itemKey: string, userId: string | null) {
+  if (!userId) {
+    const guest = readGuestBookmarks(itemKey);
+    const legacy = readLegacyBookmarks(itemKey, ["guest"]).filter(
+      (item) => !guest.some((bookmark) => samePosition(bookmark.position, item.position))
+    );
+    if (legacy.length === 0) return guest;
+    const merged = [...guest, ...legacy.map(newGuestBookmark)];
+    writeGuestBookmarks(itemKey, merged);
+    clearLegacyBookmarks(itemKey, ["guest"]);
+    return merged;
+  }
+
+  const response = await fetch(`${BOOKMARKS_ENDPOINT}?item=${encodeURIComponent(itemKey)}&ts=${Date.now()}`, {
+    cache: "no-store",
+  });
+  const payload = (await response.json().catch(() => ({}))) as { bookmarks?: NamedBookmark[]; error?: string };
+  if (!response.ok) throw new Error(payload.error || "Unable to load bookmarks.");
+  const bookmarks = payload.bookmarks ?? [];
+
+  const local = [...readGuestBookmarks(itemKey), ...readLegacyBookmarks(itemKey, [userId, "guest"])];
+  for (const item of local) {
+    if (bookmarks.some((bookmark) => samePosition(bookmark.position, item.position))) continue;
+    bookmarks.push(await postBookmark(item));
+  }
+  writeGuestBookmarks(itemKey, []);
+  clearLegacyBookmarks(itemKey, [userId, "guest"]);
+  return bookmarks;
+}
+
+export async function addBookmark(input: NamedBookmarkInput, userId: string | null) {
+  if (userId) return postBookmark(input);
+
+  const bookmarks = readGuestBookmarks(input.itemKey);
+  if (bookmarks.length >= MAX_BOOKMARKS_PER_ITEM) {
+    throw new Error(`Up to ${MAX_BOOKMARKS_PER_ITEM} bookmarks are kept per chapter or book.`);
+  }
+  const bookmark = newGuestBookmark(input);
+  writeGuestBookmarks(input.itemKey, [...bookmarks, bookmark]);
+  return bookmark;
+}
+
+export async function removeBookmark(bookmark: NamedBookmark, userId: string | null) {
+  if (!userId) {
+    writeGuestBookmarks(
+      bookmark.itemKey,
+      readGuestBookmarks(bookmark.itemKey).filter((item) => item.id !== bookmark.id)
+    );
+    return;
+  }
+
+  const response = await fetch(`${BOOKMARKS_ENDPOINT}?id=${encodeURIComponent(bookmark.id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error || "Unable to delete bookmark.");
+  }
+}
@@ -0,0 +1,70 @@
+import { supabaseService } from "@/lib/supabase/service";
+import { normalizeHighlightColor, type HighlightColor } from "@/lib/reader/highlights";
+
+export const HIGHLIGHTS_TABLE_NAME = "reader_highlights";
+
+export type ModeratedClubNote = {
+  id: string;
+  itemKey: string;
+  itemLabel: string;
+  quote: string;
+  color: HighlightColor;
+  note: string;
+  authorName: string;
+  createdAt: string;
+  hiddenAt: string | null;
+};
+
+export async function loadAuthorNames(userIds: string[]) {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return new Map<string, string>();
+  const { data } = await supabaseService.from("profiles").select("id, display_name").in("id", ids);
+  return new Map(
+    (data ?? []).map((row) => [String(row.id), typeof row.display_name === "string" ? row.display_name : ""])
+  );
+}
+
+// Shelf books use "<page>-<book>-<slot>" keys; chapters use their id.
+async function loadItemLabels(itemKeys: string[]) {
+  const { data } = await supabaseService.from("chapters").select("id, episode_number, title");
+  const labels = new Map(
+    (data ?? []).map((chapter) => [String(chapter.id), `Episode ${chapter.episode_number}: ${chapter.title}`])
+  );
+  return new Map(itemKeys.map((key) => [key, labels.get(key) ?? key]));
+}
+
+export async function listSharedNotesForModeration(limit = 200) {
+  const { data, error } = await supabaseService
+    .from(HIGHLIGHTS_TABLE_NAME)
+    .select("id, user_id, item_key, quote, color, note, created_at, hidden_at")
+    .eq("shared", true)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) return { notes: [] as ModeratedClubNote[], error: error.message };
+
+  const rows = data ?? [];
+  const names = await loadAuthorNames(rows.map((row) => String(row.user_id)));
+  const labels = await loadItemLabels(rows.map((row) => String(row.item_key)));
+  const notes: ModeratedClubNote[] = rows.map((row) => ({
+    id: String(row.id),
+    itemKey: String(row.item_key),
+    itemLabel: labels.get(String(row.item_key)) ?? String(row.item_key),
+    quote: typeof row.quote === "string" ? row.quote : "",
+    color: normalizeHighlightColor(row.color),
+    note: typeof row.note === "string" ? row.note : "",
+    authorName: names.get(String(row.user_id)) || "Club member",
+    createdAt: typeof row.created_at === "string" ? row.created_at : "",
+    hiddenAt: typeof row.hidden_at === "string" ? row.hidden_at : null,
+  }));
+  return { notes, error: null };
+}
+
+export async function setClubNoteHidden(id: string, hidden: boolean, adminId: string) {
+  const { data, error } = await supabaseService
+    .from(HIGHLIGHTS_TABLE_NAME)
+    .update(hidden ? { hidden_at: new Date().toISOString(), hidden_by: adminId } : { hidden_at: null, hidden_by: null })
+    .eq("id", id)
+    .select("id");
+  if (error) throw new Error(`Save failed: ${error.message}`);
+  return (data ?? []).length > 0;
+}
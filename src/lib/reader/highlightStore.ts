@@ -0,0 +1,62 @@
+import type { ClubNote, HighlightInput, HighlightUpdate, ReaderHighlight } from "@/lib/reader/highlights";
+
+const HIGHLIGHTS_ENDPOINT = "/api/reader-highlights";
+const CLUB_NOTES_ENDPOINT = "/api/club-notes";
+
+async function readJson<T>(response: Response, fallbackError: string) {
+  const payload = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) throw new Error(payload.error || fallbackError);
+  return payload;
+}
+
+export async function loadHighlights(itemKey: string) {
+  const response = await fetch(`${HIGHLIGHTS_ENDPOINT}?item=${encodeURIComponent(itemKey)}&ts=${Date.now()}`, {
+    cache: "no-store",
+  });
+  const payload = await readJson<{ highlights?: ReaderHighlight[] }>(response, "Unable to load highlights.");
+  return payload.highlights ?? [];
+}
+
+async function postHighlight(highlight: HighlightInput | HighlightUpdate) {
+  const response = await fetch(HIGHLIGHTS_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ highlight }),
+  });
+  const payload = await readJson<{ highlight?: ReaderHighlight }>(response, "Unable to save highlight.");
+  if (!payload.highlight) throw new Error("Unable to save highlight.");
+  return payload.highlight;
+}
+
+export function createHighlight(input: HighlightInput) {
+  return postHighlight(input);
+}
+
+export function updateHighlight(update: HighlightUpdate) {
+  return postHighlight(update);
+}
+
+export async function deleteHighlight(id: string) {
+  const response = await fetch(`${HIGHLIGHTS_ENDPOINT}?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+  await readJson(response, "Unable to delete highlight.");
+}
+
+export async function loadClubNotes(itemKey: string) {
+  const response = await fetch(`${CLUB_NOTES_ENDPOINT}?item=${encodeURIComponent(itemKey)}&ts=${Date.now()}`, {
+    cache: "no-store",
+  });
+  const payload = await readJson<{ notes?: ClubNote[]; canModerate?: boolean }>(
+    response,
+    "Unable to load club notes."
+  );
+  return { notes: payload.notes ?? [], canModerate: payload.canModerate === true };
+}
+
+export async function hideClubNote(id: string) {
+  const response = await fetch(`${CLUB_NOTES_ENDPOINT}/moderation`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id, hidden: true }),
+  });
+  await readJson(response, "Unable to hide club note.");
+}
@@ -0,0 +1,92 @@
+// Text highlights are anchored by character offsets into the rendered article text; EPUB
+// highlights by CFI range. The quote is kept so a digest still reads well if text changes.
+export type HighlightAnchor = { type: "text"; start: number; end: number } | { type: "epub"; cfiRange: string };
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { label: string; fill: string }> = {
+  yellow: { label: "Yellow", fill: "#f6e05e" },
+  green: { label: "Green", fill: "#9ae6b4" },
+  blue: { label: "Blue", fill: "#90cdf4" },
+  pink: { label: "Pink", fill: "#fbb6ce" },
+};
+
+export type ReaderHighlight = {
+  id: string;
+  itemKey: string;
+  anchor: HighlightAnchor;
+  quote: string;
+  color: HighlightColor;
+  note: string;
+  shared: boolean;
+  createdAt: string;
+};
+
+export type HighlightInput = Pick<ReaderHighlight, "itemKey" | "anchor" | "quote" | "color" | "note" | "shared">;
+
+export type HighlightUpdate = Pick<ReaderHighlight, "id" | "color" | "note" | "shared">;
+
+// Another member's shared highlight, as shown in the club notes layer.
+export type ClubNote = Pick<ReaderHighlight, "id" | "anchor" | "quote" | "color" | "note" | "createdAt"> & {
+  authorName: string;
+};
+
+export const MAX_HIGHLIGHT_QUOTE_LENGTH = 4000;
+export const MAX_HIGHLIGHT_NOTE_LENGTH = 2000;
+const MAX_ITEM_KEY_LENGTH = 300;
+const MAX_CFI_LENGTH = 2000;
+
+export function normalizeHighlightColor(value: unknown): HighlightColor {
+  return typeof value === "string" && value in HIGHLIGHT_COLORS ? (value as HighlightColor) : "yellow";
+}
+
+export function sanitizeHighlightAnchor(raw: unknown): HighlightAnchor | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (row.type === "text") {
+    const start = Math.round(Number(row.start));
+    const end = Math.round(Number(row.end));
+    return Number.isFinite(start) && Number.isFinite(end) && start >= 0 && end > start
+      ? { type: "text", start, end }
+      : null;
+  }
+  if (row.type === "epub" && typeof row.cfiRange === "string" && row.cfiRange && row.cfiRange.length <= MAX_CFI_LENGTH) {
+    return { type: "epub", cfiRange: row.cfiRange };
+  }
+  return null;
+}
+
+export function sanitizeHighlightInput(raw: unknown): HighlightInput | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const itemKey = typeof row.itemKey === "string" ? row.itemKey.trim() : "";
+  const anchor = sanitizeHighlightAnchor(row.anchor);
+  const quote = typeof row.quote === "string" ? row.quote.trim().slice(0, MAX_HIGHLIGHT_QUOTE_LENGTH) : "";
+  if (!itemKey || itemKey.length > MAX_ITEM_KEY_LENGTH || !anchor || !quote) return null;
+
+  return {
+    itemKey,
+    anchor,
+    quote,
+    color: normalizeHighlightColor(row.color),
+    note: typeof row.note === "string" ? row.note.trim().slice(0, MAX_HIGHLIGHT_NOTE_LENGTH) : "",
+    shared: row.shared === true,
+  };
+}
+
+// Text highlights in reading order first; EPUB CFIs have no cheap ordering, so keep save order.
+export function sortHighlights<T extends Pick<ReaderHighlight, "anchor" | "createdAt">>(highlights: T[]) {
+  return [...highlights].sort((a, b) => {
+    if (a.anchor.type === "text" && b.anchor.type === "text") return a.anchor.start - b.anchor.start;
+    return a.createdAt.localeCompare(b.createdAt);
+  });
+}
+
+export function highlightsToMarkdown(title: string, highlights: ReaderHighlight[]) {
+  const lines = [`# ${title || "Highlights"}`, ""];
+  for (const highlight of sortHighlights(highlights)) {
+    lines.push(...highlight.quote.split(/\r?\n/).map((line) => `> ${line}`));
+    if (highlight.note) lines.push("", highlight.note);
+    lines.push("");
+  }
+  if (highlights.length === 0) lines.push("_No highlights yet._", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,282 @@
+import { readerMediaPublicUrl } from "@/lib/bookcase/readerMedia";
+
+// A small Markdown dialect for chapters and shelf sample/info text. It parses to a tree that
+// MarkdownContent renders as React elements, so raw HTML in the source is only ever shown as
+// text, and links and images are limited to safe URLs.
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: MdInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "image"; src: string; alt: string; title: string }
+  | { type: "footnoteRef"; index: number }
+  | { type: "break" };
+
+export type MdBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: MdInline[] }
+  | { type: "paragraph"; children: MdInline[] }
+  | { type: "figure"; image: Extract<MdInline, { type: "image" }> }
+  | { type: "blockquote"; children: MdBlock[] }
+  | { type: "list"; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: "code"; text: string }
+  | { type: "sceneBreak" };
+
+export type MdFootnote = { index: number; children: MdInline[] };
+
+export type MdDocument = { blocks: MdBlock[]; footnotes: MdFootnote[] };
+
+type ParseContext = {
+  definitions: Map<string, string>;
+  order: Map<string, number>;
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SCENE_BREAK = /^\s*(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,}|(?:~\s*){3,}|⁂)\s*$/;
+const FENCE = /^\s*```/;
+const QUOTE = /^\s*>/;
+const LIST_ITEM = /^(\s*)(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:\s*(.*)$/;
+const ESCAPABLE = "\\`*_{}[]()#+-.!~>|";
+
+export function safeLinkHref(raw: string) {
+  const href = raw.trim();
+  if (/^(https?:|mailto:)/i.test(href)) return href;
+  if (href.startsWith("#") || (href.startsWith("/") && !href.startsWith("//"))) return href;
+  return null;
+}
+
+// Images must come from the reader media bucket: either a full public URL or a bucket path.
+export function safeImageSrc(raw: string) {
+  const src = raw.trim();
+  const bucketBase = readerMediaPublicUrl("");
+  if (/^https:\/\//i.test(src)) return src.startsWith(bucketBase) ? src : null;
+  if (!src || /^[a-z][a-z0-9+.-]*:/i.test(src) || src.startsWith("/") || src.split("/").includes("..")) return null;
+  return readerMediaPublicUrl(src);
+}
+
+function startsBlock(line: string) {
+  return HEADING.test(line) || SCENE_BREAK.test(line) || FENCE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function findClosing(text: string, delimiter: string, from: number) {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1 && text[index - 1] === "\\") index = text.indexOf(delimiter, index + 1);
+  return index;
+}
+
+function parseInline(text: string, ctx: ParseContext): MdInline[] {
+  const out: MdInline[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) out.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      flush();
+      out.push({ type: "break" });
+      i += 1;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        out.push({ type: "code", text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const image = /^!\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+"([^"]*)")?\s*\)/.exec(rest);
+    if (image) {
+      const src = safeImageSrc(image[2]);
+      if (src) {
+        flush();
+        out.push({ type: "image", src, alt: image[1], title: image[3] ?? "" });
+      } else {
+        buffer += image[1];
+      }
+      i += image[0].length;
+      continue;
+    }
+
+    const footnote = /^\[\^([^\]\s]+)\]/.exec(rest);
+    if (footnote && ctx.definitions.has(footnote[1])) {
+      flush();
+      if (!ctx.order.has(footnote[1])) ctx.order.set(footnote[1], ctx.order.size + 1);
+      out.push({ type: "footnoteRef", index: ctx.order.get(footnote[1]) ?? 0 });
+      i += footnote[0].length;
+      continue;
+    }
+
+    const link = /^\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*([^\s)]+)(?:\s+"[^"]*")?\s*\)/.exec(rest);
+    if (link) {
+      flush();
+      const href = safeLinkHref(link[2]);
+      const children = parseInline(link[1], ctx);
+      if (href) out.push({ type: "link", href, children });
+      else out.push(...children);
+      i += link[0].length;
+      continue;
+    }
+
+    const pair = rest.startsWith("**") || rest.startsWith("__") ? rest.slice(0, 2) : rest.startsWith("~~") ? "~~" : "";
+    if (pair) {
+      const end = findClosing(text, pair, i + 2);
+      if (end > i + 2) {
+        flush();
+        out.push({ type: pair === "~~" ? "del" : "strong", children: parseInline(text.slice(i + 2, end), ctx) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // "_" only opens emphasis at a word start, so snake_case names stay as written.
+    if ((ch === "*" || (ch === "_" && !/\w/.test(text[i - 1] ?? ""))) && text[i + 1] && text[i + 1] !== " ") {
+      const end = findClosing(text, ch, i + 1);
+      if (end > i + 1 && (ch === "*" || !/\w/.test(text[end + 1] ?? ""))) {
+        flush();
+        out.push({ type: "em", children: parseInline(text.slice(i + 1, end), ctx) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i += 1;
+  }
+
+  flush();
+  return out;
+}
+
+function parseBlocks(lines: string[], ctx: ParseContext): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      i += 1;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i += 1;
+      blocks.push({ type: "code", text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: "heading", level, children: parseInline(heading[2], ctx) });
+      i += 1;
+      continue;
+    }
+
+    if (SCENE_BREAK.test(line)) {
+      blocks.push({ type: "sceneBreak" });
+      i += 1;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(/^\s*>\s?/, ""));
+      blocks.push({ type: "blockquote", children: parseBlocks(body, ctx) });
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = Boolean(first[3]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && Boolean(item[3]) === ordered && item[1].length <= first[1].length) {
+          items.push([item[4]]);
+          i += 1;
+          continue;
+        }
+        // Indented lines continue the current item; a blank line only ends the list if nothing follows.
+        if (lines[i].trim() && /^\s{2,}/.test(lines[i]) && items.length > 0) {
+          items[items.length - 1].push(lines[i].replace(/^\s{2,4}/, ""));
+          i += 1;
+          continue;
+        }
+        if (!lines[i].trim() && i + 1 < lines.length && /^\s{2,}\S/.test(lines[i + 1]) && items.length > 0) {
+          items[items.length - 1].push("");
+          i += 1;
+          continue;
+        }
+        break;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? Number(first[3]) : 1,
+        items: items.map((item) => parseBlocks(item, ctx)),
+      });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines[i]))) {
+      body.push(lines[i].trim());
+      i += 1;
+    }
+    const children = parseInline(body.join("\n"), ctx);
+    if (children.length === 1 && children[0].type === "image") {
+      blocks.push({ type: "figure", image: children[0] });
+    } else {
+      blocks.push({ type: "paragraph", children });
+    }
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(source: string): MdDocument {
+  const ctx: ParseContext = { definitions: new Map(), order: new Map() };
+  const lines: string[] = [];
+  const raw = source.replace(/\r\n?/g, "\n").split("\n");
+
+  // Footnote definitions ("[^id]: text", continued by indented lines) are lifted out first.
+  for (let i = 0; i < raw.length; i += 1) {
+    const definition = FOOTNOTE_DEFINITION.exec(raw[i]);
+    if (!definition) {
+      lines.push(raw[i]);
+      continue;
+    }
+    const body = [definition[2]];
+    while (i + 1 < raw.length && /^\s{2,}\S/.test(raw[i + 1])) body.push(raw[++i].trim());
+    ctx.definitions.set(definition[1], body.join("\n"));
+  }
+
+  const blocks = parseBlocks(lines, ctx);
+  const footnotes = Array.from(ctx.order.entries()).map(([id, index]) => ({
+    index,
+    children: parseInline(ctx.definitions.get(id) ?? "", { definitions: new Map(), order: new Map() }),
+  }));
+
+  return { blocks, footnotes };
+}
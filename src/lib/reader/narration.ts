@@ -0,0 +1,87 @@
+import { readerMediaPublicUrl } from "@/lib/bookcase/readerMedia";
+import { speechSegments } from "@/lib/reader/speech";
+
+// A narration timing map lists sentence cues in reading order. Each cue names its sentence by
+// text (matched in order against the rendered chapter) or by sentence number, SMIL-style:
+//   [{ "begin": "0:00.0", "end": "0:04.2", "text": "It was a bright cold day in April." }, ...]
+// Times are seconds or clock values ("1:02.5", "00:01:02.5", "62.5s").
+export type NarrationCue = { begin: number; end: number; text: string; sentence: number | null };
+
+// A cue located in the rendered text, as offsets into the article's textContent.
+export type NarrationSpan = { begin: number; end: number; start: number; stop: number };
+
+export const MAX_NARRATION_CUES = 5000;
+export const NARRATION_HIGHLIGHT = "reader-narration";
+
+export function parseClock(value: unknown) {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== "string") return null;
+  const text = value.trim().replace(/s$/i, "");
+  if (!/^\d+(?::\d{1,2}){0,2}(?:\.\d+)?$/.test(text)) return null;
+  return text.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function sanitizeNarrationTimings(raw: unknown): NarrationCue[] {
+  const list = Array.isArray(raw) ? raw : [];
+  const cues: NarrationCue[] = [];
+
+  for (const item of list.slice(0, MAX_NARRATION_CUES)) {
+    const row = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const begin = parseClock(row.begin ?? row.clipBegin);
+    const end = parseClock(row.end ?? row.clipEnd);
+    if (begin === null || end === null || end <= begin) continue;
+    const text = typeof row.text === "string" ? row.text.trim() : "";
+    const sentence = Number.isInteger(row.sentence) && Number(row.sentence) >= 0 ? Number(row.sentence) : null;
+    if (!text && sentence === null) continue;
+    cues.push({ begin, end, text, sentence });
+  }
+
+  return cues.sort((a, b) => a.begin - b.begin);
+}
+
+export function resolveNarrationUrl(value: unknown) {
+  const url = typeof value === "string" ? value.trim() : "";
+  if (!url) return "";
+  return /^https?:\/\//i.test(url) ? url : readerMediaPublicUrl(url);
+}
+
+function escapePattern(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Text cues are searched forward from the previous match, tolerating whitespace differences
+// between the timing file and the rendered Markdown. Cues that cannot be found are dropped.
+export function locateNarrationCues(root: HTMLElement, cues: NarrationCue[]): NarrationSpan[] {
+  const fullText = root.textContent ?? "";
+  const sentences = cues.some((cue) => !cue.text) ? speechSegments(root) : [];
+  const spans: NarrationSpan[] = [];
+  let cursor = 0;
+
+  for (const cue of cues) {
+    if (!cue.text) {
+      const sentence = cue.sentence === null ? undefined : sentences[cue.sentence];
+      if (sentence) spans.push({ begin: cue.begin, end: cue.end, start: sentence.start, stop: sentence.end });
+      continue;
+    }
+    const pattern = new RegExp(cue.text.split(/\s+/).map(escapePattern).join("\\s+"), "g");
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(fullText);
+    if (!match) continue;
+    cursor = match.index + match[0].length;
+    spans.push({ begin: cue.begin, end: cue.end, start: match.index, stop: cursor });
+  }
+
+  return spans;
+}
+
+export function activeNarrationSpan(spans: NarrationSpan[], time: number) {
+  let low = 0;
+  let high = spans.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (spans[mid].begin > time) high = mid - 1;
+    else if (spans[mid].end <= time) low = mid + 1;
+    else return mid;
+  }
+  return -1;
+}
@@ -0,0 +1,89 @@
+import {
+  MAX_SYNC_RECORDS,
+  newerRecord,
+  sanitizeBookmarkRecord,
+  sanitizeSyncedRecords,
+  type BookmarkRecord,
+  type ReadingRecordKind,
+  type SyncedReadingRecord,
+} from "@/lib/reader/readingRecords";
+
+const SYNC_ENDPOINT = "/api/reading-progress";
+
+export function readingStorageKey(kind: ReadingRecordKind, userSegment: string, itemKey: string) {
+  return `lr_reader_${kind}_${userSegment}_${itemKey}`;
+}
+
+export function readLocalRecord(storageKey: string): BookmarkRecord | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? sanitizeBookmarkRecord(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchRemoteRecords(itemKey: string) {
+  const response = await fetch(`${SYNC_ENDPOINT}?item=${encodeURIComponent(itemKey)}&ts=${Date.now()}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) return [];
+  const payload = (await response.json()) as { records?: unknown };
+  return sanitizeSyncedRecords(payload.records);
+}
+
+// keepalive lets the last write go out while the page is being closed.
+export async function pushRecords(records: SyncedReadingRecord[], keepalive = false) {
+  if (records.length === 0) return [];
+  const response = await fetch(SYNC_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ records }),
+    keepalive,
+  });
+  if (!response.ok) throw new Error("Unable to sync reading progress.");
+  const payload = (await response.json()) as { records?: unknown };
+  return sanitizeSyncedRecords(payload.records);
+}
+
+function collectLocalRecords(kind: ReadingRecordKind, userSegment: string) {
+  const prefix = `lr_reader_${kind}_${userSegment}_`;
+  const found: SyncedReadingRecord[] = [];
+  for (let index = 0; index < localStorage.length; index += 1) {
+    const key = localStorage.key(index);
+    if (!key?.startsWith(prefix)) continue;
+    const record = readLocalRecord(key);
+    if (record) found.push({ itemKey: key.slice(prefix.length), kind, record });
+  }
+  return found;
+}
+
+// Runs once per account per device: uploads positions saved before sync existed, including
+// anything read while signed out, which is also copied under the account's own keys.
+// Old single bookmarks are folded into named bookmarks by bookmarkStore instead.
+export async function migrateLocalRecords(userId: string) {
+  const flagKey = `lr_reader_synced_${userId}`;
+  try {
+    if (localStorage.getItem(flagKey)) return;
+  } catch {
+    return;
+  }
+
+  const records = collectLocalRecords("progress", userId);
+  for (const guest of collectLocalRecords("progress", "guest")) {
+    const userKey = readingStorageKey("progress", userId, guest.itemKey);
+    if (newerRecord(readLocalRecord(userKey), guest.record) === guest.record) {
+      try {
+        localStorage.setItem(userKey, JSON.stringify(guest.record));
+      } catch {}
+    }
+    records.push(guest);
+  }
+
+  try {
+    for (let start = 0; start < records.length; start += MAX_SYNC_RECORDS) {
+      await pushRecords(records.slice(start, start + MAX_SYNC_RECORDS));
+    }
+    localStorage.setItem(flagKey, String(Date.now()));
+  } catch {}
+}
@@ -0,0 +1,98 @@
+// "page" positions come from the paginated text layout: a page index out of the page count at the time.
+export type BookmarkRecord =
+  | { type: "scroll"; y: number; at: number }
+  | { type: "page"; page: number; pages: number; at: number }
+  | { type: "epub"; cfi: string; at: number };
+
+export type ReadingRecordKind = "progress" | "bookmark";
+
+export type SyncedReadingRecord = {
+  itemKey: string;
+  kind: ReadingRecordKind;
+  record: BookmarkRecord;
+};
+
+export const MAX_SYNC_RECORDS = 500;
+const MAX_ITEM_KEY_LENGTH = 300;
+const MAX_CFI_LENGTH = 2000;
+
+export function sanitizeBookmarkRecord(raw: unknown): BookmarkRecord | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const at = Number(row.at);
+  if (!Number.isFinite(at) || at <= 0) return null;
+
+  if (row.type === "scroll") {
+    const y = Number(row.y);
+    return Number.isFinite(y) ? { type: "scroll", y: Math.max(0, Math.round(y)), at: Math.round(at) } : null;
+  }
+  if (row.type === "page") {
+    const page = Math.round(Number(row.page));
+    const pages = Math.round(Number(row.pages));
+    return Number.isFinite(page) && Number.isFinite(pages) && page >= 0 && pages > page
+      ? { type: "page", page, pages, at: Math.round(at) }
+      : null;
+  }
+  if (row.type === "epub" && typeof row.cfi === "string" && row.cfi && row.cfi.length <= MAX_CFI_LENGTH) {
+    return { type: "epub", cfi: row.cfi, at: Math.round(at) };
+  }
+  return null;
+}
+
+// Drops malformed entries and keeps only the newest record per item and kind.
+export function sanitizeSyncedRecords(raw: unknown): SyncedReadingRecord[] {
+  const list = Array.isArray(raw) ? raw.slice(0, MAX_SYNC_RECORDS) : [];
+  const newest = new Map<string, SyncedReadingRecord>();
+
+  for (const item of list) {
+    const row = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const itemKey = typeof row.itemKey === "string" ? row.itemKey.trim() : "";
+    const kind = row.kind === "progress" || row.kind === "bookmark" ? row.kind : null;
+    const record = sanitizeBookmarkRecord(row.record);
+    if (!itemKey || itemKey.length > MAX_ITEM_KEY_LENGTH || !kind || !record) continue;
+
+    const mapKey = `${kind}:${itemKey}`;
+    const current = newest.get(mapKey);
+    if (!current || record.at > current.record.at) newest.set(mapKey, { itemKey, kind, record });
+  }
+
+  return Array.from(newest.values());
+}
+
+export function newerRecord(a: BookmarkRecord | null, b: BookmarkRecord | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return b.at > a.at ? b : a;
+}
+
+export function samePosition(a: BookmarkRecord, b: BookmarkRecord) {
+  if (a.type === "scroll" && b.type === "scroll") return a.y === b.y;
+  if (a.type === "page" && b.type === "page") return a.page === b.page && a.pages === b.pages;
+  if (a.type === "epub" && b.type === "epub") return a.cfi === b.cfi;
+  return false;
+}
+
+export type NamedBookmark = {
+  id: string;
+  itemKey: string;
+  label: string;
+  note: string;
+  position: BookmarkRecord;
+  createdAt: string;
+};
+
+export type NamedBookmarkInput = Pick<NamedBookmark, "itemKey" | "label" | "note" | "position">;
+
+export const MAX_BOOKMARKS_PER_ITEM = 200;
+export const MAX_BOOKMARK_LABEL_LENGTH = 80;
+export const MAX_BOOKMARK_NOTE_LENGTH = 1000;
+
+export function sanitizeNamedBookmarkInput(raw: unknown): NamedBookmarkInput | null {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const itemKey = typeof row.itemKey === "string" ? row.itemKey.trim() : "";
+  const position = sanitizeBookmarkRecord(row.position);
+  if (!itemKey || itemKey.length > MAX_ITEM_KEY_LENGTH || !position) return null;
+
+  const label = typeof row.label === "string" ? row.label.trim().slice(0, MAX_BOOKMARK_LABEL_LENGTH) : "";
+  const note = typeof row.note === "string" ? row.note.trim().slice(0, MAX_BOOKMARK_NOTE_LENGTH) : "";
+  return { itemKey, label: label || "Bookmark", note, position };
+}
@@ -0,0 +1,68 @@
+// In-reader search. Hits carry a little context either side of the match for the results list,
+// and a target the reader can jump to.
+export type SearchTarget = { type: "text"; start: number; end: number } | { type: "epub"; cfi: string };
+
+export type SearchHit = {
+  id: string;
+  before: string;
+  match: string;
+  after: string;
+  target: SearchTarget;
+};
+
+export const MAX_SEARCH_HITS = 200;
+export const MIN_SEARCH_LENGTH = 2;
+const CONTEXT_CHARS = 48;
+
+function escapePattern(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Case-insensitive, and any run of spaces in the query matches any run of whitespace.
+export function searchPattern(query: string) {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.join(" ").length < MIN_SEARCH_LENGTH) return null;
+  return new RegExp(words.map(escapePattern).join("\\s+"), "giu");
+}
+
+function squash(text: string) {
+  return text.replace(/\s+/g, " ");
+}
+
+export function findTextHits(text: string, query: string, limit = MAX_SEARCH_HITS): SearchHit[] {
+  const pattern = searchPattern(query);
+  if (!pattern) return [];
+  const hits: SearchHit[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const before = squash(text.slice(Math.max(0, start - CONTEXT_CHARS), start)).trimStart();
+    const after = squash(text.slice(end, end + CONTEXT_CHARS)).trimEnd();
+    hits.push({
+      id: `text-${start}`,
+      before: start > CONTEXT_CHARS ? `...${before}` : before,
+      match: squash(match[0]),
+      after: end + CONTEXT_CHARS < text.length ? `${after}...` : after,
+      target: { type: "text", start, end },
+    });
+    if (hits.length >= limit) break;
+  }
+
+  return hits;
+}
+
+// epub.js returns its own excerpt around each match; split it so the match can be marked.
+export function epubSearchHit(cfi: string, excerpt: string, query: string): SearchHit {
+  const text = squash(excerpt).trim();
+  const pattern = searchPattern(query);
+  const match = pattern ? pattern.exec(text) : null;
+  if (!match) return { id: `epub-${cfi}`, before: text, match: "", after: "", target: { type: "epub", cfi } };
+  return {
+    id: `epub-${cfi}`,
+    before: text.slice(0, match.index),
+    match: match[0],
+    after: text.slice(match.index + match[0].length),
+    target: { type: "epub", cfi },
+  };
+}
@@ -0,0 +1,87 @@
+import { offsetsFromRange } from "@/lib/reader/textRanges";
+
+// Read-aloud works sentence by sentence: each segment is a span of the root's textContent, so
+// it maps back to a DOM range with rangeFromOffsets for highlighting and page turns.
+export type SpeechSegment = { start: number; end: number; text: string };
+
+export const SPEECH_RATE_MIN = 0.6;
+export const SPEECH_RATE_MAX = 1.6;
+export const DEFAULT_SPEECH_RATE = 1;
+
+export const SPEECH_SENTENCE_HIGHLIGHT = "reader-tts-sentence";
+export const SPEECH_WORD_HIGHLIGHT = "reader-tts-word";
+
+// EPUB sections render in their own iframe document, which needs its own ::highlight rules.
+const EPUB_SPEECH_STYLE_ID = "reader-tts-style";
+const EPUB_SPEECH_CSS = `::highlight(${SPEECH_SENTENCE_HIGHLIGHT}) { background-color: rgba(246, 173, 85, 0.3); }
+::highlight(${SPEECH_WORD_HIGHLIGHT}) { background-color: rgba(246, 173, 85, 0.65); }`;
+
+const BLOCK_SELECTOR = "p, li, h1, h2, h3, h4, h5, h6, figcaption, pre, td, th, div";
+const SENTENCE_FALLBACK = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g;
+
+export function normalizeSpeechRate(value: unknown) {
+  const rate = Number(value);
+  if (!Number.isFinite(rate)) return DEFAULT_SPEECH_RATE;
+  return Math.round(Math.max(SPEECH_RATE_MIN, Math.min(SPEECH_RATE_MAX, rate)) * 10) / 10;
+}
+
+export function speechSupported() {
+  return typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+}
+
+function sentenceSpans(text: string) {
+  const spans: { start: number; end: number }[] = [];
+  if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+    for (const part of new Intl.Segmenter(undefined, { granularity: "sentence" }).segment(text)) {
+      spans.push({ start: part.index, end: part.index + part.segment.length });
+    }
+    return spans;
+  }
+  for (const match of text.matchAll(SENTENCE_FALLBACK)) {
+    spans.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+  }
+  return spans;
+}
+
+// Splits per leaf block first, because textContent runs paragraphs together without a space.
+export function speechSegments(root: HTMLElement): SpeechSegment[] {
+  const doc = root.ownerDocument;
+  const leaves = Array.from(root.querySelectorAll<HTMLElement>(BLOCK_SELECTOR)).filter(
+    (block) => !block.querySelector(BLOCK_SELECTOR)
+  );
+  const segments: SpeechSegment[] = [];
+
+  for (const block of leaves.length > 0 ? leaves : [root]) {
+    const range = doc.createRange();
+    range.selectNodeContents(block);
+    const offsets = block === root ? { start: 0, end: range.toString().length } : offsetsFromRange(root, range);
+    if (!offsets) continue;
+    const text = range.toString();
+
+    for (const span of sentenceSpans(text)) {
+      const raw = text.slice(span.start, span.end);
+      const lead = raw.length - raw.trimStart().length;
+      const sentence = raw.trim();
+      if (!/[\p{L}\p{N}]/u.test(sentence)) continue;
+      const start = offsets.start + span.start + lead;
+      segments.push({ start, end: start + sentence.length, text: sentence });
+    }
+  }
+
+  return segments;
+}
+
+// Word boundary events give a start index only on some engines; the word runs to the next space.
+export function wordSpanAt(text: string, charIndex: number, charLength?: number) {
+  if (charIndex < 0 || charIndex >= text.length) return null;
+  const length = charLength && charLength > 0 ? charLength : (/^\S+/.exec(text.slice(charIndex))?.[0].length ?? 0);
+  return length > 0 ? { start: charIndex, end: charIndex + length } : null;
+}
+
+export function ensureEpubSpeechStyles(doc: Document) {
+  if (doc.getElementById(EPUB_SPEECH_STYLE_ID)) return;
+  const style = doc.createElement("style");
+  style.id = EPUB_SPEECH_STYLE_ID;
+  style.textContent = EPUB_SPEECH_CSS;
+  doc.head?.appendChild(style);
+}
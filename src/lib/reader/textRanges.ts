@@ -0,0 +1,60 @@
+// Maps between DOM ranges and character offsets into an element's textContent, so anchors
+// survive re-renders that rebuild the text nodes. Roots may live in an EPUB iframe document.
+
+function textNodes(root: Node) {
+  const nodes: Text[] = [];
+  const walker = (root.ownerDocument ?? document).createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) nodes.push(node as Text);
+  return nodes;
+}
+
+export function startOffsetOf(root: Node, range: Range) {
+  if (!root.contains(range.startContainer)) return null;
+
+  const before = (root.ownerDocument ?? document).createRange();
+  before.selectNodeContents(root);
+  before.setEnd(range.startContainer, range.startOffset);
+  return before.toString().length;
+}
+
+export function offsetsFromRange(root: Node, range: Range) {
+  if (!root.contains(range.endContainer)) return null;
+  const start = startOffsetOf(root, range);
+  if (start === null) return null;
+  const end = start + range.toString().length;
+  return end > start ? { start, end } : null;
+}
+
+export function rangeFromOffsets(root: Node, start: number, end: number) {
+  const range = (root.ownerDocument ?? document).createRange();
+  let seen = 0;
+  let startSet = false;
+
+  for (const node of textNodes(root)) {
+    const length = node.data.length;
+    if (!startSet && start <= seen + length) {
+      range.setStart(node, start - seen);
+      startSet = true;
+    }
+    if (startSet && end <= seen + length) {
+      range.setEnd(node, end - seen);
+      return range;
+    }
+    seen += length;
+  }
+  return null;
+}
+
+// Paints with the CSS Custom Highlight API of whichever document the root belongs to.
+export function paintNamedHighlight(root: HTMLElement, name: string, start: number, end: number) {
+  const view = root.ownerDocument.defaultView as (Window & typeof globalThis) | null;
+  const range = rangeFromOffsets(root, start, end);
+  if (!range || !view || !("highlights" in view.CSS)) return range;
+  view.CSS.highlights.set(name, new view.Highlight(range));
+  return range;
+}
+
+export function clearNamedHighlight(root: HTMLElement, name: string) {
+  const view = root.ownerDocument.defaultView as (Window & typeof globalThis) | null;
+  if (view && "highlights" in view.CSS) view.CSS.highlights.delete(name);
+}
@@ -0,0 +1,50 @@
+// EPUB table of contents, flattened from the navigation document for the contents drawer.
+export type TocItemLike = {
+  id?: string;
+  href?: string;
+  label?: string;
+  subitems?: TocItemLike[];
+};
+
+export type TocEntry = {
+  id: string;
+  href: string;
+  label: string;
+  depth: number;
+  // Spine position of the entry's section, or -1 when the href does not resolve.
+  sectionIndex: number;
+  hidden: boolean;
+};
+
+const MAX_TOC_DEPTH = 6;
+
+export function flattenToc(items: TocItemLike[], sectionIndexOf: (href: string) => number, depth = 0): TocEntry[] {
+  const entries: TocEntry[] = [];
+  for (const item of items) {
+    const href = typeof item.href === "string" ? item.href.trim() : "";
+    if (!href) continue;
+    entries.push({
+      id: item.id || `${href}-${entries.length}`,
+      href,
+      label: (item.label || "").trim() || "Untitled",
+      depth,
+      sectionIndex: sectionIndexOf(href),
+      hidden: false,
+    });
+    if (item.subitems?.length && depth + 1 < MAX_TOC_DEPTH) {
+      entries.push(...flattenToc(item.subitems, sectionIndexOf, depth + 1));
+    }
+  }
+  return entries;
+}
+
+// The current chapter is the first entry for the nearest section at or before the displayed one.
+export function currentTocEntryId(entries: TocEntry[], sectionIndex: number | null) {
+  if (sectionIndex === null) return "";
+  let current: TocEntry | null = null;
+  for (const entry of entries) {
+    if (entry.sectionIndex < 0 || entry.sectionIndex > sectionIndex) continue;
+    if (!current || entry.sectionIndex > current.sectionIndex) current = entry;
+  }
+  return current?.id ?? "";
+}
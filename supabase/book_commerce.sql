@@ -0,0 +1,285 @@
+-- Run this once in Supabase SQL editor, after books.sql.
+-- Book access, prices, bundle items and purchases are keyed on books.id instead of a shelf slot, so the same
+-- book placed on two shelves is bought once, priced once and bundled once. page_key/book_key stay on these
+-- tables only for rows written before this migration.
+
+-- The catalogue book in a live shelf slot, falling back to the book first saved from that slot.
+create or replace function public.shelf_book_id(p_page_key text, p_book_key text)
+returns uuid
+language sql
+stable
+as $$
+  select coalesce(
+    (
+      select b.id
+      from public.bookcase_book_layouts l
+      cross join lateral jsonb_array_elements(case when jsonb_typeof(l.books) = 'array' then l.books else '[]'::jsonb end) as e(item)
+      join public.books b on b.id::text = e.item->>'bookId'
+      where l.page_key = p_page_key
+        and e.item->>'key' = p_book_key
+      limit 1
+    ),
+    (select b.id from public.books b where b.origin_page_key = p_page_key and b.origin_book_key = p_book_key)
+  );
+$$;
+
+alter table public.book_entitlements
+add column if not exists book_id uuid null references public.books (id) on delete cascade;
+
+alter table public.pricing_rules
+add column if not exists book_id uuid null references public.books (id) on delete cascade;
+
+alter table public.bundle_items
+add column if not exists book_id uuid null references public.books (id) on delete cascade;
+
+alter table public.purchases
+add column if not exists book_id uuid null references public.books (id) on delete set null;
+
+update public.book_entitlements
+set book_id = public.shelf_book_id(page_key, book_key)
+where book_id is null and page_key is not null and book_key is not null;
+
+update public.pricing_rules
+set book_id = public.shelf_book_id(page_key, book_key)
+where scope = 'book' and book_id is null;
+
+update public.bundle_items
+set book_id = public.shelf_book_id(page_key, book_key)
+where item_type = 'book' and book_id is null;
+
+update public.purchases
+set book_id = public.shelf_book_id(page_key, book_key)
+where book_id is null and page_key is not null and book_key is not null;
+
+update public.invites
+set grant_payload = grant_payload || jsonb_build_object(
+  'bookId', public.shelf_book_id(lower(grant_payload->>'pageKey'), grant_payload->>'bookKey')
+)
+where grant_payload->>'kind' = 'book'
+  and not (grant_payload ? 'bookId')
+  and public.shelf_book_id(lower(grant_payload->>'pageKey'), grant_payload->>'bookKey') is not null;
+
+-- Two slots holding the same book become one entitlement: permanent access first, then the latest expiry.
+delete from public.book_entitlements
+where id in (
+  select id
+  from (
+    select id, row_number() over (
+      partition by user_id, book_id
+      order by expires_at desc nulls first, created_at
+    ) as rank
+    from public.book_entitlements
+    where book_id is not null
+  ) ranked
+  where rank > 1
+);
+
+alter table public.book_entitlements
+drop constraint if exists book_entitlements_user_id_page_key_book_key_key;
+
+alter table public.book_entitlements
+alter column page_key drop not null,
+alter column book_key drop not null;
+
+create unique index if not exists book_entitlements_user_book_uidx
+on public.book_entitlements (user_id, book_id);
+
+drop index if exists public.book_entitlements_book_idx;
+create index if not exists book_entitlements_book_idx
+on public.book_entitlements (book_id);
+
+-- Likewise one price per book, keeping the most recently edited rule. Rules and bundle items whose slot no
+-- longer holds a book could never match a reader again and are removed.
+delete from public.pricing_rules
+where id in (
+  select id
+  from (
+    select id, row_number() over (partition by book_id order by updated_at desc) as rank
+    from public.pricing_rules
+    where scope = 'book' and book_id is not null
+  ) ranked
+  where rank > 1
+);
+
+delete from public.pricing_rules where scope = 'book' and book_id is null;
+delete from public.bundle_items where item_type = 'book' and book_id is null;
+
+alter table public.pricing_rules
+drop constraint if exists pricing_rules_target_check;
+
+alter table public.pricing_rules
+add constraint pricing_rules_target_check check (
+  (scope = 'chapter' and page_key is null and book_key is null and book_id is null)
+  or (scope = 'book' and chapter_id is null and book_id is not null)
+);
+
+drop index if exists public.pricing_rules_book_uidx;
+create unique index if not exists pricing_rules_book_uidx
+on public.pricing_rules (book_id)
+where scope = 'book';
+
+alter table public.bundle_items
+drop constraint if exists bundle_items_target_check;
+
+alter table public.bundle_items
+add constraint bundle_items_target_check check (
+  (item_type = 'chapter' and chapter_id is not null and page_key is null and book_id is null)
+  or (item_type = 'book' and chapter_id is null and book_id is not null)
+  or (item_type = 'shelf' and chapter_id is null and page_key is not null and book_id is null)
+);
+
+-- The books a bundle covers: its book items plus every book live on its shelf items.
+create or replace function public.bundle_book_ids(p_bundle_id uuid)
+returns setof uuid
+language sql
+stable
+as $$
+  select i.book_id
+  from public.bundle_items i
+  where i.bundle_id = p_bundle_id and i.item_type = 'book'
+  union
+  select b.id
+  from public.bundle_items i
+  join public.bookcase_book_layouts l on l.page_key = i.page_key
+  cross join lateral jsonb_array_elements(case when jsonb_typeof(l.books) = 'array' then l.books else '[]'::jsonb end) as e(item)
+  join public.books b on b.id::text = e.item->>'bookId'
+  where i.bundle_id = p_bundle_id and i.item_type = 'shelf';
+$$;
+
+-- Expands a bundle into per-chapter and per-book entitlements in one transaction.
+-- Existing access is only ever extended: permanent rows stay, shorter expiries are pushed out.
+create or replace function public.grant_bundle(
+  p_user_id uuid,
+  p_bundle_id uuid,
+  p_source text default 'bundle',
+  p_expires_at timestamptz default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  granted integer := 0;
+  affected integer;
+begin
+  insert into public.entitlements (user_id, chapter_id, expires_at, source)
+  select p_user_id, i.chapter_id, p_expires_at, p_source
+  from public.bundle_items i
+  where i.bundle_id = p_bundle_id and i.item_type = 'chapter'
+  on conflict (user_id, chapter_id) do update
+    set expires_at = excluded.expires_at, source = excluded.source
+    where public.entitlements.expires_at is not null
+      and (excluded.expires_at is null or excluded.expires_at > public.entitlements.expires_at);
+  get diagnostics affected = row_count;
+  granted := granted + affected;
+
+  insert into public.book_entitlements (user_id, book_id, expires_at, source)
+  select p_user_id, t.book_id, p_expires_at, p_source
+  from public.bundle_book_ids(p_bundle_id) as t(book_id)
+  on conflict (user_id, book_id) do update
+    set expires_at = excluded.expires_at, source = excluded.source
+    where public.book_entitlements.expires_at is not null
+      and (excluded.expires_at is null or excluded.expires_at > public.book_entitlements.expires_at);
+  get diagnostics affected = row_count;
+  granted := granted + affected;
+
+  return granted;
+end;
+$$;
+
+-- Undoes grant_bundle for refunds and disputes; only rows granted with p_source are removed, and rows another
+-- paid bundle of the user's also covers are kept. The caller marks the reversed purchase first, so it no
+-- longer counts as paid here.
+create or replace function public.revoke_bundle(p_user_id uuid, p_bundle_id uuid, p_source text default 'bundle')
+returns integer
+language plpgsql
+as $$
+declare
+  revoked integer := 0;
+  affected integer;
+begin
+  delete from public.entitlements e
+  using public.bundle_items i
+  where i.bundle_id = p_bundle_id
+    and i.item_type = 'chapter'
+    and e.user_id = p_user_id
+    and e.chapter_id = i.chapter_id
+    and e.source = p_source
+    and not exists (
+      select 1
+      from public.purchases p
+      join public.bundle_items o on o.bundle_id = p.bundle_id
+      where p.user_id = p_user_id
+        and p.status = 'paid'
+        and not coalesce(p.is_gift, false)
+        and o.item_type = 'chapter'
+        and o.chapter_id = e.chapter_id
+    );
+  get diagnostics affected = row_count;
+  revoked := revoked + affected;
+
+  delete from public.book_entitlements e
+  where e.user_id = p_user_id
+    and e.source = p_source
+    and e.book_id in (select public.bundle_book_ids(p_bundle_id))
+    and not exists (
+      select 1
+      from public.purchases p
+      where p.user_id = p_user_id
+        and p.status = 'paid'
+        and not coalesce(p.is_gift, false)
+        and p.bundle_id is not null
+        and e.book_id in (select public.bundle_book_ids(p.bundle_id))
+    );
+  get diagnostics affected = row_count;
+  revoked := revoked + affected;
+
+  return revoked;
+end;
+$$;
+
+-- Only the service role (checkout and webhook) may call these.
+revoke all on function public.grant_bundle(uuid, uuid, text, timestamptz) from public, anon, authenticated;
+revoke all on function public.revoke_bundle(uuid, uuid, text) from public, anon, authenticated;
+grant execute on function public.grant_bundle(uuid, uuid, text, timestamptz) to service_role;
+grant execute on function public.revoke_bundle(uuid, uuid, text) to service_role;
+
+-- Club notes on a full book are readable by anyone entitled to the catalogue book in that slot.
+create or replace function public.can_read_club_item(p_item_key text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null and (
+    p_item_key like '%-sample'
+    or p_item_key like '%-info'
+    or p_item_key like '%-preview'
+    or exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and lower(p.role::text) = 'admin'
+    )
+    or exists (
+      select 1 from public.memberships m
+      where m.user_id = auth.uid()
+        and m.status in ('active', 'trialing', 'past_due')
+        and (m.current_period_end is null or m.current_period_end > now())
+    )
+    or exists (
+      select 1 from public.entitlements e
+      where e.user_id = auth.uid()
+        and e.chapter_id::text = p_item_key
+        and (e.expires_at is null or e.expires_at > now())
+    )
+    or exists (
+      select 1
+      from public.book_entitlements b
+      join public.bookcase_book_layouts l on true
+      cross join lateral jsonb_array_elements(case when jsonb_typeof(l.books) = 'array' then l.books else '[]'::jsonb end) as e(item)
+      where b.user_id = auth.uid()
+        and e.item->>'bookId' = b.book_id::text
+        and l.page_key || '-' || (e.item->>'key') || '-full' = p_item_key
+        and (b.expires_at is null or b.expires_at > now())
+    )
+  );
+$$;
@@ -0,0 +1,41 @@
+-- Run this once in Supabase SQL editor.
+-- Per-book access for the shelf "full" slot (mirrors public.entitlements for chapters).
+-- book_commerce.sql later keys these rows, and book purchases, on books.id instead of page_key/book_key.
+create table if not exists public.book_entitlements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  page_key text not null,
+  book_key text not null,
+  expires_at timestamptz null,
+  source text not null default 'purchase',
+  created_at timestamptz not null default now(),
+  unique (user_id, page_key, book_key)
+);
+
+create index if not exists book_entitlements_book_idx
+on public.book_entitlements (page_key, book_key);
+
+alter table public.book_entitlements enable row level security;
+
+drop policy if exists "book_entitlements_read_own" on public.book_entitlements;
+create policy "book_entitlements_read_own"
+on public.book_entitlements
+for select
+using (auth.uid() = user_id);
+
+-- Full-book files live in a private bucket and are only handed out as signed URLs.
+insert into storage.buckets (id, name, public)
+values ('book-full-media', 'book-full-media', false)
+on conflict (id) do update set public = false;
+
+-- Full books uploaded before this bucket existed still sit in the public book-reader-media bucket and are no
+-- longer served from there. Storage objects cannot be moved from SQL: after running this file, POST to
+-- /api/full-book-migration as an admin to move them here and repoint their books rows.
+
+-- Purchases can now be for a whole shelf book instead of a chapter.
+alter table public.purchases
+add column if not exists page_key text,
+add column if not exists book_key text;
+
+alter table public.purchases
+alter column chapter_id drop not null;
@@ -3,6 +3,7 @@ create table if not exists public.bookcase_book_layouts (
   page_key text primary key,
   books jsonb not null default '[]'::jsonb,
   front_templates jsonb not null default '{}'::jsonb,
+  shelf_rows integer not null default 1 check (shelf_rows between 1 and 3),
   updated_by uuid references auth.users(id),
   updated_at timestamptz not null default now()
 );
@@ -10,6 +11,10 @@ create table if not exists public.bookcase_book_layouts (
 alter table public.bookcase_book_layouts
 add column if not exists front_templates jsonb not null default '{}'::jsonb;
 
+-- Rows of books a page holds before saves move extra books onto its continuation page.
+alter table public.bookcase_book_layouts
+add column if not exists shelf_rows integer not null default 1 check (shelf_rows between 1 and 3);
+
 create or replace function public.touch_bookcase_book_layouts_updated_at()
 returns trigger
 language plpgsql
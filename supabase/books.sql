@@ -0,0 +1,163 @@
+-- Run this once in Supabase SQL editor.
+-- Book metadata, shared by every shelf that places the book. Shelf entries in bookcase_book_layouts.books
+-- and in the bookcase-books:* device_layout_profiles keep placement and styling only, plus a bookId.
+-- origin_page_key/origin_book_key record the shelf slot a book was first saved from, so shelf entries
+-- written before they carried a bookId (old drafts and revisions) still find their book.
+create table if not exists public.books (
+  id uuid primary key default gen_random_uuid(),
+  title text not null default '',
+  cover_image_url text not null default '',
+  reader_sample_text text not null default '',
+  info_page_text text not null default '',
+  reader_sample_media_url text not null default '',
+  reader_sample_media_type text not null default '',
+  info_page_media_url text not null default '',
+  info_page_media_type text not null default '',
+  full_book_media_url text not null default '',
+  full_book_media_type text not null default '',
+  full_book_media_path text not null default '',
+  full_book_hide_first_pages integer not null default 0,
+  full_book_max_pages integer not null default 0,
+  full_book_price_pence integer not null default 0,
+  origin_page_key text null,
+  origin_book_key text null,
+  updated_by uuid null references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint books_origin_key unique (origin_page_key, origin_book_key)
+);
+
+create or replace function public.touch_books_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_books_updated_at on public.books;
+create trigger trg_touch_books_updated_at
+before update on public.books
+for each row
+execute procedure public.touch_books_updated_at();
+
+-- Service role only; shelves and readers reach books through the server.
+alter table public.books enable row level security;
+
+-- Migration: one book per shelf slot, taken from the page row before any device profile copy.
+with shelf_entries as (
+  select l.page_key, e.item, 0 as source_rank
+  from public.bookcase_book_layouts l,
+       jsonb_array_elements(l.books) as e(item)
+  where jsonb_typeof(l.books) = 'array'
+  union all
+  select split_part(p.profile_key, ':', 2), e.item, 1
+  from public.device_layout_profiles p,
+       jsonb_array_elements(p.layout->'books') as e(item)
+  where p.profile_key like 'bookcase-books:%'
+    and jsonb_typeof(p.layout->'books') = 'array'
+), slots as (
+  select distinct on (page_key, item->>'key') page_key, item
+  from shelf_entries
+  where coalesce(item->>'key', '') <> ''
+    and not (item ? 'bookId')
+  order by page_key, item->>'key', source_rank
+)
+insert into public.books (
+  title,
+  cover_image_url,
+  reader_sample_text,
+  info_page_text,
+  reader_sample_media_url,
+  reader_sample_media_type,
+  info_page_media_url,
+  info_page_media_type,
+  full_book_media_url,
+  full_book_media_type,
+  full_book_media_path,
+  full_book_hide_first_pages,
+  full_book_max_pages,
+  full_book_price_pence,
+  origin_page_key,
+  origin_book_key
+)
+select
+  coalesce(item->>'label', ''),
+  coalesce(item->>'coverImageUrl', ''),
+  coalesce(item->>'readerSampleText', ''),
+  coalesce(item->>'infoPageText', ''),
+  coalesce(item->>'readerSampleMediaUrl', ''),
+  coalesce(item->>'readerSampleMediaType', ''),
+  coalesce(item->>'infoPageMediaUrl', ''),
+  coalesce(item->>'infoPageMediaType', ''),
+  coalesce(item->>'fullBookMediaUrl', ''),
+  coalesce(item->>'fullBookMediaType', ''),
+  coalesce(item->>'fullBookMediaPath', ''),
+  case when jsonb_typeof(item->'fullBookHideFirstPages') = 'number'
+    then round((item->>'fullBookHideFirstPages')::numeric)::integer else 0 end,
+  case when jsonb_typeof(item->'fullBookMaxPages') = 'number'
+    then round((item->>'fullBookMaxPages')::numeric)::integer else 0 end,
+  case when jsonb_typeof(item->'fullBookPricePence') = 'number'
+    then round((item->>'fullBookPricePence')::numeric)::integer else 0 end,
+  page_key,
+  item->>'key'
+from slots
+on conflict (origin_page_key, origin_book_key) do nothing;
+
+-- Rewrite shelf entries to placement + bookId.
+update public.bookcase_book_layouts l
+set books = (
+  select coalesce(
+    jsonb_agg(
+      case
+        when e.item ? 'bookId' or b.id is null then e.item
+        else (e.item - array[
+          'label', 'coverImageUrl', 'readerSampleText', 'infoPageText',
+          'readerSampleMediaUrl', 'readerSampleMediaType', 'infoPageMediaUrl', 'infoPageMediaType',
+          'fullBookMediaUrl', 'fullBookMediaType', 'fullBookMediaPath',
+          'fullBookHideFirstPages', 'fullBookMaxPages', 'fullBookPricePence'
+        ]) || jsonb_build_object('bookId', b.id)
+      end
+      order by e.ord
+    ),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(l.books) with ordinality as e(item, ord)
+  left join public.books b
+    on b.origin_page_key = l.page_key
+   and b.origin_book_key = e.item->>'key'
+)
+where jsonb_typeof(l.books) = 'array'
+  and exists (select 1 from jsonb_array_elements(l.books) as e(item) where not (e.item ? 'bookId'));
+
+update public.device_layout_profiles p
+set layout = jsonb_set(
+  p.layout,
+  '{books}',
+  (
+    select coalesce(
+      jsonb_agg(
+        case
+          when e.item ? 'bookId' or b.id is null then e.item
+          else (e.item - array[
+            'label', 'coverImageUrl', 'readerSampleText', 'infoPageText',
+            'readerSampleMediaUrl', 'readerSampleMediaType', 'infoPageMediaUrl', 'infoPageMediaType',
+            'fullBookMediaUrl', 'fullBookMediaType', 'fullBookMediaPath',
+            'fullBookHideFirstPages', 'fullBookMaxPages', 'fullBookPricePence'
+          ]) || jsonb_build_object('bookId', b.id)
+        end
+        order by e.ord
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(p.layout->'books') with ordinality as e(item, ord)
+    left join public.books b
+      on b.origin_page_key = split_part(p.profile_key, ':', 2)
+     and b.origin_book_key = e.item->>'key'
+  )
+)
+where p.profile_key like 'bookcase-books:%'
+  and jsonb_typeof(p.layout->'books') = 'array'
+  and exists (select 1 from jsonb_array_elements(p.layout->'books') as e(item) where not (e.item ? 'bookId'));
@@ -0,0 +1,82 @@
+-- Run this once in Supabase SQL editor.
+-- Bundles sell several chapters and/or shelf books in one checkout at a single price.
+create table if not exists public.bundles (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique,
+  title text not null,
+  description text not null default '',
+  amount_pence integer not null default 0 check (amount_pence >= 0),
+  currency text not null default 'gbp',
+  status text not null default 'draft' check (status in ('draft', 'published')),
+  updated_by uuid null references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- item_type 'shelf' means every book on that shelf page at the time of purchase.
+create table if not exists public.bundle_items (
+  id uuid primary key default gen_random_uuid(),
+  bundle_id uuid not null references public.bundles (id) on delete cascade,
+  item_type text not null check (item_type in ('chapter', 'book', 'shelf')),
+  chapter_id uuid null references public.chapters (id) on delete cascade,
+  page_key text null,
+  book_key text null,
+  constraint bundle_items_target_check check (
+    (item_type = 'chapter' and chapter_id is not null and page_key is null and book_key is null)
+    or (item_type = 'book' and chapter_id is null and page_key is not null and book_key is not null)
+    or (item_type = 'shelf' and chapter_id is null and page_key is not null and book_key is null)
+  )
+);
+
+create index if not exists bundle_items_bundle_idx
+on public.bundle_items (bundle_id);
+
+create or replace function public.touch_bundles_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_bundles_updated_at on public.bundles;
+create trigger trg_touch_bundles_updated_at
+before update on public.bundles
+for each row
+execute procedure public.touch_bundles_updated_at();
+
+alter table public.bundles enable row level security;
+alter table public.bundle_items enable row level security;
+
+drop policy if exists "bundles_read_published" on public.bundles;
+create policy "bundles_read_published"
+on public.bundles
+for select
+using (status = 'published');
+
+drop policy if exists "bundle_items_read_published" on public.bundle_items;
+create policy "bundle_items_read_published"
+on public.bundle_items
+for select
+using (exists (select 1 from public.bundles b where b.id = bundle_id and b.status = 'published'));
+
+-- grant_bundle upserts on these keys.
+create unique index if not exists entitlements_user_chapter_uidx
+on public.entitlements (user_id, chapter_id);
+
+alter table public.purchases
+add column if not exists bundle_id uuid null references public.bundles (id) on delete set null;
+
+-- grant_bundle and revoke_bundle expand a bundle into (and back out of) per-chapter and per-book entitlements in
+-- one transaction. They are defined in book_commerce.sql, which keys book access on books.id.
+drop function if exists public.grant_bundle(uuid, uuid, text);
+
+-- Example:
+-- insert into public.bundles (slug, title, amount_pence, status)
+-- values ('episodes-1-10', 'Episodes 1-10', 499, 'published');
+-- insert into public.bundle_items (bundle_id, item_type, chapter_id)
+-- select b.id, 'chapter', c.id
+-- from public.bundles b, public.chapters c
+-- where b.slug = 'episodes-1-10' and c.episode_number between 1 and 10;
@@ -0,0 +1,15 @@
+-- Run this once in Supabase SQL editor.
+-- Optional audiobook narration per chapter, played in sync with the chapter text.
+-- narration_url: a full URL or a path in the public book-reader-media bucket.
+-- narration_timings: sentence cues in reading order, e.g.
+--   [{ "begin": 0, "end": 4.2, "text": "It was a bright cold day in April." }]
+--   cues may name a sentence by number instead of text: { "begin": "0:04.2", "end": "0:09", "sentence": 1 }
+alter table public.chapters
+add column if not exists narration_url text null,
+add column if not exists narration_timings jsonb not null default '[]'::jsonb;
+
+alter table public.chapters
+drop constraint if exists chapters_narration_timings_array;
+
+alter table public.chapters
+add constraint chapters_narration_timings_array check (jsonb_typeof(narration_timings) = 'array');
@@ -0,0 +1,82 @@
+-- Run this once in Supabase SQL editor (after reader_highlights.sql).
+-- Club notes: highlights a reader chooses to share with other members reading the same item.
+alter table public.reader_highlights
+add column if not exists shared boolean not null default false,
+add column if not exists hidden_at timestamptz null,
+add column if not exists hidden_by uuid null references auth.users (id) on delete set null;
+
+create index if not exists reader_highlights_shared_item_idx
+  on public.reader_highlights (item_key, created_at)
+  where shared and hidden_at is null;
+
+-- Moderation columns are only set through the service role (admin API).
+create or replace function public.guard_reader_highlights_moderation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role' then
+    if tg_op = 'INSERT' then
+      new.hidden_at = null;
+      new.hidden_by = null;
+    else
+      new.hidden_at = old.hidden_at;
+      new.hidden_by = old.hidden_by;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_guard_reader_highlights_moderation on public.reader_highlights;
+create trigger trg_guard_reader_highlights_moderation
+before insert or update on public.reader_highlights
+for each row
+execute procedure public.guard_reader_highlights_moderation();
+
+-- Mirrors reader access: admins, active members, chapter entitlements (purchases, bundles,
+-- trials), full-book entitlements, and shelf samples, info pages and full-book previews, which
+-- are open to everyone.
+-- item_key is a chapter id or "<page>-<book>-<slot>" for shelf books.
+-- book_commerce.sql redefines this once book access is keyed on books.id.
+create or replace function public.can_read_club_item(p_item_key text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null and (
+    p_item_key like '%-sample'
+    or p_item_key like '%-info'
+    or p_item_key like '%-preview'
+    or exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and lower(p.role::text) = 'admin'
+    )
+    or exists (
+      select 1 from public.memberships m
+      where m.user_id = auth.uid()
+        and m.status in ('active', 'trialing', 'past_due')
+        and (m.current_period_end is null or m.current_period_end > now())
+    )
+    or exists (
+      select 1 from public.entitlements e
+      where e.user_id = auth.uid()
+        and e.chapter_id::text = p_item_key
+        and (e.expires_at is null or e.expires_at > now())
+    )
+    or exists (
+      select 1 from public.book_entitlements b
+      where b.user_id = auth.uid()
+        and b.page_key || '-' || b.book_key || '-full' = p_item_key
+        and (b.expires_at is null or b.expires_at > now())
+    )
+  );
+$$;
+
+drop policy if exists "reader_highlights_club_read" on public.reader_highlights;
+create policy "reader_highlights_club_read"
+on public.reader_highlights
+for select
+using (shared and hidden_at is null and public.can_read_club_item(item_key));
@@ -0,0 +1,18 @@
+-- Run this once in Supabase SQL editor.
+-- Invites can carry what they unlock; invites without a grant keep the old Episode 1 trial.
+alter table public.invites
+add column if not exists grant_payload jsonb null,
+add column if not exists purchase_id uuid null references public.purchases (id) on delete set null,
+add column if not exists gifted_by uuid null references auth.users (id) on delete set null,
+add column if not exists gift_message text null,
+add column if not exists sent_at timestamptz null,
+add column if not exists claimed_by uuid null references auth.users (id) on delete set null;
+
+-- One invite per gift purchase, so webhook retries never mint a second token.
+create unique index if not exists invites_purchase_uidx
+on public.invites (purchase_id)
+where purchase_id is not null;
+
+alter table public.purchases
+add column if not exists is_gift boolean not null default false,
+add column if not exists recipient_email text null;
@@ -0,0 +1,14 @@
+-- Run this once in Supabase SQL editor.
+-- Bookkeeping for invites created from /bookcase/admin/invites.
+alter table public.invites
+add column if not exists created_at timestamptz not null default now(),
+add column if not exists created_by uuid null references auth.users (id) on delete set null;
+
+create index if not exists invites_created_at_idx
+on public.invites (created_at desc);
+
+create index if not exists invites_email_idx
+on public.invites (lower(email));
+
+-- Service role only; invites hold bearer tokens.
+alter table public.invites enable row level security;
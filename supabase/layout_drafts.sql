@@ -0,0 +1,45 @@
+-- Run this once in Supabase SQL editor.
+-- Unpublished layout edits, one per layout row. table_name/row_key address the same rows as
+-- layout_revisions. A draft with publish_at goes live on the first request after that time that reads
+-- live layout data (shelves, navigation, the reader, checkout or a bundle grant).
+create table if not exists public.layout_drafts (
+  table_name text not null check (table_name in ('device_layout_profiles', 'bookcase_book_layouts')),
+  row_key text not null,
+  layout jsonb not null default '{}'::jsonb,
+  publish_at timestamptz null,
+  publish_with_key text null,
+  updated_by uuid null references auth.users (id) on delete set null,
+  updated_at timestamptz not null default now(),
+  primary key (table_name, row_key)
+);
+
+-- Continuation pages filled by a draft save carry the source row's key and go live with it.
+alter table public.layout_drafts
+add column if not exists publish_with_key text null;
+
+create index if not exists layout_drafts_publish_with_idx
+on public.layout_drafts (table_name, publish_with_key)
+where publish_with_key is not null;
+
+create index if not exists layout_drafts_publish_at_idx
+on public.layout_drafts (publish_at)
+where publish_at is not null;
+
+create or replace function public.touch_layout_drafts_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_layout_drafts_updated_at on public.layout_drafts;
+create trigger trg_touch_layout_drafts_updated_at
+before update on public.layout_drafts
+for each row
+execute procedure public.touch_layout_drafts_updated_at();
+
+-- Service role only; editors reach drafts through the admin layout APIs.
+alter table public.layout_drafts enable row level security;
@@ -0,0 +1,20 @@
+-- Run this once in Supabase SQL editor.
+-- Append-only history of layout saves. Each row is the full JSON written to device_layout_profiles
+-- (layout column, keyed by profile_key) or bookcase_book_layouts ({ books, frontTemplates }, keyed by page_key).
+create table if not exists public.layout_revisions (
+  id uuid primary key default gen_random_uuid(),
+  table_name text not null check (table_name in ('device_layout_profiles', 'bookcase_book_layouts')),
+  row_key text not null,
+  layout jsonb not null default '{}'::jsonb,
+  created_by uuid null references auth.users (id) on delete set null,
+  created_by_email text not null default '',
+  created_at timestamptz not null default now(),
+  -- Set when the row was written by restoring an earlier revision.
+  restored_from uuid null references public.layout_revisions (id) on delete set null
+);
+
+create index if not exists layout_revisions_row_idx
+on public.layout_revisions (table_name, row_key, created_at desc);
+
+-- Service role only; the admin API reads and restores revisions.
+alter table public.layout_revisions enable row level security;
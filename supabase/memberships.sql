@@ -0,0 +1,36 @@
+-- Run this once in Supabase SQL editor.
+-- One row per reader with a Stripe subscription; kept in sync by customer.subscription.* webhooks.
+create table if not exists public.memberships (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  stripe_customer_id text null unique,
+  stripe_subscription_id text null unique,
+  plan text null check (plan is null or plan in ('monthly', 'annual')),
+  status text not null default 'incomplete',
+  current_period_end timestamptz null,
+  cancel_at_period_end boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.touch_memberships_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_memberships_updated_at on public.memberships;
+create trigger trg_touch_memberships_updated_at
+before update on public.memberships
+for each row
+execute procedure public.touch_memberships_updated_at();
+
+alter table public.memberships enable row level security;
+
+drop policy if exists "memberships_read_own" on public.memberships;
+create policy "memberships_read_own"
+on public.memberships
+for select
+using (auth.uid() = user_id);
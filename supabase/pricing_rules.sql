@@ -0,0 +1,66 @@
+-- Run this once in Supabase SQL editor.
+-- Prices for chapters and shelf books. A chapter rule with no chapter_id is the default for all chapters.
+-- book_commerce.sql later keys book rules on books.id instead of page_key/book_key.
+create table if not exists public.pricing_rules (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null check (scope in ('chapter', 'book')),
+  chapter_id uuid null references public.chapters(id) on delete cascade,
+  page_key text null,
+  book_key text null,
+  amount_pence integer not null default 0 check (amount_pence >= 0),
+  currency text not null default 'gbp',
+  sale_amount_pence integer null check (sale_amount_pence is null or sale_amount_pence >= 0),
+  sale_starts_at timestamptz null,
+  sale_ends_at timestamptz null,
+  is_free boolean not null default false,
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now(),
+  constraint pricing_rules_target_check check (
+    (scope = 'chapter' and page_key is null and book_key is null)
+    or (scope = 'book' and chapter_id is null and page_key is not null and book_key is not null)
+  )
+);
+
+create unique index if not exists pricing_rules_chapter_uidx
+on public.pricing_rules (chapter_id)
+where scope = 'chapter' and chapter_id is not null;
+
+create unique index if not exists pricing_rules_chapter_default_uidx
+on public.pricing_rules (scope)
+where scope = 'chapter' and chapter_id is null;
+
+create unique index if not exists pricing_rules_book_uidx
+on public.pricing_rules (page_key, book_key)
+where scope = 'book';
+
+create or replace function public.touch_pricing_rules_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_pricing_rules_updated_at on public.pricing_rules;
+create trigger trg_touch_pricing_rules_updated_at
+before update on public.pricing_rules
+for each row
+execute procedure public.touch_pricing_rules_updated_at();
+
+alter table public.pricing_rules enable row level security;
+
+-- Prices are shown on public pages.
+drop policy if exists "pricing_rules_read" on public.pricing_rules;
+create policy "pricing_rules_read"
+on public.pricing_rules
+for select
+using (true);
+
+-- Keep the old flat 79p as the default chapter price.
+insert into public.pricing_rules (scope, amount_pence, currency)
+select 'chapter', 79, 'gbp'
+where not exists (
+  select 1 from public.pricing_rules where scope = 'chapter' and chapter_id is null
+);
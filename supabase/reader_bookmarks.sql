@@ -0,0 +1,42 @@
+-- Run this once in Supabase SQL editor.
+-- Named bookmarks per reader and item; item_key matches reading_progress.item_key.
+-- position holds the reader's bookmark record: { type: "scroll", y, at }, { type: "page", page, pages, at }
+-- or { type: "epub", cfi, at }.
+create table if not exists public.reader_bookmarks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  item_key text not null,
+  label text not null,
+  note text not null default '',
+  position jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists reader_bookmarks_user_item_idx
+  on public.reader_bookmarks (user_id, item_key, created_at);
+
+create or replace function public.touch_reader_bookmarks_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_reader_bookmarks_updated_at on public.reader_bookmarks;
+create trigger trg_touch_reader_bookmarks_updated_at
+before update on public.reader_bookmarks
+for each row
+execute procedure public.touch_reader_bookmarks_updated_at();
+
+alter table public.reader_bookmarks enable row level security;
+
+drop policy if exists "reader_bookmarks_own" on public.reader_bookmarks;
+create policy "reader_bookmarks_own"
+on public.reader_bookmarks
+for all
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
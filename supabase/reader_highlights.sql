@@ -0,0 +1,42 @@
+-- Run this once in Supabase SQL editor.
+-- Reader highlights with an optional note; item_key matches reading_progress.item_key.
+-- anchor is { type: "text", start, end } (offsets into the chapter text) or { type: "epub", cfiRange }.
+create table if not exists public.reader_highlights (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  item_key text not null,
+  anchor jsonb not null,
+  quote text not null,
+  color text not null default 'yellow' check (color in ('yellow', 'green', 'blue', 'pink')),
+  note text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists reader_highlights_user_item_idx
+  on public.reader_highlights (user_id, item_key, created_at);
+
+create or replace function public.touch_reader_highlights_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_touch_reader_highlights_updated_at on public.reader_highlights;
+create trigger trg_touch_reader_highlights_updated_at
+before update on public.reader_highlights
+for each row
+execute procedure public.touch_reader_highlights_updated_at();
+
+alter table public.reader_highlights enable row level security;
+
+drop policy if exists "reader_highlights_own" on public.reader_highlights;
+create policy "reader_highlights_own"
+on public.reader_highlights
+for all
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
@@ -0,0 +1,52 @@
+-- Run this once in Supabase SQL editor.
+-- Last reading position and bookmark per reader and item, shared across devices.
+-- item_key is the reader's chapterId prop (a chapter id, or "<page>-<book>-<slot>" for shelf books).
+create table if not exists public.reading_progress (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  item_key text not null,
+  kind text not null check (kind in ('progress', 'bookmark')),
+  record jsonb not null,
+  at bigint not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, item_key, kind)
+);
+
+alter table public.reading_progress enable row level security;
+
+drop policy if exists "reading_progress_own" on public.reading_progress;
+create policy "reading_progress_own"
+on public.reading_progress
+for all
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- Last write wins by the client "at" timestamp (ms); older writes are ignored.
+-- Returns the stored rows for every item touched, so callers get the merged state back.
+create or replace function public.merge_reading_progress(p_records jsonb)
+returns setof public.reading_progress
+language plpgsql
+security invoker
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  insert into public.reading_progress (user_id, item_key, kind, record, at)
+  select auth.uid(), r.item_key, r.kind, r.record, r.at
+  from jsonb_to_recordset(coalesce(p_records, '[]'::jsonb)) as r(item_key text, kind text, record jsonb, at bigint)
+  where r.item_key is not null and r.kind in ('progress', 'bookmark') and r.record is not null and r.at is not null
+  on conflict (user_id, item_key, kind) do update
+    set record = excluded.record, at = excluded.at, updated_at = now()
+    where excluded.at > public.reading_progress.at;
+
+  return query
+  select p.*
+  from public.reading_progress p
+  where p.user_id = auth.uid()
+    and p.item_key in (
+      select r.item_key
+      from jsonb_to_recordset(coalesce(p_records, '[]'::jsonb)) as r(item_key text)
+    );
+end;
+$$;
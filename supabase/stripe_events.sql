@@ -0,0 +1,23 @@
+-- Run this once in Supabase SQL editor.
+-- Ledger of Stripe webhook deliveries, keyed by Stripe event id so retries and replays are handled once.
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  object_id text null,
+  status text not null default 'processing' check (status in ('processing', 'processed', 'failed')),
+  attempts integer not null default 1,
+  error text null,
+  received_at timestamptz not null default now(),
+  claimed_at timestamptz not null default now(),
+  processed_at timestamptz null
+);
+
+create index if not exists stripe_events_type_idx
+on public.stripe_events (type, received_at desc);
+
+-- Service role only; no client policies.
+alter table public.stripe_events enable row level security;
+
+-- Refunds and disputes are looked up by payment intent.
+create index if not exists purchases_payment_intent_idx
+on public.purchases (stripe_payment_intent_id);